@@ -16,18 +16,8 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import LottieView from "lottie-react-native";
-
-// ---------- Types ----------
-type Product = {
-  id?: string | number;
-  name?: string;
-  barcode?: string;
-  brand?: string;
-  price?: number;
-  imageUrl?: string;
-  size?: string;
-  average_price?: number;
-};
+import { api } from "@/lib/api";
+import type { Product } from "@/lib/types";
 
 // ---------- UI Helpers ----------
 const nis = new Intl.NumberFormat("he-IL", { style: "currency", currency: "ILS" });
@@ -51,11 +41,8 @@ export default function ProductsPage() {
   const load = useCallback(async () => {
     setError(null);
     try {
-      const res = await fetch("https://zenlist.hack-ops.net/api/products");
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data = await res.json();
-      const productsArray = Object.values(data);
-      setItems(productsArray as Product[]);
+      const data = await api.products.get();
+      setItems(Object.values(data ?? {}));
     } catch (e: any) {
       setError("שגיאה בטעינת מוצרים. נסה שוב.");
     } finally {
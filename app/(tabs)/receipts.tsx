@@ -19,6 +19,7 @@ import {
   PermissionsAndroid,
 } from "react-native";
 import Constants from "expo-constants";
+import { useLocalSearchParams } from "expo-router";
 // Correct import for react-native-get-sms-android
 import SmsAndroid from 'react-native-get-sms-android';
 import FABAnim from "../../assets/receipts-navbar-animation.json";
@@ -26,6 +27,12 @@ import { Ionicons } from "@expo/vector-icons";
 import * as FileSystem from "expo-file-system";
 import * as Sharing from "expo-sharing";
 import LottieView from "lottie-react-native";
+import ReconcileModal from "@/components/ReconcileModal";
+import { api, ApiError } from "@/lib/api";
+import { loadActiveListId, loadCachedLists } from "@/lib/lists";
+import { fetchServerList } from "@/lib/listSync";
+import { applyReconciliation, Reconciliation, ReconcileAction, reconcileReceipt, saveForgotten } from "@/lib/reconcile";
+import type { Receipt } from "@/lib/types";
 
 I18nManager.forceRTL(false);
 I18nManager.allowRTL(false);
@@ -33,14 +40,6 @@ I18nManager.allowRTL(false);
 
 
 // ---- Types ---------------------------------------------------------------
-type Receipt = {
-  city: string;
-  company: string;
-  createdDate: string; // ISO string
-  file: string;        // receipt id
-  total: number;
-};
-
 type Section = {
   title: string;
   data: Receipt[];
@@ -92,6 +91,8 @@ function groupByCompanyCity(receipts: Receipt[]): Section[] {
 // ---- UI ------------------------------------------------------------------
 
 export default function ReceiptsPage() {
+  // Set when a past shopping trip links here to its receipt
+  const { receiptId } = useLocalSearchParams<{ receiptId?: string }>();
   // FAB & Modal state
   const [modalVisible, setModalVisible] = useState(false);
   const [textValue, setTextValue] = useState("");
@@ -109,6 +110,14 @@ export default function ReceiptsPage() {
   const [foundLinks, setFoundLinks] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // What the receipt just imported means for the active shopping list
+  const [reconcile, setReconcile] = useState<{
+    listId: string;
+    listName: string;
+    receiptId: string;
+    result: Reconciliation;
+  } | null>(null);
+
   // For showing the most recent OSHERAD SMS link
   const [recentOsheradLink, setRecentOsheradLink] = useState<null | { link: string; date: string }>(null);
   const [recentYochananofLink, setRecentYochananofLink] = useState<null | { link: string; date: string }>(null);
@@ -131,28 +140,49 @@ export default function ReceiptsPage() {
     setPermissionError(null);
   };
 
+  // Matches a new receipt against the open items of the active list. Backends
+  // without receipt details just skip this.
+  const proposeReconciliation = async (receiptId: string) => {
+    try {
+      const [listId, lists] = await Promise.all([loadActiveListId(), loadCachedLists()]);
+      const [details, items] = await Promise.all([api.receipts.get(receiptId), fetchServerList(listId)]);
+      const result = reconcileReceipt(items, details.items);
+      if (result.actions.length === 0) return;
+      const listName = lists.find(l => l.id === listId)?.name ?? "רשימת קניות";
+      setReconcile({ listId, listName, receiptId, result });
+    } catch {
+      // The receipt is saved either way; the list just stays as it was
+    }
+  };
+
+  const applyReconcile = async (actions: ReconcileAction[]) => {
+    if (!reconcile) return;
+    const { listId, receiptId, result } = reconcile;
+    try {
+      const failed = await applyReconciliation(listId, actions);
+      await saveForgotten(listId, receiptId, result.forgotten.map(item => item.id));
+      setReconcile(null);
+      if (failed > 0) showSnack(`${failed} פריטים לא עודכנו ברשימה`);
+      else if (actions.length > 0) showSnack(`${actions.length} פריטים עודכנו ברשימת הקניות`);
+    } catch {
+      showSnack("שגיאה בעדכון רשימת הקניות");
+    }
+  };
+
   // Submit link to API
   const submitLink = async (url: string) => {
     setIsSubmitting(true);
     setModalVisible(false); // Hide modal to show loading animation
 
+    const known = new Set(receipts.map(r => r.file));
     try {
-      const response = await fetch("https://zenlist.hack-ops.net/api/fetchReceipt", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: String(url) }),
-      });
-
-      const responseBody = await response.text();
-      let errorMessage = "";
-
-      if (!response.ok) {
-        if (responseBody.includes("already exists")) {
-          errorMessage = "הקבלה כבר קיימת במערכת";
-        } else {
-          errorMessage = `שגיאה בשרת: ${response.status}\n ${responseBody}`;
-        }
-        throw new Error(errorMessage);
+      try {
+        await api.receipts.fetchReceipt(url);
+      } catch (e) {
+        if (!(e instanceof ApiError) || e.kind !== "http") throw e;
+        const responseBody = e.body ?? "";
+        if (responseBody.includes("already exists")) throw new Error("הקבלה כבר קיימת במערכת");
+        throw new Error(`שגיאה בשרת: ${e.status}\n ${responseBody}`);
       }
 
       // Show success animation
@@ -165,9 +195,11 @@ export default function ReceiptsPage() {
         showSnack("הקבלה נוספה בהצלחה!");
       }, 2000);
 
-      await load(); // Reload receipts after successful submission
+      const fresh = await load(); // Reload receipts after successful submission
       setTextValue("");
       setFoundLinks([]);
+      const imported = fresh.find(r => !known.has(r.file));
+      if (imported) proposeReconciliation(imported.file);
     } catch (e: any) {
       showSnack(e.message || "אירעה שגיאה בעיבוד הקבלה");
       // Reopen modal with error after a short delay
@@ -308,15 +340,16 @@ export default function ReceiptsPage() {
     snackTimer.current = setTimeout(() => setSnack(null), 2200);
   }, []);
 
-  const load = useCallback(async () => {
+  const load = useCallback(async (): Promise<Receipt[]> => {
     setError(null);
     try {
-      const res = await fetch("https://zenlist.hack-ops.net/api/receipts");
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data: Receipt[] = await res.json().catch(() => []);
-      setReceipts(Array.isArray(data) ? data : []);
+      const data = await api.receipts.list();
+      const list = Array.isArray(data) ? data : [];
+      setReceipts(list);
+      return list;
     } catch (e: any) {
       setError("שגיאה בטעינת הקבלות. נסה שוב.");
+      return [];
     } finally {
       setIsLoading(false);
     }
@@ -462,7 +495,12 @@ export default function ReceiptsPage() {
             </View>
           )}
           renderItem={({ item }) => (
-            <ReceiptRow item={item} onDownload={showSnack} setShowSuccessSplash={setShowSuccessSplash} />
+            <ReceiptRow
+              item={item}
+              highlighted={item.file === receiptId}
+              onDownload={showSnack}
+              setShowSuccessSplash={setShowSuccessSplash}
+            />
           )}
           ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
           SectionSeparatorComponent={() => <View style={{ height: 12 }} />}
@@ -607,6 +645,14 @@ export default function ReceiptsPage() {
 
       {/* Loading animation overlay */}
       {isSubmitting && renderLoadingOverlay()}
+
+      {/* Shown once the success animation is over */}
+      <ReconcileModal
+        reconciliation={showSuccessSplash ? null : reconcile?.result ?? null}
+        listName={reconcile?.listName ?? ""}
+        onApply={applyReconcile}
+        onClose={() => setReconcile(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -614,10 +660,12 @@ export default function ReceiptsPage() {
 // ---- Row component -------------------------------------------------------
 function ReceiptRow({
   item,
+  highlighted,
   onDownload,
   setShowSuccessSplash,
 }: {
   item: Receipt;
+  highlighted?: boolean;
   onDownload: (msg: string) => void;
   setShowSuccessSplash: (v: boolean) => void;
 }) {
@@ -626,7 +674,7 @@ function ReceiptRow({
   const handleDownload = async () => {
     try {
       setShowSuccessSplash(true);
-      const downloadUrl = `https://zenlist.hack-ops.net/api/receipts/${item.file}/download`;
+      const downloadUrl = await api.receipts.downloadUrl(item.file);
       const fileName = `${item.company}-${item.city}-${item.file}.pdf`;
       const fileUri = FileSystem.cacheDirectory + fileName;
       const downloadResult = await FileSystem.downloadAsync(downloadUrl, fileUri);
@@ -648,6 +696,7 @@ function ReceiptRow({
     <Pressable
       style={({ pressed }) => [
         styles.card,
+        highlighted && styles.cardHighlighted,
         pressed && { transform: [{ scale: 0.995 }], opacity: 0.96 },
       ]}
       onPress={() => {
@@ -891,6 +940,7 @@ const styles = StyleSheet.create({
     shadowOffset: { width: 0, height: 1 },
     elevation: 0.5,
   },
+  cardHighlighted: { borderWidth: 2, borderColor: "#506c4fff" },
   cardTop: {
     flexDirection: "row-reverse",
     alignItems: "center",
@@ -17,24 +17,9 @@ import {
 import Modal from 'react-native-modal';
 import { Ionicons } from "@expo/vector-icons";
 import LottieView from '@/components/WebLottie';
-
-// Types
-type Store = {
-  StoreId: string;
-  StoreName: string;
-  City: string;
-  Address: string;
-  brandName: string;
-  ZipCode?: string;
-  BikoretNo?: number;
-};
-
-type SupermarketSettings = {
-  supermarkets: {
-    liked: { [key: string]: Store[] };
-    available: { [key: string]: Store[] };
-  };
-};
+import type { Store } from '@/lib/types';
+import { api, DEFAULT_SERVER_URL, getServerUrl, isValidServerUrl, localServerUrl, resetServerUrl, setServerUrl } from '@/lib/api';
+import { DEFAULT_STAPLE_THRESHOLDS, loadStapleThresholds, saveStapleThresholds, StapleThresholds } from '@/lib/staples';
 
 // Hebrew brand names mapping
 const hebrewBrandNames: { [key: string]: string } = {
@@ -55,6 +40,8 @@ export default function SettingsPage() {
   const [selectedStore, setSelectedStore] = useState<Store | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [permissionError, setPermissionError] = useState<string | null>(null);
+  const [serverUrlText, setServerUrlText] = useState('');
+  const [stapleThresholds, setStapleThresholds] = useState<StapleThresholds>(DEFAULT_STAPLE_THRESHOLDS);
 
   const showSnack = useCallback((message: string) => {
     setSnackMessage(message);
@@ -64,9 +51,7 @@ export default function SettingsPage() {
   const load = useCallback(async () => {
     setError(null);
     try {
-      const response = await fetch('https://zenlist.hack-ops.net/api/generalSettings');
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      const data: SupermarketSettings = await response.json();
+      const data = await api.settings.get();
 
       // Transform data structure
       const liked = Object.entries(data.supermarkets.liked).flatMap(([brand, stores]) =>
@@ -99,17 +84,21 @@ export default function SettingsPage() {
     load();
   }, [load]);
 
+  useEffect(() => {
+    getServerUrl().then(setServerUrlText);
+    loadStapleThresholds().then(setStapleThresholds);
+  }, []);
+
+  const updateStapleThreshold = (key: keyof StapleThresholds, value: number) => {
+    const next = { ...stapleThresholds, [key]: value };
+    setStapleThresholds(next);
+    saveStapleThresholds(next);
+  };
+
   const updateLikedSupermarket = async (storeId: string, brandName: string, action: 'add' | 'remove') => {
     setShowRefreshLottie(true);
     try {
-      const response = await fetch(`https://zenlist.hack-ops.net/api/generalSettings/${action}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ StoreId: storeId, brandName })
-      });
-
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
+      await api.settings.updateLikedStore(storeId, brandName, action);
       await load();
       showSnack('ההגדרות עודכנו בהצלחה');
       setShowSuccessSplash(true);
@@ -130,14 +119,7 @@ export default function SettingsPage() {
   const updatePrices = async () => {
     setShowRefreshLottie(true);
     try {
-      const response = await fetch('https://zenlist.hack-ops.net/api/generalsettings/updatePrices', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: "manualUpdate" })
-      });
-
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
+      await api.settings.updatePrices();
       showSnack('עדכון מחירים בוצע בהצלחה!');
       setShowSuccessSplash(true);
       setTimeout(() => setShowSuccessSplash(false), 2000);
@@ -148,6 +130,26 @@ export default function SettingsPage() {
     }
   };
 
+  const saveServerUrl = async (url = serverUrlText) => {
+    if (!isValidServerUrl(url)) {
+      showSnack('כתובת שרת לא תקינה');
+      return;
+    }
+    await setServerUrl(url);
+    setServerUrlText(await getServerUrl());
+    showSnack('כתובת השרת נשמרה');
+    setIsLoading(true);
+    await load();
+  };
+
+  const restoreDefaultServerUrl = async () => {
+    await resetServerUrl();
+    setServerUrlText(DEFAULT_SERVER_URL);
+    showSnack('הוחזרה כתובת ברירת המחדל');
+    setIsLoading(true);
+    await load();
+  };
+
   const filteredStores = searchText
     ? availableStores.filter(store => {
         const brandName = store.brandName || '';
@@ -272,6 +274,71 @@ export default function SettingsPage() {
         <TouchableOpacity style={styles.updateButton} onPress={updatePrices}>
           <Text style={styles.updateButtonText}>עדכן מחירים</Text>
         </TouchableOpacity>
+
+        {/* Staples Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>מוצרים קבועים</Text>
+          <Text style={styles.sectionHint}>
+            לפי הקבלות, האפליקציה לומדת כל כמה זמן אתם קונים כל מוצר ומציעה להוסיף אותו לפני שייגמר.
+          </Text>
+          <ThresholdStepper
+            label="להציע אחרי"
+            value={`${Math.round(stapleThresholds.dueRatio * 100)}% מהזמן הרגיל`}
+            onDecrease={() => updateStapleThreshold('dueRatio', Math.max(0.5, Math.round((stapleThresholds.dueRatio - 0.05) * 100) / 100))}
+            onIncrease={() => updateStapleThreshold('dueRatio', Math.min(1.5, Math.round((stapleThresholds.dueRatio + 0.05) * 100) / 100))}
+          />
+          <ThresholdStepper
+            label="מינימום קניות"
+            value={`${stapleThresholds.minPurchases}`}
+            onDecrease={() => updateStapleThreshold('minPurchases', Math.max(2, stapleThresholds.minPurchases - 1))}
+            onIncrease={() => updateStapleThreshold('minPurchases', Math.min(10, stapleThresholds.minPurchases + 1))}
+          />
+          <ThresholdStepper
+            label="נקנה לפחות כל"
+            value={`${stapleThresholds.maxIntervalDays} ימים`}
+            onDecrease={() => updateStapleThreshold('maxIntervalDays', Math.max(7, stapleThresholds.maxIntervalDays - 7))}
+            onIncrease={() => updateStapleThreshold('maxIntervalDays', Math.min(120, stapleThresholds.maxIntervalDays + 7))}
+          />
+          <ThresholdStepper
+            label="דחייה ל"
+            value={`${stapleThresholds.snoozeDays} ימים`}
+            onDecrease={() => updateStapleThreshold('snoozeDays', Math.max(1, stapleThresholds.snoozeDays - 1))}
+            onIncrease={() => updateStapleThreshold('snoozeDays', Math.min(30, stapleThresholds.snoozeDays + 1))}
+          />
+        </View>
+
+        {/* Server Section */}
+        <View style={[styles.section, styles.serverSection]}>
+          <Text style={styles.sectionTitle}>שרת</Text>
+          <TextInput
+            style={styles.searchInput}
+            value={serverUrlText}
+            onChangeText={setServerUrlText}
+            placeholder={DEFAULT_SERVER_URL}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            returnKeyType="done"
+            onSubmitEditing={() => saveServerUrl()}
+          />
+          <View style={styles.serverActions}>
+            <TouchableOpacity style={styles.serverButton} onPress={() => saveServerUrl()}>
+              <Text style={styles.serverButtonText}>שמור</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.serverButton, styles.serverButtonSecondary]} onPress={restoreDefaultServerUrl}>
+              <Text style={[styles.serverButtonText, styles.serverButtonTextSecondary]}>ברירת מחדל</Text>
+            </TouchableOpacity>
+            {/* The mock backend from `npm run mock-server`, for development and demos */}
+            {__DEV__ && (
+              <TouchableOpacity
+                style={[styles.serverButton, styles.serverButtonSecondary]}
+                onPress={() => saveServerUrl(localServerUrl())}
+              >
+                <Text style={[styles.serverButtonText, styles.serverButtonTextSecondary]}>שרת מקומי</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
       </ScrollView>
 
       {/* FAB for adding stores */}
@@ -383,6 +450,24 @@ export default function SettingsPage() {
   );
 }
 
+// One row of the staples thresholds: label, value and -/+ buttons
+function ThresholdStepper({ label, value, onDecrease, onIncrease }: { label: string, value: string, onDecrease: () => void, onIncrease: () => void }) {
+  return (
+    <View style={styles.stepperRow}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepperControls}>
+        <TouchableOpacity onPress={onIncrease} hitSlop={8}>
+          <Ionicons name="add-circle-outline" size={26} color="#506c4fff" />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{value}</Text>
+        <TouchableOpacity onPress={onDecrease} hitSlop={8}>
+          <Ionicons name="remove-circle-outline" size={26} color="#506c4fff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   screen: {
     flex: 1,
@@ -556,6 +641,66 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  serverSection: {
+    marginTop: 32,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'right',
+    marginBottom: 12,
+  },
+  stepperRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fffdefff',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  stepperLabel: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  stepperControls: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperValue: {
+    minWidth: 110,
+    fontSize: 15,
+    color: '#506c4fff',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  serverActions: {
+    flexDirection: 'row-reverse',
+    gap: 12,
+  },
+  serverButton: {
+    flex: 1,
+    backgroundColor: '#506c4fff',
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'center',
+  },
+  serverButtonSecondary: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#506c4fff',
+  },
+  serverButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  serverButtonTextSecondary: {
+    color: '#506c4fff',
+  },
   loadingOverlay: {
     backgroundColor: '#f0ecd8ff',
     justifyContent: 'center',
@@ -16,11 +16,118 @@ import {
   TouchableOpacity,
   Keyboard,
   PanResponder,
-  ScrollView
+  ScrollView,
+  AppState
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import LottieView from '@/components/WebLottie';
 import Modal from 'react-native-modal';
+import BasketEstimateModal from '@/components/BasketEstimateModal';
+import AisleOrderModal from '@/components/AisleOrderModal';
+import ListsModal from '@/components/ListsModal';
+import MoveItemsModal from '@/components/MoveItemsModal';
+import StaplesModal from '@/components/StaplesModal';
+import ShareListModal from '@/components/ShareListModal';
+import ItemEditorModal from '@/components/ItemEditorModal';
+import ListFilterBar from '@/components/ListFilterBar';
+import StartTripModal from '@/components/StartTripModal';
+import TripSummaryModal from '@/components/TripSummaryModal';
+import CartTray from '@/components/CartTray';
+import ConfirmModal from '@/components/ConfirmModal';
+import SelectionBar from '@/components/SelectionBar';
+import BulkEditModal, { BulkEditMode } from '@/components/BulkEditModal';
+import { api } from '@/lib/api';
+import type { AisleOrders, ItemChanges, ListItem, Product, ShoppingList, Store, SupermarketItem } from '@/lib/types';
+import { storeKey } from '@/lib/basket';
+import {
+  loadActiveStore,
+  loadAisleOrders,
+  saveActiveStore,
+  saveAisleOrder,
+  sortCategories,
+  syncAisleOrders,
+} from '@/lib/aisleOrder';
+import { parseQuantity, parseQuickAddList, quantityStep } from '@/lib/quickAdd';
+import {
+  buildCategoryModel,
+  LearnedCategories,
+  learnCategory,
+  loadLearnedCategories,
+  suggestCategories,
+} from '@/lib/categorySuggest';
+import {
+  ItemUsage,
+  loadItemUsage,
+  loadPurchaseHistory,
+  mergeCandidates,
+  rankSuggestions,
+  RankedSuggestion,
+  recordItemUsage,
+  SuggestionCandidate,
+} from '@/lib/autocomplete';
+import {
+  applyQueue,
+  createLocalId,
+  DEFAULT_LIST_ID,
+  enqueue,
+  ListMutation,
+  loadSyncState,
+  pendingItemIds,
+  QueuedMutation,
+  rebaseQueue,
+  restoreItems,
+  saveQueue,
+  saveServerSnapshot,
+  syncList,
+  TransientSyncError,
+} from '@/lib/listSync';
+import { applyListEvent, ChannelStatus, ListEvent, subscribeToList } from '@/lib/listChannel';
+import {
+  deleteList,
+  fallbackList,
+  fetchLists,
+  loadActiveListId,
+  loadCachedLists,
+  MoveResult,
+  queueMoveTo,
+  saveActiveListId,
+  undoMoveTo,
+} from '@/lib/lists';
+import {
+  DEFAULT_STAPLE_THRESHOLDS,
+  DueStaple,
+  findRunningOut,
+  loadStapleHistories,
+  loadStapleSnoozes,
+  loadStapleThresholds,
+  snoozeStaple,
+  StapleHistory,
+  StapleSnoozes,
+  StapleThresholds,
+} from '@/lib/staples';
+import { loadForgotten } from '@/lib/reconcile';
+import { FilterParams, filterFromParams, filterSections, filterToParams, isFiltering, ListFilter, matchRanges, splitByRanges } from '@/lib/listFilter';
+import { planImport, SharedEntry } from '@/lib/listText';
+import { BulkAction, bulkMutations, remapSelection } from '@/lib/selection';
+import { exactProduct } from '@/lib/productLink';
+import { groupOffersByItemCode, translateSupermarket } from '@/lib/prices';
+import {
+  archiveCleared,
+  cancelTrip,
+  cartItems,
+  cartTotal,
+  finishTrip,
+  forgetTrip,
+  formatElapsed,
+  loadActiveTrip,
+  loadTripHistory,
+  priceCart,
+  ShoppingTrip,
+  startTrip,
+  tripEntries,
+  TripSummary,
+} from '@/lib/trip';
 
 
 I18nManager.forceRTL(false);
@@ -28,30 +135,56 @@ I18nManager.allowRTL(false);
 
 
 // ---------- Types ----------
-type ListItem = {
-  id: string;
-  name: string;
-  quantity: number;
-  category: string;
-  done: boolean;
-};
-
 // Type for the centralized message snackbar
 type SnackMessage = {
   message: string;
   type: 'success' | 'error';
+  // Optional button shown next to the message, e.g. undo
+  action?: { label: string; onPress: () => void };
 };
 
-// ---------- API Endpoint ----------
-const listApi = "https://zenlist.hack-ops.net/api/list";
+// How often to retry syncing while there are pending changes
+const SYNC_RETRY_MS = 20000;
+
+const nis = new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' });
 
 // ---------- Screen Component ----------
 export default function ShoppingListPage() {
+  const router = useRouter();
+
   // Core state
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [items, setItems] = useState<ListItem[]>([]);
+
+  // Offline-first state: the last list the server confirmed plus the
+  // mutations still waiting to be replayed. What the user sees is both combined.
+  const [serverItems, setServerItems] = useState<ListItem[]>([]);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [isOffline, setIsOffline] = useState(false);
+  const [channelStatus, setChannelStatus] = useState<ChannelStatus>('connecting');
+  const serverItemsRef = useRef<ListItem[]>([]);
+  const queueRef = useRef<QueuedMutation[]>([]);
+  // The list a sync is running for, so switching lists can start another
+  const syncingList = useRef<string | null>(null);
+
+  // Named lists: every list operation below works on the active one
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [activeListId, setActiveListId] = useState(DEFAULT_LIST_ID);
+  const activeListRef = useRef(DEFAULT_LIST_ID);
+  // False until the last active list is read back from the device
+  const [listReady, setListReady] = useState(false);
+  const [listsVisible, setListsVisible] = useState(false);
+  const [movingItems, setMovingItems] = useState<ListItem[]>([]);
+  const [editingItem, setEditingItem] = useState<ListItem | null>(null);
+  const items = useMemo(() => applyQueue(serverItems, queue), [serverItems, queue]);
+  // Multi-select: started by a long press, kept by id so it outlives refreshes
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkEdit, setBulkEdit] = useState<BulkEditMode | null>(null);
+  // Items deleted elsewhere simply drop out of the selection
+  const selectedItems = useMemo(() => items.filter(i => selectedIds.has(i.id)), [items, selectedIds]);
+  const pendingIds = useMemo(() => pendingItemIds(queue), [queue]);
 
   // UI feedback state
   const [snack, setSnack] = useState<SnackMessage | null>(null);
@@ -68,14 +201,49 @@ export default function ShoppingListPage() {
   const [addQuantity, setAddQuantity] = useState('1');
   const [addCategory, setAddCategory] = useState('');
   const [addLoading, setAddLoading] = useState(false);
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<RankedSuggestion[]>([]);
   const [categorySuggestions, setCategorySuggestions] = useState<string[]>([]);
   const [showNameSuggestions, setShowNameSuggestions] = useState(false);
   const [showCategorySuggestions, setShowCategorySuggestions] = useState(false);
   const [allSuggestions, setAllSuggestions] = useState<string[]>([]);
   const [allCategories, setAllCategories] = useState<string[]>([]);
+  // What the category suggester learns from: the server's category -> item
+  // names map, the product catalogue and the user's own corrections
+  const [categoryMap, setCategoryMap] = useState<Record<string, unknown>>({});
+  const [products, setProducts] = useState<Record<string, Product>>({});
+  const [learnedCategories, setLearnedCategories] = useState<LearnedCategories>({});
+  // Once the user picks a category themselves we stop pre-filling it
+  const [categoryTouched, setCategoryTouched] = useState(false);
+  // Autocomplete ranking: what we bought (receipts) and added (this device), how often and when
+  const [purchases, setPurchases] = useState<SuggestionCandidate[] | null>(null);
+  const [itemUsage, setItemUsage] = useState<ItemUsage>({});
+  const [quickText, setQuickText] = useState('');
   const nameInputRef = useRef<TextInput>(null);
   
+  // Basket price estimate modal
+  const [basketVisible, setBasketVisible] = useState(false);
+
+  // Category walk order of the store we're shopping at
+  const [aisleOrders, setAisleOrders] = useState<AisleOrders>({});
+  const [activeStore, setActiveStore] = useState<Store | null>(null);
+  const [aisleVisible, setAisleVisible] = useState(false);
+
+  // Staples that are probably running out, learned from receipt history
+  const [stapleHistories, setStapleHistories] = useState<StapleHistory[]>([]);
+  const [stapleThresholds, setStapleThresholds] = useState<StapleThresholds>(DEFAULT_STAPLE_THRESHOLDS);
+  const [stapleSnoozes, setStapleSnoozes] = useState<StapleSnoozes>({});
+  const [staplesVisible, setStaplesVisible] = useState(false);
+  const [shareVisible, setShareVisible] = useState(false);
+  // Items the last imported receipt didn't cover
+  const [forgottenIds, setForgottenIds] = useState<Set<string>>(new Set());
+
+  // In-store shopping mode: the trip, every store's prices and the summary once it ends
+  const [trip, setTrip] = useState<ShoppingTrip | null>(null);
+  const [tripPrices, setTripPrices] = useState<SupermarketItem[] | null>(null);
+  const [startTripVisible, setStartTripVisible] = useState(false);
+  const [tripSummary, setTripSummary] = useState<TripSummary | null>(null);
+  const [endTripVisible, setEndTripVisible] = useState(false);
+
   // Overlay state for add animation
   const [showAddAnim, setShowAddAnim] = useState(false);
 
@@ -84,8 +252,7 @@ export default function ShoppingListPage() {
     if (!modalVisible) return;
     // Only fetch if not already loaded
     if (allSuggestions.length > 0 && allCategories.length > 0) return;
-    fetch(listApi)
-      .then(res => res.json())
+    api.list.get(activeListId)
       .then(data => {
         // Suggestions
         if (Array.isArray(data.suggestions)) {
@@ -96,6 +263,7 @@ export default function ShoppingListPage() {
         // Categories
         if (data.categories && typeof data.categories === 'object') {
           setAllCategories(Object.keys(data.categories));
+          setCategoryMap(data.categories);
         } else {
           setAllCategories([]);
         }
@@ -104,42 +272,144 @@ export default function ShoppingListPage() {
         setAllSuggestions([]);
         setAllCategories([]);
       });
-  }, [modalVisible, allSuggestions.length, allCategories.length]);
+  }, [modalVisible, allSuggestions.length, allCategories.length, activeListId]);
+
+  // The catalogue helps the category suggester and prices linked items, so
+  // failing to load it is fine
+  const needsProducts = modalVisible || !!editingItem || items.some(i => i.barcode);
+  useEffect(() => {
+    if (!needsProducts || Object.keys(products).length > 0) return;
+    api.products.get().then(setProducts).catch(() => {});
+  }, [needsProducts, products]);
+
+  useEffect(() => {
+    if (!modalVisible || purchases) return;
+    loadPurchaseHistory().then(setPurchases).catch(() => setPurchases([]));
+  }, [modalVisible, purchases]);
+
+  useEffect(() => {
+    loadStapleHistories().then(setStapleHistories).catch(() => {});
+  }, []);
+
+  // Thresholds are edited in settings and receipts are imported on their own
+  // tab, so read both again whenever the tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      loadStapleThresholds().then(setStapleThresholds);
+      loadStapleSnoozes().then(setStapleSnoozes);
+      loadForgotten(activeListId).then(ids => setForgottenIds(new Set(ids)));
+    }, [activeListId])
+  );
+
+  useEffect(() => {
+    loadLearnedCategories().then(setLearnedCategories);
+    loadItemUsage().then(setItemUsage);
+  }, []);
+
+  const categoryModel = useMemo(
+    () => buildCategoryModel({ history: categoryMap, items, products, learned: learnedCategories }),
+    [categoryMap, items, products, learnedCategories]
+  );
+
+  // Most likely categories for the name being typed, best first
+  const categoryRanking = useMemo(
+    () => (addName.trim() ? suggestCategories(addName, categoryModel) : []),
+    [addName, categoryModel]
+  );
+
+  useEffect(() => {
+    if (!categoryTouched) setAddCategory(categoryRanking[0]?.category ?? '');
+  }, [categoryRanking, categoryTouched]);
 
   // Function to show a temporary snackbar message
-  const showSnack = useCallback((msg: string, type: 'success' | 'error' = 'error') => {
-    setSnack({ message: msg, type });
+  const showSnack = useCallback((msg: string, type: 'success' | 'error' = 'error', action?: SnackMessage['action']) => {
+    setSnack({ message: msg, type, action });
     if (snackTimer.current) clearTimeout(snackTimer.current);
     snackTimer.current = setTimeout(() => setSnack(null), 5200) as unknown as NodeJS.Timeout;
   }, []);
 
-  // Function to fetch the shopping list from the API
+  const updateServerItems = useCallback((next: ListItem[]) => {
+    serverItemsRef.current = next;
+    setServerItems(next);
+  }, []);
+
+  const updateQueue = useCallback((next: QueuedMutation[]) => {
+    queueRef.current = next;
+    setQueue(next);
+    saveQueue(activeListRef.current, next);
+  }, []);
+
+  // Replays pending mutations (if any) and refreshes the server snapshot
+  const sync = useCallback(async () => {
+    const listId = activeListRef.current;
+    if (syncingList.current === listId) return;
+    syncingList.current = listId;
+    const snapshot = queueRef.current;
+    try {
+      const result = await syncList(listId, snapshot);
+      // The user switched lists meanwhile; the result is already stored for that list
+      if (activeListRef.current !== listId) return;
+      updateServerItems(result.server);
+      updateQueue(rebaseQueue(snapshot, result, queueRef.current));
+      setSelectedIds(prev => remapSelection(prev, result.idMap));
+      setIsOffline(result.offline);
+      if (result.conflicts.length > 0) {
+        const first = result.conflicts[0];
+        const more = result.conflicts.length > 1 ? ` (+${result.conflicts.length - 1} נוספים)` : '';
+        showSnack(`${first.itemName}: ${first.reason}${more}`, 'error');
+      } else if (result.applied > 0 && result.queue.length === 0) {
+        showSnack('השינויים סונכרנו בהצלחה.', 'success');
+      }
+    } finally {
+      if (syncingList.current === listId) syncingList.current = null;
+    }
+  }, [showSnack, updateServerItems, updateQueue]);
+
+  // Function to load the shopping list: cached copy first, then the server
   const load = useCallback(async (isInitialLoad = false) => {
     setError(null);
+    let hasCache = serverItemsRef.current.length > 0 || queueRef.current.length > 0;
     try {
-      const res = await fetch(listApi);
-      if (!res.ok) throw new Error(`שגיאת שרת: ${res.status}`);
-      const data = await res.json();
+      if (isInitialLoad) {
+        const cached = await loadSyncState(activeListRef.current);
+        updateServerItems(cached.server);
+        queueRef.current = cached.queue;
+        setQueue(cached.queue);
+        hasCache = cached.server.length > 0 || cached.queue.length > 0;
+        if (hasCache) {
+          const cachedItems = applyQueue(cached.server, cached.queue);
+          setCollapsedCategories(new Set(cachedItems.map(item => item.category || 'כללי')));
+          setIsLoading(false);
+        }
+      }
 
-      const itemsArray = Object.values(data).filter(
-        (item): item is ListItem => typeof item === 'object' && item !== null && 'id' in item
-      );
+      await sync();
 
       // --- CRITICAL FIX: Only collapse all categories on the very first initial load ---
-      if (isInitialLoad) {
+      if (isInitialLoad && !hasCache) {
+          const itemsArray = applyQueue(serverItemsRef.current, queueRef.current);
           const allCategories = new Set(itemsArray.map(item => item.category || 'כללי'));
           setCollapsedCategories(allCategories);
       }
       // ---------------------------------------------------------------------------------
-
-      setItems(itemsArray);
     } catch (e: any) {
-      setError("שגיאה בטעינת רשימת הקניות. נסה שוב.");
-      console.error(e);
+      if (e instanceof TransientSyncError && hasCache) {
+        // Keep working from the cached list until the connection returns
+        setIsOffline(true);
+      } else {
+        setError("שגיאה בטעינת רשימת הקניות. נסה שוב.");
+        console.error(e);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [sync, updateServerItems]);
+
+  // Records a mutation locally and tries to push it right away
+  const queueMutation = useCallback((mutation: ListMutation) => {
+    updateQueue(enqueue(queueRef.current, mutation, serverItemsRef.current));
+    sync().catch(() => setIsOffline(true));
+  }, [sync, updateQueue]);
 
   // Handler for pull-to-refresh
   const onRefresh = useCallback(async () => {
@@ -156,145 +426,317 @@ export default function ShoppingListPage() {
     }, 1600); // Changed from 7000 to 1600 for better UX
   }, [load]);
 
-  // Initial load effect
+  // Initial load effect, run again whenever another list is opened
   useEffect(() => {
+    if (!listReady) return;
     load(true); // Pass true to collapse all on initial load
-  }, [load]);
-
-  // API call to toggle an item's 'done' status
-  const toggleItemDone = useCallback(async (itemId: string, doneStatus: boolean) => {
-    const endpoint = doneStatus ? `${listApi}/done` : `${listApi}/undone`;
-    
-    // 1. Optimistic update (for immediate UI response)
-    setItems(prevItems => prevItems.map(item => 
-      item.id === itemId ? { ...item, done: doneStatus } : item
-    ));
+  }, [load, listReady, activeListId]);
 
-    try {
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ itemID: String(itemId) })
+  // Importing a receipt queues and syncs changes on this list from its own
+  // tab; take over what it left on the device whenever the list is shown
+  useFocusEffect(
+    useCallback(() => {
+      if (!listReady) return;
+      const listId = activeListRef.current;
+      loadSyncState(listId).then(cached => {
+        if (activeListRef.current !== listId || syncingList.current === listId) return;
+        updateServerItems(cached.server);
+        queueRef.current = cached.queue;
+        setQueue(cached.queue);
+        sync().catch(() => setIsOffline(true));
       });
-      if (response.ok) {
-        showSnack(`הפריט סומן כ${doneStatus ? 'בוצע' : 'לא בוצע'}`, 'success');
-      } else {
-        const result = await response.json();
-        throw new Error(result.error || response.statusText);
+    }, [listReady, sync, updateServerItems])
+  );
+
+  // ---------- Lists ----------
+  const openList = useCallback((listId: string) => {
+    if (listId === activeListRef.current) return;
+    activeListRef.current = listId;
+    serverItemsRef.current = [];
+    queueRef.current = [];
+    setServerItems([]);
+    setQueue([]);
+    setIsOffline(false);
+    setAllSuggestions([]);
+    setSelecting(false);
+    setSelectedIds(new Set());
+    setIsLoading(true);
+    setActiveListId(listId);
+    saveActiveListId(listId);
+  }, []);
+
+  // The last list the user had open, then the household's lists from the server
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [cached, saved] = await Promise.all([loadCachedLists(), loadActiveListId()]);
+      if (cancelled) return;
+      const listId = fallbackList(cached, saved);
+      activeListRef.current = listId;
+      setLists(cached);
+      setActiveListId(listId);
+      setListReady(true);
+      try {
+        const fresh = await fetchLists();
+        if (cancelled) return;
+        setLists(fresh);
+        const current = fallbackList(fresh, activeListRef.current);
+        if (current !== activeListRef.current) openList(current);
+      } catch {
+        // Offline - the cached lists are good enough until the next refresh
       }
-    } catch (error: any) {
-      // 2. Rollback update and show error (only if API fails)
-      setItems(prevItems => prevItems.map(item => 
-        item.id === itemId ? { ...item, done: !doneStatus } : item
-      ));
-      showSnack(`שגיאה בשינוי סטטוס: ${error.message}`, 'error');
+    })();
+    return () => { cancelled = true; };
+  }, [openList]);
+
+  const refreshLists = useCallback(async () => {
+    const fresh = await fetchLists();
+    setLists(fresh);
+    return fresh;
+  }, []);
+
+  const createList = useCallback(async (name: string) => {
+    const created = await api.lists.create(name);
+    await refreshLists();
+    openList(created.id);
+    setListsVisible(false);
+  }, [openList, refreshLists]);
+
+  const renameList = useCallback(async (listId: string, name: string) => {
+    await api.lists.rename(listId, name);
+    await refreshLists();
+  }, [refreshLists]);
+
+  const archiveList = useCallback(async (listId: string, archived: boolean) => {
+    await api.lists.setArchived(listId, archived);
+    const fresh = await refreshLists();
+    if (archived && listId === activeListRef.current) {
+      openList(fallbackList(fresh.filter(l => !l.archived), ''));
     }
-  }, [showSnack]);
+  }, [openList, refreshLists]);
 
-  // API call to delete an item
-  const deleteItem = useCallback(async (itemId: string) => {
-    
-    // 1. Optimistic update
-    const itemToDelete = items.find(i => i.id === itemId);
-    const prevItems = items;
-    setItems(prevItems.filter(item => item.id !== itemId));
+  const removeList = useCallback(async (listId: string) => {
+    await deleteList(listId);
+    const fresh = await refreshLists();
+    openList(fallbackList(fresh, activeListRef.current));
+  }, [openList, refreshLists]);
 
-    try {
-      const response = await fetch(`${listApi}/remove`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ itemID: String(itemId) })
-      });
-      if (response.ok) {
-      } else {
-        const result = await response.json();
-        throw new Error(result.error || response.statusText);
+  const activeList = lists.find(l => l.id === activeListId);
+
+  // Aisle orders come from the device first, then get merged with the server's
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [orders, store] = await Promise.all([loadAisleOrders(), loadActiveStore()]);
+      if (cancelled) return;
+      setAisleOrders(orders);
+      setActiveStore(store);
+      try {
+        const merged = await syncAisleOrders(orders);
+        if (!cancelled) setAisleOrders(merged);
+      } catch {
+        // Offline - the local orders are good enough until the next launch
       }
-    } catch (error: any) {
-      // 2. Rollback and show error
-      if(itemToDelete) setItems(prevItems => [...prevItems, itemToDelete]);
-      showSnack(`שגיאה בהסרת פריט: ${error.message}`, 'error');
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const selectStore = useCallback((store: Store | null) => {
+    setActiveStore(store);
+    saveActiveStore(store);
+  }, []);
+
+  const reorderAisles = useCallback(async (store: Store, categories: string[]) => {
+    setAisleOrders(await saveAisleOrder(aisleOrders, storeKey(store), categories));
+  }, [aisleOrders]);
+
+  // A trip started before the app was closed carries on
+  useEffect(() => {
+    loadActiveTrip().then(setTrip).catch(() => {});
+  }, []);
+
+  // The trip belongs to one list; other lists show as usual meanwhile
+  const inTrip = !!trip && trip.listId === activeListId;
+
+  useEffect(() => {
+    if (!inTrip || tripPrices) return;
+    let cancelled = false;
+    api.prices.get()
+      .then(prices => { if (!cancelled) setTripPrices(groupOffersByItemCode(prices)); })
+      .catch(() => { if (!cancelled) showSnack('לא ניתן לטעון מחירים, סכום העגלה לא יחושב.', 'error'); });
+    return () => { cancelled = true; };
+  }, [inTrip, tripPrices, showSnack]);
+
+  const cartLines = useMemo(
+    () => (trip && inTrip ? priceCart(cartItems(trip, items), tripPrices, trip.store) : []),
+    [trip, inTrip, items, tripPrices]
+  );
+
+  // Shopping there also walks the store's aisle route
+  const beginTrip = useCallback(async (store: Store) => {
+    setStartTripVisible(false);
+    selectStore(store);
+    setTrip(await startTrip(activeListId, store, items));
+  }, [activeListId, items, selectStore]);
+
+  const finishCurrentTrip = useCallback(async () => {
+    if (!trip) return;
+    const summary = await finishTrip(trip, { listName: activeList?.name ?? 'רשימת קניות', lines: cartLines, items });
+    setTrip(null);
+    setTripSummary(summary);
+  }, [activeList, cartLines, items, trip]);
+
+  // Live updates from other household devices, merged into the server snapshot
+  const handleListEvent = useCallback((event: ListEvent) => {
+    const next = applyListEvent(serverItemsRef.current, event);
+    updateServerItems(next);
+    saveServerSnapshot(activeListRef.current, next);
+  }, [updateServerItems]);
+
+  useEffect(() => {
+    if (!listReady) return;
+    return subscribeToList({
+      listId: activeListId,
+      onEvent: handleListEvent,
+      onStatus: setChannelStatus,
+      onPoll: () => { sync().catch(() => setIsOffline(true)); },
+    });
+  }, [handleListEvent, sync, listReady, activeListId]);
+
+  // Retry syncing when the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') sync().catch(() => setIsOffline(true));
+    });
+    return () => subscription.remove();
+  }, [sync]);
+
+  // Keep retrying in the background while changes are waiting to be sent
+  useEffect(() => {
+    if (queue.length === 0 && !isOffline) return;
+    const interval = setInterval(() => {
+      sync().catch(() => setIsOffline(true));
+    }, SYNC_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [queue.length, isOffline, sync]);
+
+  // Shows `message` with a "בטל" button that puts `before` back the way it was
+  // `alsoUndo` takes back whatever the change did outside this list
+  const offerUndo = useCallback((message: string, before: ListItem[], alsoUndo?: () => void) => {
+    if (before.length === 0) {
+      showSnack(message, 'success');
+      return;
     }
-  }, [items, showSnack]);
+    showSnack(message, 'success', {
+      label: 'בטל',
+      onPress: () => {
+        updateQueue(restoreItems(queueRef.current, serverItemsRef.current, before));
+        alsoUndo?.();
+        showSnack(before.length > 1 ? `${before.length} פריטים שוחזרו.` : `הפריט ${before[0].name} שוחזר.`, 'success');
+        sync().catch(() => setIsOffline(true));
+      },
+    });
+  }, [showSnack, sync, updateQueue]);
 
-  // API call to update an item's quantity
-  const updateItemQuantity = useCallback(async (itemId: string, quantity: number) => {
-    
-    // 1. Optimistic update
-    const prevQuantity = items.find(i => i.id === itemId)?.quantity;
-    setItems(prevItems => prevItems.map(item => 
-      item.id === itemId ? { ...item, quantity: quantity } : item
-    ));
+  // Toggle an item's 'done' status
+  const toggleItemDone = useCallback((itemId: string, doneStatus: boolean) => {
+    const before = items.filter(i => i.id === itemId);
+    queueMutation({ kind: 'done', itemId, done: doneStatus });
+    offerUndo(`הפריט סומן כ${doneStatus ? 'בוצע' : 'לא בוצע'}`, before);
+  }, [items, offerUndo, queueMutation]);
 
+  // Delete an item
+  const deleteItem = useCallback((itemId: string) => {
+    const before = items.filter(i => i.id === itemId);
+    queueMutation({ kind: 'remove', itemId });
+    offerUndo(`הפריט ${before[0]?.name ?? ''} נמחק.`, before);
+  }, [items, offerUndo, queueMutation]);
+
+  // Update an item's quantity. It goes out as the change from what is shown,
+  // so taps on other devices at the same time add up.
+  const updateItemQuantity = useCallback((itemId: string, quantity: number) => {
+    const before = items.filter(i => i.id === itemId);
+    if (before.length === 0 || before[0].quantity === quantity) return;
+    queueMutation({ kind: 'quantity', itemId, delta: quantity - before[0].quantity });
+    offerUndo(`כמות הפריט עודכנה ל-${quantity}.`, before);
+  }, [items, offerUndo, queueMutation]);
+  
+  // Moves the picked items to another list: added there, removed from this one
+  const moveItems = useCallback(async (targetId: string) => {
+    const moving = movingItems;
+    setMovingItems([]);
+    const target = lists.find(l => l.id === targetId);
+    let moved: MoveResult;
     try {
-      const response = await fetch(`${listApi}/quantity`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ itemID: String(itemId), quantity })
-      });
-      if (response.ok) {
-        showSnack(`כמות הפריט עודכנה ל-${quantity}.`, 'success');
-      } else {
-        const result = await response.json();
-        throw new Error(result.error || response.statusText);
-      }
-    } catch (error: any) {
-      // 2. Rollback and show error
-      if(prevQuantity !== undefined) setItems(prevItems => prevItems.map(item => 
-        item.id === itemId ? { ...item, quantity: prevQuantity! } : item
-      ));
-      showSnack(`שגיאה בעדכון כמות: ${error.message}`, 'error');
+      moved = await queueMoveTo(targetId, moving);
+    } catch {
+      showSnack('העברת הפריטים נכשלה. נסה שוב.', 'error');
+      return;
     }
-  }, [items, showSnack]);
-  
+    let next = queueRef.current;
+    for (const item of moving) next = enqueue(next, { kind: 'remove', itemId: item.id }, serverItemsRef.current);
+    updateQueue(next);
+    sync().catch(() => setIsOffline(true));
+    const targetName = target?.name ?? 'רשימה אחרת';
+    const mergedNote = moved.merged.length > 0 ? ` (${moved.merged.length} צורפו לפריטים שכבר היו שם)` : '';
+    // One undo brings the items back here and takes them off the target list
+    offerUndo(
+      moving.length === 1
+        ? `הפריט ${moving[0].name} הועבר אל ${targetName}.`
+        : `${moving.length} פריטים הועברו אל ${targetName}${mergedNote}.`,
+      moving,
+      () => { undoMoveTo(targetId, moved).then(refreshLists).catch(() => {}); }
+    );
+    refreshLists().catch(() => {});
+  }, [lists, movingItems, offerUndo, refreshLists, showSnack, sync, updateQueue]);
+
   // Add item handler
     const handleAddItem = async (isAddMore: boolean) => {
-    if (!addName.trim() || !addCategory.trim() || !addQuantity) return;
+    const quantity = parseQuantity(addQuantity);
+    if (!addName.trim() || !addCategory.trim() || quantity === null) return;
+    const name = addName.trim();
+    const category = addCategory.trim();
+
+    // Duplicates are rejected by the server anyway, catch them before queueing
+    const found = items.find(i => !i.done && i.name.trim() === name);
+    if (found) {
+      toggleCategory(found.category || 'כללי');
+      showSnack(`הפריט ${name} כבר קיים ברשימה.`, 'error');
+      return;
+    }
+
     if (!isAddMore){
       setAddLoading(true);
       setModalVisible(false);
       setShowAddAnim(true);
     }
-    
-    try {
-      const res = await fetch(`${listApi}/add`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ item: addName.trim(), quantity: Number(addQuantity), category: addCategory.trim(), method: 'manual' })
-      });
-      const result = await res.json();
-      if (!res.ok) throw new Error(result.error || 'שגיאה בהוספה');
-      
-      // Since item ID is assigned by server, we MUST reload the entire list 
-      // to ensure the new item is present and sorted correctly.
-      await load(); 
-      
-      setTimeout(() => {
-        showSnack(`הפריט ${addName.trim()} נוסף בהצלחה.`, 'success');
-        setShowAddAnim(false);
+
+    queueMutation({
+      kind: 'add',
+      itemId: createLocalId(),
+      name,
+      quantity,
+      category,
+      barcode: exactProduct(name, products)?.barcode,
+    });
+    // Only a category the user chose over the suggestion (or without one) is
+    // learned; learning accepted suggestions would just reinforce them
+    if (category !== categoryRanking[0]?.category) {
+      learnCategory(learnedCategories, name, category).then(setLearnedCategories);
+    }
+    recordItemUsage(itemUsage, [name]).then(setItemUsage);
+
+    setTimeout(() => {
+      showSnack(`הפריט ${name} נוסף בהצלחה.`, 'success');
+      setShowAddAnim(false);
+      setAddLoading(false);
+      if (!isAddMore) {
         setAddName('');
         setAddQuantity('1');
         setAddCategory('');
-      }, 1500);
-
-    } catch (e: any) {
-      setTimeout(() => {
-        setShowAddAnim(false);
-        // Try to find the item by name (could be a false positive if duplicate check is complex)
-        const found = items.find(i => i.name.trim() === addName.trim());
-        if (found) {
-          // If a duplicate item is found, open its category for visibility.
-          toggleCategory(found.category || 'כללי');
-        } else {
-          // If no item found, re-open modal to allow correction
-          setModalVisible(true);
-        }
-        setAddLoading(false);
-        showSnack(e.message, 'error');
-      }, 1500);
-    } finally {
-      setAddLoading(false);
-    }
+        setCategoryTouched(false);
+      }
+    }, isAddMore ? 0 : 1500);
   };
 
   // Memoized calculation to group items by category
@@ -308,7 +750,8 @@ export default function ShoppingListPage() {
       return acc;
     }, {} as Record<string, ListItem[]>);
 
-    return Object.keys(grouped)
+    const order = activeStore ? aisleOrders[storeKey(activeStore)]?.categories : undefined;
+    return sortCategories(Object.keys(grouped), order)
       .map(category => {
         // Separate not-done and done items
         const notDone = grouped[category].filter(i => !i.done);
@@ -319,50 +762,274 @@ export default function ShoppingListPage() {
           data: [...notDone.sort((a,b) => a.name.localeCompare(b.name)), ...done.sort((a,b) => a.name.localeCompare(b.name))],
           notDoneCount: notDone.length
         };
-      })
-      // Sort sections by title
-      .sort((a, b) => a.title.localeCompare(b.title));
+      });
+  }, [items, activeStore, aisleOrders]);
+
+  // In the store bought items go to the cart tray instead of the list
+  const tripSections = useMemo(
+    () =>
+      categorizedItems
+        .map(section => ({ ...section, data: section.data.filter(i => !i.done) }))
+        .filter(section => section.data.length > 0),
+    [categorizedItems]
+  );
+
+  // The filter lives in the route params so a filtered list can be linked to
+  const { q, status, categories } = useLocalSearchParams<FilterParams>();
+  const filter = useMemo(() => filterFromParams({ q, status, categories }), [q, status, categories]);
+  const filtering = isFiltering(filter);
+  const setFilter = useCallback((next: ListFilter) => router.setParams(filterToParams(next)), [router]);
+
+  const unfilteredSections = inTrip ? tripSections : categorizedItems;
+  const visibleSections = useMemo(() => filterSections(unfilteredSections, filter), [unfilteredSections, filter]);
+  const countItems = (sections: { data: ListItem[] }[]) => sections.reduce((sum, section) => sum + section.data.length, 0);
+
+  // Categories with matches open up while filtering, whatever was collapsed
+  const isCollapsed = (title: string) => !filtering && collapsedCategories.has(title);
+
+  // Queues many changes at once so they reach the server as one batch, with a
+  // single undo for all of them
+  const runBulk = useCallback((mutations: ListMutation[], message: string, before: ListItem[], alsoUndo?: () => void) => {
+    let next = queueRef.current;
+    for (const mutation of mutations) {
+      next = enqueue(next, mutation, serverItemsRef.current);
+    }
+    updateQueue(next);
+    offerUndo(message, before, alsoUndo);
+    return sync().catch(() => setIsOffline(true));
+  }, [offerUndo, sync, updateQueue]);
+
+  // ---------- Selection ----------
+  const startSelecting = useCallback((itemId: string) => {
+    setSelecting(true);
+    setSelectedIds(new Set([itemId]));
+  }, []);
+
+  const toggleSelected = useCallback((itemId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  }, []);
+
+  const stopSelecting = useCallback(() => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+    setBulkEdit(null);
+  }, []);
+
+  // Only what the filter shows; hidden items are never picked up by accident
+  const visibleIds = useMemo(() => visibleSections.flatMap(section => section.data.map(i => i.id)), [visibleSections]);
+  const allSelected = visibleIds.length > 0 && visibleIds.every(id => selectedIds.has(id));
+
+  // One action over every selected item, sent as one batch with one undo
+  const applyBulk = useCallback((action: BulkAction) => {
+    const mutations = bulkMutations(selectedItems, action);
+    const n = selectedItems.length;
+    stopSelecting();
+    if (mutations.length === 0) return;
+    const message =
+      action.kind === 'done' ? (action.done ? `${n} פריטים סומנו כנקנו.` : `${n} פריטים סומנו כלא נקנו.`)
+      : action.kind === 'remove' ? `${n} פריטים נמחקו.`
+      : action.kind === 'category' ? `${n} פריטים הועברו לקטגוריה "${action.category}".`
+      : `הכמות של ${n} פריטים עודכנה ל-${action.quantity}.`;
+    runBulk(mutations, message, selectedItems);
+  }, [runBulk, selectedItems, stopSelecting]);
+
+  const moveSelected = useCallback(() => {
+    setMovingItems(selectedItems);
+    stopSelecting();
+  }, [selectedItems, stopSelecting]);
+
+  const showProductStats = useCallback((barcode: string) => {
+    setEditingItem(null);
+    router.push({ pathname: '/product-stats', params: { barcode } });
+  }, [router]);
+
+  const editItem = useCallback((itemId: string) => {
+    setEditingItem(items.find(i => i.id === itemId) ?? null);
   }, [items]);
 
+  // Saves the item editor: the edited fields and the quantity go out together
+  // and undo as one
+  const saveItemEdit = useCallback((item: ListItem, changes: ItemChanges, quantity: number) => {
+    const name = changes.name;
+    if (name && items.some(i => i.id !== item.id && !i.done && i.name.trim() === name)) {
+      showSnack(`הפריט ${name} כבר קיים ברשימה.`, 'error');
+      return;
+    }
+    setEditingItem(null);
+    const mutations: ListMutation[] = [];
+    if (Object.keys(changes).length > 0) mutations.push({ kind: 'edit', itemId: item.id, changes });
+    if (quantity !== item.quantity) mutations.push({ kind: 'quantity', itemId: item.id, delta: quantity - item.quantity });
+    if (mutations.length === 0) return;
+    runBulk(mutations, `הפריט ${name ?? item.name} עודכן.`, [item]);
+    if (changes.category) {
+      learnCategory(learnedCategories, name ?? item.name, changes.category).then(setLearnedCategories);
+    }
+  }, [items, learnedCategories, runBulk, showSnack]);
+
+  // Quick-add: one line ("2 ק״ג עגבניות", "bread x2") or a pasted list, each
+  // item filed under the category it had before
+  const quickEntries = useMemo(
+    () =>
+      parseQuickAddList(quickText).map(entry => ({
+        ...entry,
+        category: suggestCategories(entry.name, categoryModel, 1)[0]?.category || 'כללי',
+      })),
+    [quickText, categoryModel]
+  );
+
+  const handleQuickAdd = useCallback(() => {
+    const onList = new Set(items.filter(i => !i.done).map(i => i.name.trim()));
+    const fresh = quickEntries.filter(entry => !onList.has(entry.name));
+    const skipped = quickEntries.length - fresh.length;
+    if (fresh.length === 0) {
+      showSnack(skipped > 1 ? 'כל הפריטים כבר קיימים ברשימה.' : `הפריט ${quickEntries[0]?.name ?? ''} כבר קיים ברשימה.`, 'error');
+      return;
+    }
+    const message = fresh.length === 1 ? `הפריט ${fresh[0].name} נוסף בהצלחה.` : `${fresh.length} פריטים נוספו לרשימה.`;
+    runBulk(
+      fresh.map(entry => ({
+        kind: 'add',
+        itemId: createLocalId(),
+        name: entry.name,
+        quantity: entry.quantity,
+        unit: entry.unit,
+        category: entry.category,
+        barcode: exactProduct(entry.name, products)?.barcode,
+      })),
+      skipped > 0 ? `${message} (${skipped} כבר ברשימה)` : message,
+      []
+    );
+    recordItemUsage(itemUsage, fresh.map(entry => entry.name)).then(setItemUsage);
+    setQuickText('');
+    setModalVisible(false);
+  }, [items, itemUsage, products, quickEntries, runBulk, showSnack]);
+
+  const dueStaples = useMemo(
+    () =>
+      findRunningOut(stapleHistories, {
+        thresholds: stapleThresholds,
+        snoozes: stapleSnoozes,
+        onList: items.filter(i => !i.done),
+      }),
+    [stapleHistories, stapleThresholds, stapleSnoozes, items]
+  );
+
+  // Adds staples in the amount usually bought, filed where they were before
+  const addStaples = useCallback((staples: DueStaple[]) => {
+    runBulk(
+      staples.map(staple => ({
+        kind: 'add',
+        itemId: createLocalId(),
+        name: staple.name,
+        quantity: staple.lastQuantity,
+        barcode: staple.barcode,
+        category: suggestCategories(staple.name, categoryModel, 1)[0]?.category || 'כללי',
+      })),
+      staples.length === 1 ? `הפריט ${staples[0].name} נוסף בהצלחה.` : `${staples.length} פריטים נוספו לרשימה.`,
+      []
+    );
+    recordItemUsage(itemUsage, staples.map(staple => staple.name)).then(setItemUsage);
+    if (staples.length === dueStaples.length) setStaplesVisible(false);
+  }, [categoryModel, dueStaples.length, itemUsage, runBulk]);
+
+  const snoozeDueStaple = useCallback(async (staple: DueStaple) => {
+    setStapleSnoozes(await snoozeStaple(stapleSnoozes, staple.barcode, stapleThresholds.snoozeDays));
+    if (dueStaples.length === 1) setStaplesVisible(false);
+  }, [dueStaples.length, stapleSnoozes, stapleThresholds.snoozeDays]);
+
+  // Imports a pasted list: new items are added under the heading they came
+  // with (or the category we'd guess), ones already on the list add up
+  const importSharedList = useCallback((entries: SharedEntry[]) => {
+    const { adds, bumps } = planImport(entries, items);
+    runBulk(
+      [
+        ...adds.map(entry => ({
+          kind: 'add' as const,
+          itemId: createLocalId(),
+          name: entry.name,
+          quantity: entry.quantity,
+          unit: entry.unit,
+          category: entry.category || suggestCategories(entry.name, categoryModel, 1)[0]?.category || 'כללי',
+        })),
+        ...bumps.map(bump => ({ kind: 'quantity' as const, itemId: bump.item.id, delta: bump.quantity - bump.item.quantity })),
+      ],
+      bumps.length > 0
+        ? `${adds.length} פריטים נוספו, ${bumps.length} עודכנו בכמות.`
+        : `${adds.length} פריטים נוספו לרשימה.`,
+      []
+    );
+    recordItemUsage(itemUsage, adds.map(entry => entry.name)).then(setItemUsage);
+    setShareVisible(false);
+  }, [categoryModel, itemUsage, items, runBulk]);
+
+  // The trip history sends a past trip's items back here to be added again.
+  // They go in like an import, once the list has loaded so they can merge.
+  const { readdTrip, readdItems } = useLocalSearchParams<{ readdTrip?: string; readdItems?: string }>();
+  const readdHandled = useRef<string | null>(null);
+  useEffect(() => {
+    if (!readdTrip) {
+      readdHandled.current = null;
+      return;
+    }
+    const key = `${readdTrip}:${readdItems ?? ''}`;
+    if (!listReady || isLoading || readdHandled.current === key) return;
+    readdHandled.current = key;
+    router.setParams({ readdTrip: undefined, readdItems: undefined });
+    loadTripHistory().then(history => {
+      const trip = history.find(t => t.id === readdTrip);
+      if (!trip) return;
+      const wanted = readdItems ? new Set(readdItems.split(',')) : null;
+      const lines = trip.lines.filter(line => !wanted || wanted.has(line.itemId));
+      if (lines.length > 0) importSharedList(tripEntries(lines));
+    });
+  }, [readdTrip, readdItems, listReady, isLoading, importSharedList, router]);
+
   // Handler to delete all items in a category
-  const deleteAllInCategory = useCallback(async (categoryTitle: string) => {
+  const deleteAllInCategory = useCallback((categoryTitle: string) => {
+    const itemsInCategory = items.filter(item => (item.category || 'כללי') === categoryTitle);
     setDeletingCategories(prev => new Set(prev).add(categoryTitle));
-    
-    // 1. Optimistic UI update: Remove the whole category immediately
-    const prevItems = items;
-    setItems(prevItems.filter(item => (item.category || 'כללי') !== categoryTitle));
-
-    const itemsInCategory = prevItems.filter(item => (item.category || 'כללי') === categoryTitle);
-    
-    try {
-      for (const item of itemsInCategory) {
-        // Use a simple, non-optimistic delete request inside the loop
-        const response = await fetch(`${listApi}/remove`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ itemID: String(item.id) })
-        });
-        if (!response.ok) {
-           // On first failure, throw error to stop loop and rollback
-           throw new Error(`Failed to delete item ${item.name}`);
-        }
-        // Small delay between deletions for better UX
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
-      showSnack(`הקטגוריה "${categoryTitle}" נמחקה בהצלחה.`, 'success');
-    } catch (e) {
-      // 2. Rollback UI on failure
-      setItems(prevItems); // Restore previous list state
-      showSnack(`שגיאה במחיקת קטגוריה: הקטגוריה לא נמחקה במלואה.`, 'error');
-    } finally {
+    runBulk(
+      itemsInCategory.map(item => ({ kind: 'remove', itemId: item.id })),
+      `הקטגוריה "${categoryTitle}" נמחקה.`,
+      itemsInCategory
+    ).finally(() => {
       setDeletingCategories(prev => {
         const newSet = new Set(prev);
         newSet.delete(categoryTitle);
         return newSet;
       });
-    }
+    });
+  }, [items, runBulk]);
 
-  }, [items, showSnack]);
+  // Marks every open item of a category as done
+  const markCategoryDone = useCallback((categoryTitle: string) => {
+    const open = items.filter(item => !item.done && (item.category || 'כללי') === categoryTitle);
+    runBulk(
+      open.map(item => ({ kind: 'done', itemId: item.id, done: true })),
+      `${open.length} פריטים ב"${categoryTitle}" סומנו כבוצעו.`,
+      open
+    );
+  }, [items, runBulk]);
+
+  // Removes every item that was already bought, keeping them in the trip
+  // history first
+  const clearDoneItems = useCallback(() => {
+    const done = items.filter(item => item.done);
+    const archived = archiveCleared({ listId: activeListId, listName: activeList?.name ?? 'רשימת קניות', items: done, store: null })
+      .catch(() => null);
+    runBulk(
+      done.map(item => ({ kind: 'remove', itemId: item.id })),
+      `${done.length} פריטים שנקנו נמחקו מהרשימה.`,
+      done,
+      // The items come back, so the trip they were filed as goes away
+      () => { archived.then(trip => trip && forgetTrip(trip.id)).catch(() => {}); }
+    );
+  }, [activeList?.name, activeListId, items, runBulk]);
 
   // Handler to toggle category visibility
   const toggleCategory = useCallback((categoryTitle: string) => {
@@ -396,8 +1063,9 @@ export default function ShoppingListPage() {
 
   const ListHeader = ({ totalItems, snack }: { totalItems: number, snack: SnackMessage | null }) => (
     <View style={styles.header}>
-      <View style={styles.titleContainer}>
-        <Text style={styles.title}>רשימת קניות</Text>
+      <Pressable style={styles.titleContainer} onPress={() => setListsVisible(true)} hitSlop={8}>
+        <Text style={styles.title} numberOfLines={1}>{activeList?.name ?? 'רשימת קניות'}</Text>
+        <Ionicons name="chevron-down" size={22} color="#506c4fff" />
         {!Platform.select({ web: true, default: false }) && (
           <LottieView
             source={require('../../assets/cart-navbar-animation.json')}
@@ -405,38 +1073,121 @@ export default function ShoppingListPage() {
             style={{ width: 32, height: 32 }}
           />
         )}
-      </View>
+      </Pressable>
       {/* Toggle all button */}
       
+      <View style={styles.liveIndicator}>
+        <View style={[styles.liveDot, channelStatus === 'live' ? styles.liveDotOn : channelStatus === 'polling' ? styles.liveDotPolling : styles.liveDotOff]} />
+        <Text style={styles.liveText}>
+          {channelStatus === 'live' ? 'מתעדכן בזמן אמת' : channelStatus === 'polling' ? 'מתעדכן כל כמה שניות' : 'מתחבר…'}
+        </Text>
+      </View>
       {totalItems > 0 && (
         <Text style={styles.totalItemsText}>
           סה"כ {totalItems} פריטים ברשימה
         </Text>
       )}
-      <Pressable style={styles.toggleAllBtn} onPress={toggleAllCategories}>
-        <Text style={styles.toggleAllText}>
-          {collapsedCategories.size > 0 ? 'פתח הכל' : 'סגור הכל'}
-        </Text>
-      </Pressable>
+      {(isOffline || queue.length > 0) && (
+        <View style={styles.syncBanner}>
+          <Ionicons name={isOffline ? "cloud-offline-outline" : "sync-outline"} size={16} color="#92400e" />
+          <Text style={styles.syncBannerText}>
+            {isOffline ? 'אין חיבור - השינויים נשמרים במכשיר' : 'מסנכרן שינויים…'}
+            {queue.length > 0 ? ` (${queue.length} ממתינים)` : ''}
+          </Text>
+        </View>
+      )}
+      {dueStaples.length > 0 && (
+        <Pressable style={styles.staplesBanner} onPress={() => setStaplesVisible(true)}>
+          <Ionicons name="repeat-outline" size={16} color="#506c4fff" />
+          <Text style={styles.staplesBannerText} numberOfLines={1}>
+            כנראה נגמר בקרוב: {dueStaples.slice(0, 3).map(s => s.name).join(', ')}
+            {dueStaples.length > 3 ? ` ועוד ${dueStaples.length - 3}` : ''}
+          </Text>
+        </Pressable>
+      )}
+      {/* While shopping the list only needs the trip, not the management tools */}
+      {inTrip && trip ? (
+        <View style={styles.tripBar}>
+          <Ionicons name="cart" size={20} color="#fff" />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.tripBarTitle} numberOfLines={1}>
+              קונים ב{translateSupermarket(trip.store.brandName)} - {trip.store.StoreName}
+            </Text>
+            <Text style={styles.tripBarText}>
+              <TripTimer startedAt={trip.startedAt} /> · {cartLines.length} בעגלה · {nis.format(cartTotal(cartLines))}
+            </Text>
+          </View>
+          <Pressable style={styles.tripEndBtn} onPress={() => setEndTripVisible(true)}>
+            <Text style={styles.tripEndBtnText}>סיים</Text>
+          </Pressable>
+        </View>
+      ) : (
+      <View style={styles.headerActions}>
+        {totalItems > 0 && !trip && (
+          <Pressable style={styles.toggleAllBtn} onPress={() => setStartTripVisible(true)}>
+            <Text style={styles.toggleAllText}>מצב קנייה</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.toggleAllBtn} onPress={toggleAllCategories}>
+          <Text style={styles.toggleAllText}>
+            {collapsedCategories.size > 0 ? 'פתח הכל' : 'סגור הכל'}
+          </Text>
+        </Pressable>
+        {totalItems > 0 && (
+          <Pressable style={styles.toggleAllBtn} onPress={() => setBasketVisible(true)}>
+            <Text style={styles.toggleAllText}>כמה זה יעלה?</Text>
+          </Pressable>
+        )}
+        {items.some(i => i.done) && (
+          <Pressable style={styles.toggleAllBtn} onPress={clearDoneItems}>
+            <Text style={styles.toggleAllText}>נקה שנקנו</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.toggleAllBtn} onPress={() => setShareVisible(true)}>
+          <Text style={styles.toggleAllText}>שתף / ייבא</Text>
+        </Pressable>
+        <Pressable style={styles.toggleAllBtn} onPress={() => router.push('/trip-history')}>
+          <Text style={styles.toggleAllText}>היסטוריה</Text>
+        </Pressable>
+        <Pressable style={styles.toggleAllBtn} onPress={() => setAisleVisible(true)}>
+          <Text style={styles.toggleAllText} numberOfLines={1}>
+            {activeStore ? `מסלול: ${activeStore.StoreName}` : 'סדר מעברים'}
+          </Text>
+        </Pressable>
+      </View>
+      )}
       
       {/* NEW MESSAGE SNACKBAR LOCATION IN HEADER */}
       {snack && (
-        <View style={[styles.headerMessage, snack.type === 'error' ? styles.snackErrorBg : styles.snackSuccessBg]}>
-          <Text style={styles.snackText}>{snack.message}</Text>
+        <View style={[styles.headerMessage, snack.action && styles.headerMessageWithAction, snack.type === 'error' ? styles.snackErrorBg : styles.snackSuccessBg]}>
+          <Text style={[styles.snackText, snack.action && styles.snackTextWithAction]}>{snack.message}</Text>
+          {snack.action && (
+            <Pressable onPress={snack.action.onPress} hitSlop={8} style={styles.snackAction}>
+              <Text style={styles.snackActionText}>{snack.action.label}</Text>
+            </Pressable>
+          )}
         </View>
       )}
     </View>
   );
 
-  // Suggestion logic for name
+  // Every name we could suggest, with how often and when it was bought
+  const suggestionCandidates = useMemo(
+    () =>
+      mergeCandidates({
+        names: [...allSuggestions, ...items.map(i => i.name)],
+        usage: itemUsage,
+        purchases: purchases ?? [],
+        products,
+      }),
+    [allSuggestions, items, itemUsage, purchases, products]
+  );
+
+  // Suggestion logic for name: fuzzy matches ranked by purchase frequency and recency
   useEffect(() => {
-    if (!addName) setSuggestions([]);
-    else setSuggestions(
-      allSuggestions
-        .filter(s => s && s.includes(addName) && s !== addName)
-        .slice(0, 5)
-    );
-  }, [addName, allSuggestions]);
+    if (!addName.trim()) setSuggestions([]);
+    else setSuggestions(rankSuggestions(addName, suggestionCandidates));
+  }, [addName, suggestionCandidates]);
 
   // Suggestion logic for category
   useEffect(() => {
@@ -463,6 +1214,21 @@ export default function ShoppingListPage() {
     }
   }, [isRefreshing]);
 
+  // Reachable from every state, so a list that fails to load can be switched away from
+  const listsModal = (
+    <ListsModal
+      visible={listsVisible}
+      lists={lists}
+      activeListId={activeListId}
+      onSelect={openList}
+      onCreate={createList}
+      onRename={renameList}
+      onArchive={archiveList}
+      onDelete={removeList}
+      onClose={() => setListsVisible(false)}
+    />
+  );
+
   if (isLoading || (isRefreshing && showRefreshLottie)) {
     return (
       <SafeAreaView style={styles.screen}>
@@ -476,6 +1242,7 @@ export default function ShoppingListPage() {
           />
           <Text style={styles.loadingText}>טוען רשימת קניות…</Text>
         </View>
+        {listsModal}
       </SafeAreaView>
     );
   }
@@ -492,65 +1259,93 @@ export default function ShoppingListPage() {
             <Text style={styles.retryBtnText}>רענן</Text>
           </Pressable>
         </View>
+        {listsModal}
       </SafeAreaView>
     );
   }
 
-  if (items.length === 0 && !isLoading) {
-    return (
-      <SafeAreaView style={styles.screen}>
-        <ListHeader totalItems={0} snack={snack} />
+  return (
+    <SafeAreaView style={styles.screen}>
+      <ListHeader totalItems={items.length} snack={snack} />
+      {items.length > 0 && (
+        <ListFilterBar
+          filter={filter}
+          categories={categorizedItems.map(s => s.title)}
+          shown={countItems(visibleSections)}
+          total={countItems(unfilteredSections)}
+          onChange={setFilter}
+        />
+      )}
+      {/* An empty list still gets the add button, e.g. a list that was just created */}
+      {items.length === 0 ? (
         <View style={styles.center}>
           <Ionicons name="cart-outline" size={40} color="#506c4fff" />
           <Text style={styles.emptyTitle}>רשימת הקניות שלך ריקה!</Text>
           <Text style={styles.emptySub}>פריטים שיתווספו יופיעו כאן.</Text>
         </View>
-      </SafeAreaView>
-    );
-  }
-
-  return (
-    <SafeAreaView style={styles.screen}>
-      <ListHeader totalItems={items.length} snack={snack} />
+      ) : visibleSections.length === 0 && filtering ? (
+        <View style={styles.center}>
+          <Ionicons name="search-outline" size={40} color="#506c4fff" />
+          <Text style={styles.emptyTitle}>לא נמצאו פריטים</Text>
+          <Text style={styles.emptySub}>נסו חיפוש אחר או נקו את הסינון.</Text>
+        </View>
+      ) : (
         <SectionList
           contentContainerStyle={styles.listContent}
-          sections={categorizedItems}
+          sections={visibleSections}
           keyExtractor={(item) => item.id}
           renderSectionHeader={({ section: { title, data, notDoneCount } }) => (
             <View>
               <Pressable onPress={() => toggleCategory(title)} style={styles.sectionHeader}>
                 <View style={{ flexDirection: 'row-reverse', alignItems: 'center', gap: 8 }}>
-                  <Ionicons name={collapsedCategories.has(title) ? "chevron-down-outline" : "chevron-up-outline"} size={24} color="#333" />
+                  <Ionicons name={isCollapsed(title) ? "chevron-down-outline" : "chevron-up-outline"} size={24} color="#333" />
                   <Text style={styles.sectionTitle}>{title}</Text>
                 </View>
                 <Text style={styles.sectionItemCount}>{notDoneCount} פריטים</Text>
               </Pressable>
-              {/* Delete all button - only show when category is open */}
-              {!collapsedCategories.has(title) && notDoneCount > 0 && (
-                <Pressable 
-                  style={styles.deleteAllBtn}
-                  onPress={() => deleteAllInCategory(title)}
-                  disabled={deletingCategories.has(title)}
-                >
-                  <Ionicons name="trash-outline" size={16} color="#000" />
-                  <Text style={styles.deleteAllBtnText}>
-                    {deletingCategories.has(title) ? 'מוחק...' : 'מחק הכל'}
-                  </Text>
-                </Pressable>
+              {/* Category actions - only show when category is open */}
+              {!isCollapsed(title) && notDoneCount > 0 && (
+                <View style={styles.categoryActions}>
+                  {!inTrip && (
+                    <Pressable 
+                      style={styles.deleteAllBtn}
+                      onPress={() => deleteAllInCategory(title)}
+                      disabled={deletingCategories.has(title)}
+                    >
+                      <Ionicons name="trash-outline" size={16} color="#000" />
+                      <Text style={styles.deleteAllBtnText}>
+                        {deletingCategories.has(title) ? 'מוחק...' : 'מחק הכל'}
+                      </Text>
+                    </Pressable>
+                  )}
+                  <Pressable style={styles.deleteAllBtn} onPress={() => markCategoryDone(title)}>
+                    <Ionicons name="checkmark-done-outline" size={16} color="#000" />
+                    <Text style={styles.deleteAllBtnText}>סמן הכל</Text>
+                  </Pressable>
+                </View>
               )}
             </View>
           )}
           renderItem={({ item, section, index }) => {
-            const isVisible = !collapsedCategories.has(section.title);
+            const isVisible = !isCollapsed(section.title);
             return (
               <AnimatedListItemRow
                 // Key no longer needs to change based on visibility, 
                 // as state changes won't trigger full reload.
                 key={item.id} 
                 item={item}
+                pending={pendingIds.has(item.id)}
+                forgotten={!item.done && forgottenIds.has(item.id)}
                 onToggleDone={toggleItemDone}
                 onDelete={deleteItem}
                 onUpdateQuantity={updateItemQuantity}
+                selecting={selecting}
+                selected={selectedIds.has(item.id)}
+                onSelect={selecting ? toggleSelected : startSelecting}
+                onEdit={editItem}
+                product={item.barcode ? products[item.barcode] : undefined}
+                onShowStats={showProductStats}
+                highlight={filter.query}
                 index={index}
                 visible={isVisible} // Visibility is managed via state and prop
               />
@@ -560,14 +1355,34 @@ export default function ShoppingListPage() {
             <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} tintColor="transparent" />
           }
         />
+      )}
+      {selecting ? (
+        <SelectionBar
+          count={selectedItems.length}
+          allSelected={allSelected}
+          onSelectAll={() => setSelectedIds(new Set([...selectedIds, ...visibleIds]))}
+          onClearAll={() => setSelectedIds(new Set())}
+          onClose={stopSelecting}
+          onDone={() => applyBulk({ kind: 'done', done: true })}
+          onUndone={() => applyBulk({ kind: 'done', done: false })}
+          onCategory={() => setBulkEdit('category')}
+          onQuantity={() => setBulkEdit('quantity')}
+          onMove={lists.length > 1 ? moveSelected : undefined}
+          onDelete={() => applyBulk({ kind: 'remove' })}
+        />
+      ) : inTrip && (
+        <CartTray lines={cartLines} total={cartTotal(cartLines)} onUncheck={itemId => toggleItemDone(itemId, false)} />
+      )}
       {/* FAB */}
-      <TouchableOpacity
-        style={styles.fab}
-        onPress={() => setModalVisible(true)}
-        activeOpacity={0.8}
-      >
-        <LottieView source={require('../../assets/cart-add.json')} autoPlay={!Platform.select({ web: true, default: false })} loop={!Platform.select({ web: true, default: false })} style={Platform.select({ web: { width: 48, height: 48 }, default: { width: '100%', height: '100%' } })} />
-      </TouchableOpacity>
+      {!selecting && (
+        <TouchableOpacity
+          style={[styles.fab, inTrip && styles.fabAboveTray]}
+          onPress={() => setModalVisible(true)}
+          activeOpacity={0.8}
+        >
+          <LottieView source={require('../../assets/cart-add.json')} autoPlay={!Platform.select({ web: true, default: false })} loop={!Platform.select({ web: true, default: false })} style={Platform.select({ web: { width: 48, height: 48 }, default: { width: '100%', height: '100%' } })} />
+        </TouchableOpacity>
+      )}
       {/* Modal */} 
       <Modal
         isVisible={modalVisible}
@@ -592,6 +1407,37 @@ export default function ShoppingListPage() {
               <Text style={styles.snackText}>{snack.message}</Text>
             </View>
           )}
+          {/* Quick-add: free text instead of the fields below */}
+          <TextInput
+            style={[styles.input, styles.quickAddInput]}
+            placeholder='הוספה מהירה, למשל "2 ק״ג עגבניות" או רשימה שלמה'
+            value={quickText}
+            onChangeText={setQuickText}
+            multiline
+            blurOnSubmit
+            returnKeyType="done"
+            onSubmitEditing={() => { if (quickEntries.length > 0) handleQuickAdd(); }}
+          />
+          {quickEntries.length > 0 && (
+            <>
+              <ScrollView style={styles.quickPreview} keyboardShouldPersistTaps="handled">
+                {quickEntries.map(entry => (
+                  <View key={`${entry.name}|${entry.unit ?? ''}`} style={styles.quickPreviewRow}>
+                    <Text style={styles.quickPreviewName} numberOfLines={1}>{entry.name}</Text>
+                    <Text style={styles.quickPreviewMeta}>
+                      {entry.quantity}{entry.unit ? ` ${entry.unit}` : ''} · {entry.category}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+              <TouchableOpacity style={styles.addButton} onPress={handleQuickAdd}>
+                <Text style={styles.addButtonText}>
+                  {quickEntries.length === 1 ? 'תעמיס לי !' : `הוסף ${quickEntries.length} פריטים`}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+          {quickEntries.length === 0 && (<>
                     <View style={{ zIndex: 10 }}>
             <TextInput
               ref={nameInputRef}
@@ -608,16 +1454,24 @@ export default function ShoppingListPage() {
               onBlur={() => setTimeout(() => setShowNameSuggestions(false), 120)}
             />
             {modalVisible && suggestions.length > 0 && showNameSuggestions && (
-              <View style={[styles.suggestionList, styles.suggestionListEnhanced]}> 
-                <ScrollView keyboardShouldPersistTaps="handled" style={{ maxHeight: 140 }}>
-                  {suggestions.map(s => (
-                    <TouchableOpacity key={s} onPress={() => {
-                      setAddName(s);
-                      setShowNameSuggestions(false);
-                    }} style={styles.suggestionItem}>
-                      <Text style={styles.suggestionText} numberOfLines={1} ellipsizeMode="tail">{s}</Text>
-                    </TouchableOpacity>
-                  ))}
+              <View style={[styles.suggestionList, styles.suggestionListEnhanced, styles.suggestionListRanked]}> 
+                <ScrollView keyboardShouldPersistTaps="handled" style={{ maxHeight: 210 }}>
+                  {suggestions.map(s => {
+                    const category = suggestCategories(s.name, categoryModel, 1)[0]?.category;
+                    return (
+                      <TouchableOpacity key={s.name} onPress={() => {
+                        setAddName(s.name);
+                        setShowNameSuggestions(false);
+                      }} style={styles.suggestionItem}>
+                        <Text style={styles.suggestionText} numberOfLines={1} ellipsizeMode="tail">{s.name}</Text>
+                        {(category || s.lastPrice !== undefined) && (
+                          <Text style={styles.suggestionMeta} numberOfLines={1}>
+                            {[category, s.lastPrice !== undefined ? `${s.lastPrice.toFixed(2)} ₪` : null].filter(Boolean).join(' · ')}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
                 </ScrollView>
               </View>
             )}
@@ -646,6 +1500,7 @@ export default function ShoppingListPage() {
               value={addCategory}
               onChangeText={text => {
                 setAddCategory(text);
+                setCategoryTouched(text.length > 0);
                 setShowCategorySuggestions(true);
               }}
               returnKeyType="done"
@@ -658,6 +1513,7 @@ export default function ShoppingListPage() {
                   {categorySuggestions.map(c => (
                     <TouchableOpacity key={c} onPress={() => {
                       setAddCategory(c);
+                      setCategoryTouched(true);
                       setShowCategorySuggestions(false);
                     }} style={styles.suggestionItem}>
                       <Text style={styles.suggestionText} numberOfLines={1} ellipsizeMode="tail">{c}</Text>
@@ -667,10 +1523,29 @@ export default function ShoppingListPage() {
               </View>
             )}
           </View>
+          {/* Ranked category guesses for the typed name */}
+          {categoryRanking.length > 0 && (
+            <View style={styles.categoryGuesses}>
+              {categoryRanking.map(guess => (
+                <Pressable
+                  key={guess.category}
+                  style={[styles.categoryGuess, guess.category === addCategory && styles.categoryGuessActive]}
+                  onPress={() => {
+                    setAddCategory(guess.category);
+                    setCategoryTouched(true);
+                  }}
+                >
+                  <Text style={[styles.categoryGuessText, guess.category === addCategory && styles.categoryGuessTextActive]}>
+                    {guess.category} {Math.round(guess.confidence * 100)}%
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
                     <TouchableOpacity
-            style={[styles.addButton, (!addName.trim() || !addCategory.trim() || !addQuantity) && { opacity: 0.5 }]}
+            style={[styles.addButton, (!addName.trim() || !addCategory.trim() || parseQuantity(addQuantity) === null) && { opacity: 0.5 }]}
             onPress={() => handleAddItem(false)}
-            disabled={!addName.trim() || !addCategory.trim() || !addQuantity || addLoading}
+            disabled={!addName.trim() || !addCategory.trim() || parseQuantity(addQuantity) === null || addLoading}
           >
             <Text style={styles.addButtonText}>תעמיס לי !</Text>
           </TouchableOpacity>
@@ -682,6 +1557,7 @@ export default function ShoppingListPage() {
               setAddName('');
               setAddQuantity('1');
               setAddCategory('');
+              setCategoryTouched(false);
               setShowNameSuggestions(false);
               setShowCategorySuggestions(false);
               setTimeout(() => {
@@ -691,8 +1567,82 @@ export default function ShoppingListPage() {
           >
             <Text style={styles.addAnotherBtnText}>הוסף עוד אחד</Text>
           </Pressable>
+          </>)}
         </KeyboardAvoidingView>
       </Modal>
+      <BasketEstimateModal
+        visible={basketVisible}
+        items={items}
+        onClose={() => setBasketVisible(false)}
+        onToggleDone={toggleItemDone}
+      />
+      <AisleOrderModal
+        visible={aisleVisible}
+        categories={categorizedItems.map(s => s.title)}
+        orders={aisleOrders}
+        activeStore={activeStore}
+        onSelectStore={selectStore}
+        onSaveOrder={reorderAisles}
+        onClose={() => setAisleVisible(false)}
+      />
+      {listsModal}
+      <ShareListModal
+        visible={shareVisible}
+        items={items}
+        listName={activeList?.name ?? 'רשימת קניות'}
+        categoryOrder={activeStore ? aisleOrders[storeKey(activeStore)]?.categories : undefined}
+        onImport={importSharedList}
+        onClose={() => setShareVisible(false)}
+      />
+      <StaplesModal
+        visible={staplesVisible}
+        staples={dueStaples}
+        snoozeDays={stapleThresholds.snoozeDays}
+        onAdd={addStaples}
+        onSnooze={snoozeDueStaple}
+        onClose={() => setStaplesVisible(false)}
+      />
+      <ItemEditorModal
+        item={editingItem}
+        categories={categorizedItems.map(s => s.title)}
+        products={products}
+        onSave={saveItemEdit}
+        onShowStats={showProductStats}
+        onClose={() => setEditingItem(null)}
+      />
+      <BulkEditModal
+        mode={bulkEdit}
+        count={selectedItems.length}
+        categories={categorizedItems.map(s => s.title)}
+        onCategory={category => applyBulk({ kind: 'category', category })}
+        onQuantity={quantity => applyBulk({ kind: 'quantity', quantity })}
+        onClose={() => setBulkEdit(null)}
+      />
+      <StartTripModal
+        visible={startTripVisible}
+        activeStore={activeStore}
+        onStart={beginTrip}
+        onClose={() => setStartTripVisible(false)}
+      />
+      <ConfirmModal
+        visible={endTripVisible}
+        title="לסיים את הקנייה?"
+        message={`${cartLines.length} פריטים בעגלה.`}
+        buttons={[
+          { text: 'סיים', onPress: finishCurrentTrip },
+          { text: 'בטל קנייה', style: 'destructive', onPress: () => { cancelTrip(); setTrip(null); } },
+          { text: 'המשך לקנות', style: 'cancel' },
+        ]}
+        onClose={() => setEndTripVisible(false)}
+      />
+      <TripSummaryModal summary={tripSummary} onClose={() => setTripSummary(null)} />
+      <MoveItemsModal
+        items={movingItems}
+        lists={lists}
+        activeListId={activeListId}
+        onMove={moveItems}
+        onClose={() => setMovingItems([])}
+      />
       {/* Add animation overlay above modal */}
       {showAddAnim && !Platform.select({ web: true, default: false }) && (
         <View style={styles.addAnimOverlayNoBg} pointerEvents="none">
@@ -703,10 +1653,43 @@ export default function ShoppingListPage() {
   );
 }
 
+// ---------- Component: Trip Timer ----------
+// Ticks on its own so the rest of the screen doesn't re-render every second
+function TripTimer({ startedAt }: { startedAt: number }) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return <Text>{formatElapsed(now - startedAt)}</Text>;
+}
+
+// ---------- Component: Search Highlight ----------
+// The parts of `text` the search matched, marked inside the surrounding Text
+function Highlighted({ text, query }: { text: string, query?: string }) {
+  const ranges = query ? matchRanges(text, query) : null;
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitByRanges(text, ranges).map((part, i) => (
+        <Text key={i} style={part.match ? styles.searchMatch : undefined}>{part.text}</Text>
+      ))}
+    </>
+  );
+}
+
 // ---------- Component: List Item Row ----------
-function ListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity }: { item: ListItem, onToggleDone: (itemId: string, doneStatus: boolean) => void, onDelete: (itemId: string) => void, onUpdateQuantity: (itemId: string, quantity: number) => void }) {
+function ListItemRow({ item, pending, forgotten, onToggleDone, onDelete, onUpdateQuantity, selecting, selected, onSelect, onEdit, product, onShowStats, highlight }: { item: ListItem, pending: boolean, forgotten: boolean, onToggleDone: (itemId: string, doneStatus: boolean) => void, onDelete: (itemId: string) => void, onUpdateQuantity: (itemId: string, quantity: number) => void, selecting: boolean, selected: boolean, onSelect: (itemId: string) => void, onEdit?: (itemId: string) => void, product?: Product, onShowStats?: (barcode: string) => void, highlight?: string }) {
   const translateX = useRef(new Animated.Value(0)).current;
   const [dismissed, setDismissed] = useState(false);
+  const step = quantityStep(item.unit);
+  // The pan responder is created once; read the latest handler when it fires
+  const onEditRef = useRef(onEdit);
+  onEditRef.current = onEdit;
+  const onDeleteRef = useRef(onDelete);
+  onDeleteRef.current = onDelete;
+  const selectingRef = useRef(selecting);
+  selectingRef.current = selecting;
 
   // Always use #506c4fff for swipe background (both directions)
   const bgColor = translateX.interpolate({
@@ -729,7 +1712,8 @@ function ListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity }: { item:
 
   const panResponder = useRef(
     PanResponder.create({
-      onMoveShouldSetPanResponder: (_, gestureState) => Math.abs(gestureState.dx) > 10,
+      // No swiping while items are being selected
+      onMoveShouldSetPanResponder: (_, gestureState) => !selectingRef.current && Math.abs(gestureState.dx) > 10,
       onPanResponderMove: (_, gestureState) => {
         // Allow both left and right swipe
         translateX.setValue(gestureState.dx);
@@ -744,14 +1728,15 @@ function ListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity }: { item:
           }).start(() => {
             // Note: Optimistic update handles the immediate removal in ShoppingListPage.
             // We just need to trigger the delete action.
-            onDelete(item.id);
+            onDeleteRef.current(item.id);
           });
         } else if (gestureState.dx > 120) {
-          // Optionally keep right swipe for future actions, or just snap back
+          // Swiped right to edit: snap back and open the editor
           Animated.spring(translateX, {
             toValue: 0,
             useNativeDriver: true,
           }).start();
+          onEditRef.current?.(item.id);
         } else {
           Animated.spring(translateX, {
             toValue: 0,
@@ -775,8 +1760,8 @@ function ListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity }: { item:
 
   return (
     <View style={{ position: 'relative', justifyContent: 'center', alignItems: 'stretch' }}>
-      {/* Delete text overlays behind the card, centered vertically */}
-      {/* Left side (swipe left) */}
+      {/* Swipe labels overlay behind the card, centered vertically */}
+      {/* Left side (swipe right) */}
       <Animated.View
         pointerEvents="none"
         style={{
@@ -792,10 +1777,10 @@ function ListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity }: { item:
           zIndex: 1,
         }}
       >
-        <Ionicons name="trash-outline" size={22} color="#506c4fff" style={{ marginRight: 6 }} />
-        <Text style={{ color: '#506c4fff', fontWeight: 'bold', fontSize: 16 }}>מחק פריט</Text>
+        <Ionicons name="create-outline" size={22} color="#506c4fff" style={{ marginRight: 6 }} />
+        <Text style={{ color: '#506c4fff', fontWeight: 'bold', fontSize: 16 }}>ערוך פריט</Text>
       </Animated.View>
-      {/* Right side (swipe right) */}
+      {/* Right side (swipe left) */}
       <Animated.View
         pointerEvents="none"
         style={{
@@ -819,44 +1804,91 @@ function ListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity }: { item:
         style={[
           styles.listItemRow,
           item.done && styles.listItemDone,
+          forgotten && styles.listItemForgotten,
+          selected && styles.listItemSelected,
           { transform: [{ translateX }], backgroundColor: bgColor, zIndex: 2 },
         ]}
         {...panResponder.panHandlers}
         pointerEvents={item.done ? 'auto' : 'auto'}
       >
-        <Pressable onPress={() => onToggleDone(item.id, !item.done)} style={styles.checkboxContainer}>
-          <Ionicons
-            name={item.done ? "checkbox" : "square-outline"}
-            size={24}
-            color={item.done ? "#506c4fff" : "#999"}
-          />
-        </Pressable>
-        <View style={styles.itemDetails}>
+        {selecting ? (
+          <Pressable onPress={() => onSelect(item.id)} style={styles.checkboxContainer}>
+            <Ionicons
+              name={selected ? "checkmark-circle" : "ellipse-outline"}
+              size={24}
+              color={selected ? "#506c4fff" : "#999"}
+            />
+          </Pressable>
+        ) : (
+          <Pressable onPress={() => onToggleDone(item.id, !item.done)} style={styles.checkboxContainer}>
+            <Ionicons
+              name={item.done ? "checkbox" : "square-outline"}
+              size={24}
+              color={item.done ? "#506c4fff" : "#999"}
+            />
+          </Pressable>
+        )}
+        {/* Tap edits the item, long press starts selecting; while selecting a tap picks it */}
+        <Pressable
+          style={styles.itemDetails}
+          onPress={selecting ? () => onSelect(item.id) : onEdit ? () => onEdit(item.id) : undefined}
+          onLongPress={() => onSelect(item.id)}
+          delayLongPress={400}
+        >
           <Text style={[styles.itemName, item.done && styles.itemDoneText]}>
-            {item.name}
+            <Highlighted text={item.name} query={highlight} />
           </Text>
-        </View>
-        <View style={item.done ? styles.actionsContainerDisabled : styles.actionsContainer}>
-          <View style={styles.quantityContainer}>
-            <Pressable onPress={() => onUpdateQuantity(item.id, item.quantity + 1)} disabled={item.done}>
-              <Ionicons name="add-circle-outline" size={24} color={item.done ? '#ccc' : '#506c4fff'} />
+          {!!item.note && (
+            <Text style={styles.itemNote} numberOfLines={2}><Highlighted text={item.note} query={highlight} /></Text>
+          )}
+          {/* Linked items show what the product cost and lead to its price history */}
+          {!!item.barcode && (
+            <Pressable style={styles.productLink} onPress={() => onShowStats?.(item.barcode!)} hitSlop={6}>
+              <Ionicons name="barcode-outline" size={14} color="#506c4fff" />
+              <Text style={styles.productLinkText} numberOfLines={1}>
+                {[
+                  typeof product?.price === 'number' ? nis.format(product.price) : null,
+                  typeof product?.average_price === 'number' ? `ממוצע ${nis.format(product.average_price)}` : null,
+                ].filter(Boolean).join(' · ') || 'מוצר מקושר'}
+              </Text>
             </Pressable>
-            <Text style={[styles.itemQuantity, item.done && styles.itemDoneText]}>{item.quantity}</Text>
-            <Pressable onPress={() => onUpdateQuantity(item.id, Math.max(1, item.quantity - 1))} disabled={item.done}>
-              <Ionicons name="remove-circle-outline" size={24} color={item.done ? '#ccc' : '#506c4fff'} />
+          )}
+          {pending && (
+            <View style={styles.pendingBadge}>
+              <Ionicons name="cloud-upload-outline" size={12} color="#92400e" />
+              <Text style={styles.pendingBadgeText}>ממתין לסנכרון</Text>
+            </View>
+          )}
+          {forgotten && (
+            <View style={styles.forgottenBadge}>
+              <Ionicons name="alert-circle-outline" size={12} color="#B91C1C" />
+              <Text style={styles.forgottenBadgeText}>נשכח בקנייה האחרונה</Text>
+            </View>
+          )}
+        </Pressable>
+        {!selecting && (
+          <View style={item.done ? styles.actionsContainerDisabled : styles.actionsContainer}>
+            <View style={styles.quantityContainer}>
+              <Pressable onPress={() => onUpdateQuantity(item.id, item.quantity + step)} disabled={item.done}>
+                <Ionicons name="add-circle-outline" size={24} color={item.done ? '#ccc' : '#506c4fff'} />
+              </Pressable>
+              <Text style={[styles.itemQuantity, item.done && styles.itemDoneText]}>{item.quantity}{item.unit ? ` ${item.unit}` : ''}</Text>
+              <Pressable onPress={() => onUpdateQuantity(item.id, Math.max(step, item.quantity - step))} disabled={item.done}>
+                <Ionicons name="remove-circle-outline" size={24} color={item.done ? '#ccc' : '#506c4fff'} />
+              </Pressable>
+            </View>
+            <Pressable onPress={() => onDelete(item.id)} disabled={item.done}>
+              <Ionicons name="trash-outline" size={24} color={item.done ? '#eee' : '#B91C1C'} />
             </Pressable>
           </View>
-          <Pressable onPress={() => onDelete(item.id)} disabled={item.done}>
-            <Ionicons name="trash-outline" size={24} color={item.done ? '#eee' : '#B91C1C'} />
-          </Pressable>
-        </View>
+        )}
       </Animated.View>
     </View>
   );
 }
 
 // ---------- Component: Animated List Item Row ----------
-function AnimatedListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity, index, visible }: { item: ListItem, onToggleDone: (itemId: string, doneStatus: boolean) => void, onDelete: (itemId: string) => void, onUpdateQuantity: (itemId: string, quantity: number) => void, index: number, visible: boolean }) {
+function AnimatedListItemRow({ item, pending, forgotten, onToggleDone, onDelete, onUpdateQuantity, selecting, selected, onSelect, onEdit, product, onShowStats, highlight, index, visible }: { item: ListItem, pending: boolean, forgotten: boolean, onToggleDone: (itemId: string, doneStatus: boolean) => void, onDelete: (itemId: string) => void, onUpdateQuantity: (itemId: string, quantity: number) => void, selecting: boolean, selected: boolean, onSelect: (itemId: string) => void, onEdit?: (itemId: string) => void, product?: Product, onShowStats?: (barcode: string) => void, highlight?: string, index: number, visible: boolean }) {
   // Use a simple local state to control the mounting/unmounting based on visibility
   // The 'items' array update will not cause the list to unmount/remount now, 
   // so we can rely on the 'visible' prop being set by the SectionList logic.
@@ -866,9 +1898,18 @@ function AnimatedListItemRow({ item, onToggleDone, onDelete, onUpdateQuantity, i
   return (
     <ListItemRow
       item={item}
+      pending={pending}
+      forgotten={forgotten}
       onToggleDone={onToggleDone}
       onDelete={onDelete}
       onUpdateQuantity={onUpdateQuantity}
+      selecting={selecting}
+      selected={selected}
+      onSelect={onSelect}
+      onEdit={onEdit}
+      product={product}
+      onShowStats={onShowStats}
+      highlight={highlight}
     />
   );
 }
@@ -906,11 +1947,31 @@ const styles = StyleSheet.create({
   checkboxContainer: { padding: 4 },
   itemDetails: { flex: 1, alignItems: 'flex-end', marginHorizontal: 12 },
   itemName: { fontSize: 18, fontWeight: '600', color: '#333', textAlign: 'right' },
+  searchMatch: { backgroundColor: '#fef3c7' },
+  itemNote: { fontSize: 13, color: '#666', textAlign: 'right', marginTop: 2 },
+  productLink: { flexDirection: 'row-reverse', alignItems: 'center', gap: 4, marginTop: 4 },
+  productLinkText: { fontSize: 12, color: '#506c4fff', fontWeight: '600' },
   itemDoneText: {
     textDecorationLine: 'line-through',
     color: '#888',
     textAlign: 'right',
   },
+  pendingBadge: { flexDirection: 'row-reverse', alignItems: 'center', gap: 4, marginTop: 4, backgroundColor: '#fef3c7', borderRadius: 6, paddingHorizontal: 6, paddingVertical: 2 },
+  pendingBadgeText: { fontSize: 11, color: '#92400e', fontWeight: '600' },
+  forgottenBadge: { flexDirection: 'row-reverse', alignItems: 'center', gap: 4, marginTop: 4, backgroundColor: '#fef2f2', borderRadius: 6, paddingHorizontal: 6, paddingVertical: 2 },
+  forgottenBadgeText: { fontSize: 11, color: '#B91C1C', fontWeight: '600' },
+  listItemForgotten: { borderWidth: 1, borderColor: '#fecaca' },
+  listItemSelected: { borderWidth: 2, borderColor: '#506c4fff' },
+  liveIndicator: { flexDirection: 'row-reverse', alignItems: 'center', alignSelf: 'flex-end', gap: 6, marginTop: 8, marginRight: 16 },
+  liveDot: { width: 8, height: 8, borderRadius: 4 },
+  liveDotOn: { backgroundColor: '#16a34a' },
+  liveDotPolling: { backgroundColor: '#d97706' },
+  liveDotOff: { backgroundColor: '#9ca3af' },
+  liveText: { fontSize: 12, color: '#666' },
+  syncBanner: { flexDirection: 'row-reverse', alignItems: 'center', alignSelf: 'flex-end', gap: 6, marginTop: 10, marginRight: 16, backgroundColor: '#fef3c7', borderRadius: 8, paddingHorizontal: 10, paddingVertical: 6 },
+  syncBannerText: { fontSize: 13, color: '#92400e', fontWeight: '600', textAlign: 'right' },
+  staplesBanner: { flexDirection: 'row-reverse', alignItems: 'center', alignSelf: 'flex-end', gap: 6, marginTop: 10, marginRight: 16, marginLeft: 16, backgroundColor: '#f0ecd8ff', borderRadius: 8, paddingHorizontal: 10, paddingVertical: 6 },
+  staplesBannerText: { flexShrink: 1, fontSize: 13, color: '#506c4fff', fontWeight: '600', textAlign: 'right' },
   actionsContainer: { flexDirection: 'row-reverse', alignItems: 'center', gap: 12 },
   actionsContainerDisabled: {
     flexDirection: 'row-reverse',
@@ -938,6 +1999,8 @@ const styles = StyleSheet.create({
     shadowOffset: { width: 0, height: 1 },
     zIndex: 10,
   },
+  // Clears the collapsed cart tray
+  fabAboveTray: { bottom: 76 },
   modal: {
     justifyContent: 'flex-end',
     margin: 0,
@@ -1021,6 +2084,67 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     maxWidth: '98%',
   },
+  suggestionMeta: {
+    fontSize: 12,
+    color: '#777',
+    textAlign: 'right',
+    marginTop: 2,
+  },
+  suggestionListRanked: {
+    maxHeight: 220,
+  },
+  categoryGuesses: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 6,
+  },
+  categoryGuess: {
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#506c4fff',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  categoryGuessActive: {
+    backgroundColor: '#506c4fff',
+  },
+  categoryGuessText: {
+    fontSize: 13,
+    color: '#506c4fff',
+    fontWeight: '600',
+  },
+  categoryGuessTextActive: {
+    color: '#fff',
+  },
+  quickAddInput: {
+    minHeight: 48,
+    maxHeight: 120,
+  },
+  quickPreview: {
+    maxHeight: 160,
+    marginBottom: 4,
+  },
+  quickPreviewRow: {
+    flexDirection: 'row-reverse',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0ecd8ff',
+  },
+  quickPreviewName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'right',
+  },
+  quickPreviewMeta: {
+    fontSize: 14,
+    color: '#506c4fff',
+  },
   addButton: {
     backgroundColor: '#506c4fff',
     borderRadius: 10,
@@ -1069,6 +2193,26 @@ const styles = StyleSheet.create({
     marginTop: 10,
     alignItems: 'center',
   },
+  headerMessageWithAction: {
+    flexDirection: 'row-reverse',
+    justifyContent: 'space-between',
+  },
+  snackTextWithAction: {
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  snackAction: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  snackActionText: {
+    color: '#fff',
+    fontWeight: '700',
+  },
   // Color specific styles
   snackErrorBg: {
     backgroundColor: 'rgba(238, 83, 63, 0.95)', // Red/Error
@@ -1076,6 +2220,12 @@ const styles = StyleSheet.create({
   snackSuccessBg: {
     backgroundColor: '#506c4fff', // Green/Success
   },
+  headerActions: { flexDirection: 'row-reverse', flexWrap: 'wrap', alignSelf: 'flex-end', gap: 8 },
+  tripBar: { flexDirection: 'row-reverse', alignItems: 'center', gap: 10, marginTop: 14, backgroundColor: '#506c4fff', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10 },
+  tripBarTitle: { color: '#fff', fontWeight: '700', fontSize: 15, textAlign: 'right' },
+  tripBarText: { color: '#f0ecd8ff', fontSize: 13, textAlign: 'right', marginTop: 2 },
+  tripEndBtn: { backgroundColor: '#fffdefff', borderRadius: 8, paddingHorizontal: 14, paddingVertical: 8 },
+  tripEndBtnText: { color: '#506c4fff', fontWeight: '700', fontSize: 14 },
   toggleAllBtn: {
     alignSelf: 'flex-end',
     backgroundColor: '#506c4fff',
@@ -1109,6 +2259,10 @@ const styles = StyleSheet.create({
     fontSize: 13,
   },
   
+  categoryActions: {
+    flexDirection: 'row-reverse',
+    alignSelf: 'flex-end',
+  },
   deleteAllBtn: {
     alignSelf: 'flex-end',
     backgroundColor: '#f0ecd8fff0ecd8ff',
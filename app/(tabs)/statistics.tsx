@@ -5,6 +5,8 @@ import { Platform } from 'react-native';
 import Svg, { Polyline, Line, Text as SvgText } from 'react-native-svg';
 import { Ionicons } from '@expo/vector-icons';
 import { I18nManager } from 'react-native';
+import { api } from '@/lib/api';
+import type { StatsData } from '@/lib/types';
 
 
 I18nManager.forceRTL(false);
@@ -41,16 +43,6 @@ function getMonthMatrix(year, month) {
 }
 
 export default function StatisticsPage() {
-  type StatsData = {
-    average_spend_per_receipt: number;
-    receipts: Record<string, { date_and_time: string; total_price: number }>;
-    top_10_price_increase: Array<{ barcode: string; name: string; new_price: number; old_price: number; price_increase: number }>;
-    top_10_product_purchased: Array<{ barcode: string; name: string; average_price: number; total_quantity: number; total_price: number }>;
-    total_items: number;
-    total_receipts: number;
-    total_spent: number;
-  };
-
   const [data, setData] = useState<StatsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -139,10 +131,7 @@ export default function StatisticsPage() {
 
   const fetchData = async () => {
     try {
-      const res = await fetch('https://zenlist.hack-ops.net/api/stats');
-      if (!res.ok) throw new Error('Network error');
-      const json = await res.json();
-      setData(json);
+      setData(await api.stats.get());
       setError(null);
     } catch (e) {
       setError('שגיאה בטעינת נתונים');
@@ -172,7 +161,6 @@ export default function StatisticsPage() {
             loop={true}
             style={Platform.OS === 'web' ? { width: 140, height: 140 } : { width: 300, height: 300 }}
           />
-          />
           <Text style={styles.loadingText}>טוען נתונים…</Text>
         </View>
       </View>
@@ -17,45 +17,15 @@ import {
   ScrollView,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import type { SupermarketItem } from "@/lib/types";
+import { api } from "@/lib/api";
+import { groupOffersByItemCode, translateSupermarket } from "@/lib/prices";
+import { activeDeal, effectiveUnitPrice } from "@/lib/pricing";
 
 // Force right-to-left layout for Hebrew
 I18nManager.forceRTL(false);
 I18nManager.allowRTL(false);
 
-// ---------- Types ----------
-type SupermarketItem = {
-  ItemCode?: string;
-  ItemName?: string;
-  ManufacturerName?: string;
-  ItemPrice?: string | number;
-  promo?: {
-    DiscountedPrice: string | number;
-    DiscountedPricePerMida?: string | number;
-    MinQty: string | number;
-    PromotionDescription?: string;
-    PromotionUpdateDate?: string;
-    PromotionEndDate?: string;
-  };
-  Promo?: {
-    Quantity: number;
-    Price: number;
-    Description?: string;
-  } | null;
-  Offers?: { item: SupermarketItem; supermarket: string; branch: string; promo?: any }[];
-  [key: string]: any;
-};
-
-type SupermarketPlace = {
-  Name?: string;
-  supermarket_name?: string;
-  yohananof?: { StoreName: string };
-  Root?: {
-    Items?: {
-      Item: SupermarketItem[] | SupermarketItem;
-    };
-  };
-};
-
 // ---------- UI Helpers ----------
 const nis = new Intl.NumberFormat("he-IL", { style: "currency", currency: "ILS" });
 
@@ -63,23 +33,6 @@ function normalizeText(v: string) {
   return (v ?? "").toString().trim().toLowerCase();
 }
 
-// A new helper function to determine the final price of an item
-const getFinalPrice = (item: SupermarketItem): number => {
-  const itemPrice = parseFloat(item.ItemPrice as string);
-  const promoPrice = item.promo ? parseFloat(item.promo.DiscountedPrice as string) : Infinity;
-  return Math.min(itemPrice, promoPrice);
-};
-
-// ---------- Supermarket Name Translation ----------
-function translateSupermarket(name: string) {
-  if (!name) return "";
-  const n = name.trim().toLowerCase();
-  if (n.includes("yohananof")) return "יוחננוף";
-  if (n.includes("osherad")) return "אושר עד";
-  if (n.includes("rami levi")) return "רמי לוי";
-  return name;
-}
-
 // ---------- Screen ----------
 export default function SupermarketPage() {
   const [isLoading, setIsLoading] = useState(true);
@@ -96,54 +49,8 @@ export default function SupermarketPage() {
     setError(null);
     setIsLoading(true);
     try {
-      const res = await fetch("https://zenlist.hack-ops.net/api/prices");
-      // const res = await fetch("http://192.168.3.23:5000/api/prices");
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data: SupermarketPlace[] = await res.json();
-
-      const itemMap = new Map<
-        string,
-        { item: SupermarketItem; supermarket: string; branch: string; promo?: any }[]
-      >();
-
-      data.forEach((supermarket) => {
-        const name = supermarket.supermarket_name || supermarket.Name || "";
-        const branch = supermarket.yohananof?.StoreName || "";
-        
-        // Fix: Check if `Item` is an array or a single object
-        const itemsData = supermarket.Root?.Items?.Item;
-        const itemsArr = Array.isArray(itemsData) ? itemsData : (itemsData ? [itemsData] : []);
-
-        itemsArr.forEach((item: SupermarketItem) => {
-          if (!item.ItemCode) return;
-          if (!itemMap.has(item.ItemCode)) itemMap.set(item.ItemCode, []);
-          
-          let promo = undefined;
-          if (item.promo) {
-            promo = {
-              DiscountedPrice: item.promo.DiscountedPrice,
-              MinQty: item.promo.MinQty,
-              PromotionDescription: item.promo.PromotionDescription,
-              DiscountedPricePerMida: item.promo.DiscountedPricePerMida,
-              PromotionEndDate: item.promo.PromotionEndDate,
-            };
-          }
-          
-          itemMap.get(item.ItemCode)!.push({
-            item,
-            supermarket: name,
-            branch,
-            promo,
-          });
-        });
-      });
-
-      const uniqueItems: SupermarketItem[] = [];
-      itemMap.forEach((offers) => {
-        const main = { ...offers[0].item, Offers: offers };
-        uniqueItems.push(main);
-      });
-      setItems(uniqueItems);
+      const data = await api.prices.get();
+      setItems(groupOffersByItemCode(data));
     } catch (e: any) {
       console.error(e);
       setError("שגיאה בטעינת מחירים. נסה שוב.");
@@ -289,14 +196,14 @@ function SupermarketCard({
   const cheapestPrice = useMemo(() => {
     if (offers.length === 0) return Infinity;
     return offers.reduce((min, offer) => {
-      const currentPrice = getFinalPrice(offer.item);
+      const currentPrice = effectiveUnitPrice(offer.item);
       return Math.min(min, currentPrice);
     }, Infinity);
   }, [offers]);
 
   if (offers.length > 1) {
     offers = [...offers].sort((a, b) => {
-      return getFinalPrice(a.item) - getFinalPrice(b.item);
+      return effectiveUnitPrice(a.item) - effectiveUnitPrice(b.item);
     });
   }
 
@@ -305,7 +212,7 @@ function SupermarketCard({
   const OffersContent = (
     <>
       {displayOffers.map((offer, idx) => {
-        const finalPrice = getFinalPrice(offer.item);
+        const finalPrice = effectiveUnitPrice(offer.item);
         const isCheapest = finalPrice === cheapestPrice;
 
         const price =
@@ -314,7 +221,10 @@ function SupermarketCard({
             : offer.item.ItemPrice
               ? `${offer.item.ItemPrice} ₪`
               : "—";
-        const hasPromo = !!offer.item.promo && !!offer.item.promo.DiscountedPrice;
+        // Expired promotions are ignored; multi-buy deals don't change the single-unit price
+        const deal = activeDeal(offer.item);
+        const hasPromo = !!deal;
+        const isSingleUnitDeal = !!deal && deal.minQty === 1;
         const widthStyle = isSingle
           ? { flex: 1 }
           : isScrollable
@@ -342,24 +252,30 @@ function SupermarketCard({
               <Text style={styles.cheapestTag}>הכי זול ⭐</Text>
             )}
             <View style={[styles.pricePromoRow, { justifyContent: "center" }]}>
-              <Text style={hasPromo ? styles.originalPrice : styles.offerPrice}>{price}</Text>
-              {hasPromo && (
+              <Text style={isSingleUnitDeal ? styles.originalPrice : styles.offerPrice}>{price}</Text>
+              {deal && (
                 <Text style={styles.discountedPrice}>
-                  {nis.format(Number(offer.item.promo.DiscountedPrice))}
+                  {deal.minQty > 1 ? `${deal.minQty} ב-${nis.format(deal.total)}` : nis.format(deal.unitPrice)}
                 </Text>
               )}
             </View>
-            {hasPromo && (
+            {hasPromo && offer.item.promo && (
               <View style={styles.promoFrame}>
                 <Text style={styles.promoTitle}>במבצע</Text>
                 <Text style={styles.promoDetail}>
                   {offer.item.promo.PromotionDescription ?? "—"}
                 </Text>
                 <Text style={styles.promoDetail}>
-                  שווי ליחידה: {offer.item.promo.DiscountedPricePerMida ? nis.format(Number(offer.item.promo.DiscountedPricePerMida)) : "—"}
+                  שווי ליחידה: {nis.format(deal.unitPrice)}
                 </Text>
+                {/* The server's per-measure price (per kg, per liter) when it has one */}
+                {Number(offer.item.promo.DiscountedPricePerMida) > 0 && (
+                  <Text style={styles.promoDetail}>
+                    מחיר ליחידת מידה: {nis.format(Number(offer.item.promo.DiscountedPricePerMida))}
+                  </Text>
+                )}
                 <Text style={styles.promoDetail}>
-                  כמות: {offer.item.promo.MinQty ?? "—"}
+                  כמות: {deal.minQty}
                 </Text>
                 <Text style={styles.promoDetail}>
                   תוקף: {offer.item.promo.PromotionEndDate
@@ -423,7 +339,8 @@ function ModalOfferRow({ offer }: { offer: any }) {
       : offer.item.ItemPrice
         ? `${offer.item.ItemPrice} ₪`
         : "—";
-  const hasPromo = !!offer.item.promo && !!offer.item.promo.DiscountedPrice;
+  const deal = activeDeal(offer.item);
+  const hasPromo = !!deal;
   return (
     <View style={styles.offerRow}>
       <Text style={styles.offerSupermarket}>
@@ -431,10 +348,10 @@ function ModalOfferRow({ offer }: { offer: any }) {
         {offer.branch ? ` - ${offer.branch}` : ""}
       </Text>
       <View style={styles.pricePromoRow}>
-        <Text style={hasPromo ? styles.originalPrice : styles.offerPrice}>{price}</Text>
-        {hasPromo && (
+        <Text style={deal && deal.minQty === 1 ? styles.originalPrice : styles.offerPrice}>{price}</Text>
+        {deal && (
           <Text style={styles.discountedPrice}>
-            {nis.format(Number(offer.item.promo.DiscountedPrice))}
+            {deal.minQty > 1 ? `${deal.minQty} ב-${nis.format(deal.total)}` : nis.format(deal.unitPrice)}
           </Text>
         )}
       </View>
@@ -445,7 +362,7 @@ function ModalOfferRow({ offer }: { offer: any }) {
             {offer.item.promo.PromotionDescription ? offer.item.promo.PromotionDescription : ""}
           </Text>
           <Text style={styles.promoDetail}>
-            כמות במבצע: {offer.item.promo.MinQty ?? "—"}
+            כמות במבצע: {deal.minQty} ({nis.format(deal.unitPrice)} ליחידה)
           </Text>
           <Text style={styles.promoDetail}>
             בתוקף עד:{" "}
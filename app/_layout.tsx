@@ -67,6 +67,7 @@ function RootLayoutNav() {
               <Stack.Screen name="(tabs)" />
               <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
               <Stack.Screen name="product-stats" />
+              <Stack.Screen name="trip-history" />
             </Stack>
           </ThemeProvider>
         </View>
@@ -82,6 +83,7 @@ function RootLayoutNav() {
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
         <Stack.Screen name="product-stats" />
+        <Stack.Screen name="trip-history" />
       </Stack> 
     </ThemeProvider>
   );
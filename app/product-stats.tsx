@@ -13,24 +13,8 @@ import {
 import { useLocalSearchParams } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import Svg, { Line, G, Rect, Text as SvgText, Polyline, Circle } from 'react-native-svg';
-
-// ---------- Types ----------
-type ProductStats = {
-  barcode: string;
-  name: string;
-  cheapest_price: number;
-  highest_price: number;
-  last_price: number;
-  average_price: number;
-  price_increase?: number;
-  total_price?: number;
-  total_quantity?: number;
-  history: {
-    date: string;
-    price: number;
-    quantity: number;
-  }[];
-};
+import { api } from "@/lib/api";
+import type { ProductStats } from "@/lib/types";
 
 // ---------- UI Helpers ----------
 const nis = new Intl.NumberFormat("he-IL", { style: "currency", currency: "ILS" });
@@ -151,10 +135,7 @@ export default function ProductStatsPage() {
       }
 
       try {
-        const res = await fetch(`https://zenlist.hack-ops.net/api/stats/${barcode}`);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data: ProductStats = await res.json();
-        setStats(data);
+        setStats(await api.stats.product(String(barcode)));
       } catch (e: any) {
         setError("שגיאה בטעינת נתוני המוצר.");
       } finally {
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  Pressable,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { api } from "@/lib/api";
+import { translateSupermarket } from "@/lib/prices";
+import { findTripReceipt, formatElapsed, loadTripHistory, TripSummary } from "@/lib/trip";
+import type { Receipt } from "@/lib/types";
+
+// ---------- UI Helpers ----------
+const nis = new Intl.NumberFormat("he-IL", { style: "currency", currency: "ILS" });
+
+function tripDate(trip: TripSummary) {
+  const date = new Date(trip.endedAt);
+  return `${date.toLocaleDateString("he-IL", { weekday: "short", day: "2-digit", month: "2-digit", year: "numeric" })} ${date.toLocaleTimeString("he-IL", { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+function storeName(trip: TripSummary) {
+  return trip.store ? `${translateSupermarket(trip.store.brandName)} - ${trip.store.StoreName}` : "פריטים שנוקו מהרשימה";
+}
+
+// ---------- Screen ----------
+// Every archived trip, newest first. A trip opens to its items, which can be
+// added back to the current list, and links to its receipt when there is one.
+export default function TripHistoryPage() {
+  const router = useRouter();
+  const [trips, setTrips] = useState<TripSummary[] | null>(null);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTripHistory().then(setTrips).catch(() => setTrips([]));
+    // Without receipts the trips just show unlinked
+    api.receipts.list().then(setReceipts).catch(() => {});
+  }, []);
+
+  const receiptOf = useMemo(
+    () => new Map((trips ?? []).map(trip => [trip.id, findTripReceipt(trip, receipts)])),
+    [trips, receipts]
+  );
+
+  // The shopping list picks the items up from the route and adds them
+  const readd = (trip: TripSummary, itemIds: string[]) => {
+    router.navigate({
+      pathname: "/(tabs)/shopping-list",
+      params: { readdTrip: trip.id, readdItems: itemIds.join(",") },
+    });
+  };
+
+  const openReceipt = (receipt: Receipt) => {
+    router.navigate({ pathname: "/(tabs)/receipts", params: { receiptId: receipt.file } });
+  };
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={10}>
+          <Ionicons name="chevron-back" size={28} color="#506c4fff" />
+        </Pressable>
+        <Text style={styles.title}>היסטוריית קניות</Text>
+      </View>
+
+      {!trips ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color="#506c4fff" />
+        </View>
+      ) : trips.length === 0 ? (
+        <View style={styles.center}>
+          <Ionicons name="time-outline" size={40} color="#506c4fff" />
+          <Text style={styles.emptyTitle}>עוד אין קניות בהיסטוריה</Text>
+          <Text style={styles.emptySub}>קנייה שתסיימו במצב קנייה, או פריטים שנקנו וניקיתם מהרשימה, יופיעו כאן.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={trips}
+          keyExtractor={trip => trip.id}
+          contentContainerStyle={styles.listContent}
+          ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
+          renderItem={({ item: trip }) => (
+            <TripCard
+              trip={trip}
+              receipt={receiptOf.get(trip.id)}
+              open={openId === trip.id}
+              onToggle={() => setOpenId(id => (id === trip.id ? null : trip.id))}
+              onReadd={itemIds => readd(trip, itemIds)}
+              onOpenReceipt={openReceipt}
+            />
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// ---------- Component: Trip Card ----------
+function TripCard({
+  trip,
+  receipt,
+  open,
+  onToggle,
+  onReadd,
+  onOpenReceipt,
+}: {
+  trip: TripSummary;
+  receipt?: Receipt;
+  open: boolean;
+  onToggle: () => void;
+  onReadd: (itemIds: string[]) => void;
+  onOpenReceipt: (receipt: Receipt) => void;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Every item starts picked each time the trip is opened
+  useEffect(() => {
+    if (open) setSelected(new Set(trip.lines.map(line => line.itemId)));
+  }, [open, trip]);
+
+  const toggle = (itemId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const duration = trip.endedAt - trip.startedAt;
+
+  return (
+    <View style={styles.card}>
+      <Pressable onPress={onToggle} style={styles.cardTop}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.store} numberOfLines={1}>{storeName(trip)}</Text>
+          <Text style={styles.meta}>{tripDate(trip)} · {trip.listName}</Text>
+          <Text style={styles.meta}>
+            {trip.lines.length} פריטים
+            {duration > 0 ? ` · ${formatElapsed(duration)}` : ""}
+            {trip.estimatedTotal > 0 ? ` · הערכה ${nis.format(trip.estimatedTotal)}` : ""}
+          </Text>
+        </View>
+        <Ionicons name={open ? "chevron-up" : "chevron-down"} size={22} color="#506c4fff" />
+      </Pressable>
+
+      {receipt && (
+        <Pressable style={styles.receiptBadge} onPress={() => onOpenReceipt(receipt)}>
+          <Ionicons name="receipt-outline" size={16} color="#506c4fff" />
+          <Text style={styles.receiptText}>
+            קבלה #{receipt.file} · {nis.format(receipt.total)}
+            {trip.estimatedTotal > 0 ? ` (הפרש ${nis.format(receipt.total - trip.estimatedTotal)})` : ""}
+          </Text>
+        </Pressable>
+      )}
+
+      {open && (
+        <View style={styles.lines}>
+          {trip.lines.map(line => {
+            const checked = selected.has(line.itemId);
+            return (
+              <Pressable key={line.itemId} style={styles.line} onPress={() => toggle(line.itemId)}>
+                <Ionicons name={checked ? "checkbox" : "square-outline"} size={20} color={checked ? "#506c4fff" : "#999"} />
+                <Text style={styles.lineName} numberOfLines={1}>
+                  {line.name}
+                  {line.unit ? ` ${line.quantity} ${line.unit}` : line.quantity > 1 ? ` ×${line.quantity}` : ""}
+                </Text>
+                {line.price !== undefined && <Text style={styles.linePrice}>{nis.format(line.price)}</Text>}
+              </Pressable>
+            );
+          })}
+          <Pressable
+            style={[styles.readdBtn, selected.size === 0 && { opacity: 0.5 }]}
+            disabled={selected.size === 0}
+            onPress={() => onReadd([...selected])}
+          >
+            <Ionicons name="add-circle-outline" size={20} color="#fff" />
+            <Text style={styles.readdBtnText}>
+              {selected.size === trip.lines.length ? "הוסף הכל לרשימה" : `הוסף ${selected.size} פריטים לרשימה`}
+            </Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ---------- Styles ----------
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#f0ecd8ff",
+    paddingTop: Platform.OS === "android" ? 25 : 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 12,
+  },
+  title: { fontSize: 28, fontWeight: "700", color: "#506c4fff", textAlign: "right" },
+  center: { flex: 1, alignItems: "center", justifyContent: "center", gap: 12, paddingHorizontal: 24 },
+  emptyTitle: { fontSize: 20, fontWeight: "700", color: "#506c4fff", textAlign: "center" },
+  emptySub: { fontSize: 15, color: "#666", textAlign: "center" },
+  listContent: { paddingHorizontal: 16, paddingBottom: 40 },
+  card: {
+    backgroundColor: "#fffdefff",
+    borderRadius: 12,
+    padding: 14,
+    gap: 8,
+    shadowColor: "#506c4fff",
+    shadowOpacity: 0.05,
+    shadowRadius: 1,
+    shadowOffset: { width: 0, height: 1 },
+    elevation: 1,
+  },
+  cardTop: { flexDirection: "row-reverse", alignItems: "center", gap: 10 },
+  store: { fontSize: 17, fontWeight: "700", color: "#333", textAlign: "right" },
+  meta: { fontSize: 13, color: "#666", textAlign: "right", marginTop: 2 },
+  receiptBadge: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 6,
+    backgroundColor: "#f0ecd8ff",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  receiptText: { fontSize: 13, fontWeight: "600", color: "#506c4fff" },
+  lines: { gap: 2, marginTop: 4 },
+  line: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  lineName: { flex: 1, fontSize: 15, color: "#333", textAlign: "right" },
+  linePrice: { fontSize: 14, fontWeight: "600", color: "#506c4fff" },
+  readdBtn: {
+    flexDirection: "row-reverse",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#506c4fff",
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  readdBtnText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+});
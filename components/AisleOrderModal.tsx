@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Animated, PanResponder, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import type { AisleOrders, Store } from '@/lib/types';
+import { api } from '@/lib/api';
+import { likedStoresFrom, storeKey } from '@/lib/basket';
+import { moveItem, sortCategories } from '@/lib/aisleOrder';
+import { translateSupermarket } from '@/lib/prices';
+
+const ROW_HEIGHT = 52;
+
+// Picks the store we're shopping at and edits its category walk order by
+// dragging categories into place
+export default function AisleOrderModal({
+  visible,
+  categories,
+  orders,
+  activeStore,
+  onSelectStore,
+  onSaveOrder,
+  onClose,
+}: {
+  visible: boolean;
+  // Every category currently on the list
+  categories: string[];
+  orders: AisleOrders;
+  activeStore: Store | null;
+  onSelectStore: (store: Store | null) => void;
+  onSaveOrder: (store: Store, categories: string[]) => void;
+  onClose: () => void;
+}) {
+  const [stores, setStores] = useState<Store[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  // Liked stores are only fetched the first time the modal is opened
+  useEffect(() => {
+    if (!visible || stores) return;
+    let cancelled = false;
+    api.settings.get()
+      .then(settings => { if (!cancelled) setStores(likedStoresFrom(settings)); })
+      .catch(() => { if (!cancelled) setError('שגיאה בטעינת החנויות.'); });
+    return () => { cancelled = true; };
+  }, [visible, stores]);
+
+  const activeKey = activeStore ? storeKey(activeStore) : null;
+
+  // The saved order plus categories it doesn't know yet, so those can be placed too
+  const ordered = useMemo(() => {
+    const saved = activeKey ? orders[activeKey]?.categories ?? [] : [];
+    const all = Array.from(new Set([...saved, ...categories]));
+    return sortCategories(all, saved);
+  }, [activeKey, orders, categories]);
+
+  const move = (from: number, to: number) => {
+    if (!activeStore || from === to) return;
+    onSaveOrder(activeStore, moveItem(ordered, from, to));
+  };
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      style={styles.modal}
+      backdropOpacity={0.3}
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>סדר המעברים בחנות</Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.storeChips}>
+          <Pressable style={[styles.chip, !activeStore && styles.chipActive]} onPress={() => onSelectStore(null)}>
+            <Text style={[styles.chipText, !activeStore && styles.chipTextActive]}>לפי א״ב</Text>
+          </Pressable>
+          {(stores ?? []).map(store => {
+            const isActive = storeKey(store) === activeKey;
+            return (
+              <Pressable key={storeKey(store)} style={[styles.chip, isActive && styles.chipActive]} onPress={() => onSelectStore(store)}>
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {translateSupermarket(store.brandName)} - {store.StoreName}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        {!stores && !error && <ActivityIndicator color="#506c4fff" style={{ marginVertical: 16 }} />}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {stores && stores.length === 0 && (
+          <Text style={styles.muted}>אין חנויות מועדפות. הוסף חנויות במסך ההגדרות.</Text>
+        )}
+
+        {activeStore ? (
+          <>
+            <Text style={styles.muted}>גרור קטגוריה למקום שבו היא נמצאת במסלול בחנות.</Text>
+            <ScrollView style={{ maxHeight: 380 }} scrollEnabled={!dragging}>
+              {ordered.map((title, index) => (
+                <DraggableRow
+                  key={title}
+                  title={title}
+                  index={index}
+                  count={ordered.length}
+                  onDragStateChange={setDragging}
+                  onMove={move}
+                />
+              ))}
+            </ScrollView>
+          </>
+        ) : (
+          <Text style={styles.muted}>בחר חנות כדי לסדר את הקטגוריות לפי המסלול שלה.</Text>
+        )}
+
+        <Pressable style={styles.closeBtn} onPress={onClose}>
+          <Text style={styles.closeBtnText}>סגור</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+// ---------- Draggable Row ----------
+// Dragged by its handle; dropping it moves it by as many rows as it travelled
+function DraggableRow({
+  title,
+  index,
+  count,
+  onDragStateChange,
+  onMove,
+}: {
+  title: string;
+  index: number;
+  count: number;
+  onDragStateChange: (dragging: boolean) => void;
+  onMove: (from: number, to: number) => void;
+}) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [active, setActive] = useState(false);
+  // The responder is created once, so it reads the latest props through a ref
+  const latest = useRef({ index, count, onMove, onDragStateChange });
+  latest.current = { index, count, onMove, onDragStateChange };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setActive(true);
+        latest.current.onDragStateChange(true);
+      },
+      onPanResponderMove: (_, gestureState) => translateY.setValue(gestureState.dy),
+      onPanResponderRelease: (_, gestureState) => {
+        const { index, count, onMove, onDragStateChange } = latest.current;
+        const target = Math.max(0, Math.min(count - 1, index + Math.round(gestureState.dy / ROW_HEIGHT)));
+        translateY.setValue(0);
+        setActive(false);
+        onDragStateChange(false);
+        onMove(index, target);
+      },
+      onPanResponderTerminate: () => {
+        Animated.spring(translateY, { toValue: 0, useNativeDriver: true }).start();
+        setActive(false);
+        latest.current.onDragStateChange(false);
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View style={[styles.row, active && styles.rowActive, { transform: [{ translateY }] }]}>
+      <Text style={styles.rowIndex}>{index + 1}</Text>
+      <Text style={styles.rowTitle}>{title}</Text>
+      <View {...panResponder.panHandlers} style={styles.dragHandle} hitSlop={8}>
+        <Ionicons name="reorder-three-outline" size={26} color="#506c4fff" />
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    minHeight: 340,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center', marginBottom: 8 },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  errorText: { color: '#B91C1C', fontSize: 15, textAlign: 'center' },
+  storeChips: { flexDirection: 'row-reverse', gap: 8, paddingVertical: 4 },
+  chip: { borderRadius: 16, borderWidth: 1, borderColor: '#506c4fff', paddingHorizontal: 12, paddingVertical: 6 },
+  chipActive: { backgroundColor: '#506c4fff' },
+  chipText: { color: '#506c4fff', fontWeight: '600' },
+  chipTextActive: { color: '#fff' },
+  row: {
+    height: ROW_HEIGHT - 6,
+    marginBottom: 6,
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rowActive: { borderColor: '#506c4fff', backgroundColor: '#fffdefff', zIndex: 10, elevation: 4 },
+  rowIndex: { width: 22, fontSize: 14, color: '#888', textAlign: 'center' },
+  rowTitle: { flex: 1, fontSize: 16, color: '#333', textAlign: 'right' },
+  dragHandle: { padding: 4 },
+  closeBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 8 },
+  closeBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
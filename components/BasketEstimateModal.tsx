@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import type { ListItem, Store, SupermarketItem } from '@/lib/types';
+import { api } from '@/lib/api';
+import { groupOffersByItemCode, translateSupermarket } from '@/lib/prices';
+import { BasketPlan, estimateBasket, likedStoresFrom, planBaskets, storeKey } from '@/lib/basket';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+const nis = new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' });
+
+const TRIP_COST_KEY = 'basket.extraTripCost';
+const DEFAULT_TRIP_COST = 15;
+
+// Whole-basket price estimate for the shopping list, per liked store, plus the
+// best one-store and two-store shopping plans
+export default function BasketEstimateModal({
+  visible,
+  items,
+  onClose,
+  onToggleDone,
+}: {
+  visible: boolean;
+  items: ListItem[];
+  onClose: () => void;
+  onToggleDone: (itemId: string, doneStatus: boolean) => void;
+}) {
+  const [products, setProducts] = useState<SupermarketItem[] | null>(null);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tripCostText, setTripCostText] = useState(String(DEFAULT_TRIP_COST));
+
+  useEffect(() => {
+    readJSON<number>(TRIP_COST_KEY, DEFAULT_TRIP_COST).then(cost => setTripCostText(String(cost)));
+  }, []);
+
+  const extraTripCost = Math.max(0, Number(tripCostText) || 0);
+
+  const updateTripCost = (text: string) => {
+    setTripCostText(text);
+    const cost = Number(text);
+    if (!isNaN(cost) && cost >= 0) writeJSON(TRIP_COST_KEY, cost);
+  };
+
+  // Prices are only fetched the first time the estimate is opened
+  useEffect(() => {
+    if (!visible || products) return;
+    let cancelled = false;
+    (async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [prices, settings] = await Promise.all([api.prices.get(), api.settings.get()]);
+        if (cancelled) return;
+        setProducts(groupOffersByItemCode(prices));
+        setStores(likedStoresFrom(settings));
+      } catch (e: any) {
+        console.error(e);
+        if (!cancelled) setError('שגיאה בטעינת מחירים. נסה שוב.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [visible, products]);
+
+  const estimate = useMemo(
+    () => (products ? estimateBasket(items, products, stores) : null),
+    [items, products, stores]
+  );
+
+  // Plans keep done items so their checklists don't shrink while shopping
+  const plans = useMemo(
+    () => (products ? planBaskets(estimateBasket(items, products, stores, { includeDone: true }), extraTripCost) : null),
+    [items, products, stores, extraTripCost]
+  );
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>הערכת מחיר הסל</Text>
+
+        {isLoading && (
+          <View style={styles.center}>
+            <ActivityIndicator size="large" color="#506c4fff" />
+            <Text style={styles.muted}>טוען מחירים…</Text>
+          </View>
+        )}
+
+        {!isLoading && error && (
+          <View style={styles.center}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Pressable style={styles.retryBtn} onPress={() => { setError(null); setProducts(null); }}>
+              <Text style={styles.retryBtnText}>נסה שוב</Text>
+            </Pressable>
+          </View>
+        )}
+
+        {!isLoading && !error && estimate && (
+          <ScrollView style={{ maxHeight: 460 }}>
+            {stores.length === 0 && (
+              <Text style={styles.muted}>אין חנויות מועדפות. הוסף חנויות במסך ההגדרות.</Text>
+            )}
+            {estimate.stores.map(basket => {
+              const isCheapest = estimate.cheapest === basket;
+              return (
+                <View key={storeKey(basket.store)} style={[styles.storeCard, isCheapest && styles.storeCardCheapest]}>
+                  <View style={styles.storeRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.storeName}>
+                        {translateSupermarket(basket.store.brandName)} - {basket.store.StoreName}
+                      </Text>
+                      <Text style={styles.muted}>
+                        {basket.lines.length} פריטים תומחרו
+                        {basket.missing.length > 0 ? ` • ${basket.missing.length} לא נמכרים בסניף` : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.total}>{nis.format(basket.total)}</Text>
+                  </View>
+                  {isCheapest && <Text style={styles.cheapestTag}>הכי זול ⭐</Text>}
+                </View>
+              );
+            })}
+
+            {plans && plans.single && (
+              <View style={styles.planSection}>
+                <Text style={styles.sectionTitle}>תוכנית קנייה</Text>
+                <View style={styles.tripCostRow}>
+                  <Text style={styles.muted}>עלות נסיעה נוספת (₪)</Text>
+                  <TextInput
+                    style={styles.tripCostInput}
+                    value={tripCostText}
+                    onChangeText={updateTripCost}
+                    keyboardType="numeric"
+                  />
+                </View>
+                {plans.split && plans.savings > 0 ? (
+                  <Text style={styles.recommendation}>
+                    פיצול הקנייה לשתי חנויות חוסך {nis.format(plans.savings)} גם אחרי עלות הנסיעה
+                  </Text>
+                ) : (
+                  <Text style={styles.recommendation}>לא משתלם לפצל - כדאי לקנות הכל בחנות אחת</Text>
+                )}
+                <PlanCard title="חנות אחת" plan={plans.single} onToggleDone={onToggleDone} />
+                {plans.split && <PlanCard title="שתי חנויות" plan={plans.split} onToggleDone={onToggleDone} />}
+              </View>
+            )}
+
+            {estimate.unmatched.length > 0 && (
+              <View style={styles.unmatched}>
+                <View style={styles.storeRow}>
+                  <Ionicons name="help-circle-outline" size={18} color="#92400e" />
+                  <Text style={styles.unmatchedTitle}>פריטים שלא נמצאו במחירונים</Text>
+                </View>
+                {estimate.unmatched.map(item => (
+                  <Text key={item.id} style={styles.unmatchedItem}>• {item.name}</Text>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+        )}
+
+        <Pressable style={styles.closeBtn} onPress={onClose}>
+          <Text style={styles.closeBtnText}>סגור</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+// ---------- Plan Card ----------
+function PlanCard({ title, plan, onToggleDone }: { title: string; plan: BasketPlan; onToggleDone: (itemId: string, doneStatus: boolean) => void }) {
+  return (
+    <View style={styles.planCard}>
+      <View style={styles.storeRow}>
+        <Text style={[styles.storeName, { flex: 1 }]}>{title}</Text>
+        <Text style={styles.total}>{nis.format(plan.total)}</Text>
+      </View>
+      {plan.tripCost > 0 && (
+        <Text style={styles.muted}>כולל {nis.format(plan.tripCost)} עלות נסיעה נוספת</Text>
+      )}
+      {plan.stops.map(stop => (
+        <View key={storeKey(stop.store)} style={styles.planStop}>
+          <Text style={styles.planStopTitle}>
+            {translateSupermarket(stop.store.brandName)} - {stop.store.StoreName} ({nis.format(stop.total)})
+          </Text>
+          {stop.lines.map(line => (
+            <Pressable
+              key={line.listItem.id}
+              style={styles.planLine}
+              onPress={() => onToggleDone(line.listItem.id, !line.listItem.done)}
+            >
+              <Ionicons
+                name={line.listItem.done ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={line.listItem.done ? '#506c4fff' : '#999'}
+              />
+              <Text style={[styles.planLineName, line.listItem.done && styles.planLineDone]} numberOfLines={1}>
+                {line.listItem.name} × {line.listItem.quantity}
+              </Text>
+              <Text style={styles.muted}>{nis.format(line.total)}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ))}
+      {plan.missing.length > 0 && (
+        <Text style={styles.muted}>לא זמינים בתוכנית: {plan.missing.map(i => i.name).join(', ')}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    minHeight: 340,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 16 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center', marginBottom: 18 },
+  center: { alignItems: 'center', justifyContent: 'center', gap: 12, paddingVertical: 24 },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  errorText: { color: '#B91C1C', fontSize: 16, textAlign: 'center' },
+  retryBtn: { backgroundColor: '#506c4fff', paddingHorizontal: 20, paddingVertical: 10, borderRadius: 8 },
+  retryBtnText: { color: '#fff', fontWeight: '700' },
+  storeCard: { backgroundColor: '#f0ecd8ff', borderRadius: 10, padding: 14, marginBottom: 10, borderWidth: 1, borderColor: '#e0e0e0' },
+  storeCardCheapest: { borderColor: '#34c759', borderWidth: 2, backgroundColor: '#f6fff6' },
+  storeRow: { flexDirection: 'row-reverse', alignItems: 'center', gap: 8 },
+  storeName: { fontSize: 16, fontWeight: '700', color: '#333', textAlign: 'right' },
+  total: { fontSize: 18, fontWeight: '700', color: '#506c4fff' },
+  cheapestTag: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#34c759',
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 13,
+    borderRadius: 7,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  planSection: { marginTop: 8, gap: 8 },
+  sectionTitle: { fontSize: 18, fontWeight: '700', color: '#506c4fff', textAlign: 'right' },
+  tripCostRow: { flexDirection: 'row-reverse', alignItems: 'center', gap: 8 },
+  tripCostInput: {
+    backgroundColor: '#fffdefff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    minWidth: 60,
+    textAlign: 'center',
+    fontSize: 15,
+  },
+  recommendation: { fontSize: 14, fontWeight: '600', color: '#228B22', textAlign: 'right' },
+  planCard: { backgroundColor: '#f0ecd8ff', borderRadius: 10, padding: 14, gap: 6, borderWidth: 1, borderColor: '#e0e0e0' },
+  planStop: { marginTop: 6, gap: 4 },
+  planStopTitle: { fontSize: 15, fontWeight: '700', color: '#228B22', textAlign: 'right' },
+  planLine: { flexDirection: 'row-reverse', alignItems: 'center', gap: 8, paddingVertical: 2 },
+  planLineName: { flex: 1, fontSize: 14, color: '#333', textAlign: 'right' },
+  planLineDone: { textDecorationLine: 'line-through', color: '#888' },
+  unmatched: { backgroundColor: '#fef3c7', borderRadius: 10, padding: 12, marginTop: 6, gap: 4 },
+  unmatchedTitle: { fontSize: 15, fontWeight: '700', color: '#92400e', textAlign: 'right' },
+  unmatchedItem: { fontSize: 14, color: '#92400e', textAlign: 'right' },
+  closeBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 18 },
+  closeBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+
+export type BulkEditMode = 'category' | 'quantity';
+
+function parseQuantity(text: string) {
+  const value = Number(text.replace(',', '.'));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Sets one category or one quantity on every selected item
+export default function BulkEditModal({
+  mode,
+  count,
+  categories,
+  onCategory,
+  onQuantity,
+  onClose,
+}: {
+  // Null hides the sheet
+  mode: BulkEditMode | null;
+  // How many items are selected
+  count: number;
+  categories: string[];
+  onCategory: (category: string) => void;
+  onQuantity: (quantity: number) => void;
+  onClose: () => void;
+}) {
+  const [category, setCategory] = useState('');
+  const [quantityText, setQuantityText] = useState('1');
+
+  useEffect(() => {
+    if (!mode) return;
+    setCategory('');
+    setQuantityText('1');
+  }, [mode]);
+
+  const quantity = parseQuantity(quantityText);
+  const canSave = mode === 'category' ? !!category.trim() : quantity !== null;
+
+  const stepQuantity = (direction: 1 | -1) => {
+    setQuantityText(String(Math.max(1, Math.round(((quantity ?? 1) + direction) * 100) / 100)));
+  };
+
+  const save = () => {
+    if (!canSave) return;
+    if (mode === 'category') onCategory(category.trim());
+    else onQuantity(quantity!);
+  };
+
+  return (
+    <Modal
+      isVisible={!!mode}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>
+          {mode === 'category' ? `קטגוריה ל-${count} פריטים` : `כמות ל-${count} פריטים`}
+        </Text>
+
+        {mode === 'category' ? (
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ gap: 12 }}>
+            <TextInput style={styles.input} value={category} onChangeText={setCategory} placeholder="קטגוריה חדשה או קיימת" />
+            <View style={styles.chips}>
+              {categories.map(c => (
+                <Pressable key={c} style={[styles.chip, category === c && styles.chipActive]} onPress={() => setCategory(c)}>
+                  <Text style={[styles.chipText, category === c && styles.chipTextActive]}>{c}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </ScrollView>
+        ) : (
+          <View style={styles.quantityRow}>
+            <Pressable onPress={() => stepQuantity(1)} hitSlop={8}>
+              <Ionicons name="add-circle-outline" size={30} color="#506c4fff" />
+            </Pressable>
+            <TextInput
+              style={[styles.input, styles.quantityInput, quantity === null && styles.inputError]}
+              value={quantityText}
+              onChangeText={setQuantityText}
+              keyboardType="decimal-pad"
+            />
+            <Pressable onPress={() => stepQuantity(-1)} hitSlop={8}>
+              <Ionicons name="remove-circle-outline" size={30} color="#506c4fff" />
+            </Pressable>
+          </View>
+        )}
+
+        <Pressable style={[styles.primaryBtn, !canSave && { opacity: 0.5 }]} onPress={save} disabled={!canSave}>
+          <Text style={styles.primaryBtnText}>עדכן</Text>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '80%',
+    gap: 12,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  input: {
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#0f0e0eff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    textAlign: 'right',
+  },
+  inputError: { borderColor: '#B91C1C' },
+  quantityRow: { flexDirection: 'row-reverse', alignItems: 'center', gap: 12 },
+  quantityInput: { flex: 1, textAlign: 'center' },
+  chips: { flexDirection: 'row-reverse', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, backgroundColor: '#f0ecd8ff' },
+  chipActive: { backgroundColor: '#506c4fff' },
+  chipText: { fontSize: 14, fontWeight: '600', color: '#506c4fff' },
+  chipTextActive: { color: '#fff' },
+  primaryBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center' },
+  primaryBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { TripLine } from '@/lib/trip';
+
+const nis = new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' });
+
+// What's already in the cart during a shopping trip, folded away at the bottom
+// of the list. Tapping an item takes it back out.
+export default function CartTray({
+  lines,
+  total,
+  onUncheck,
+}: {
+  lines: TripLine[];
+  total: number;
+  onUncheck: (itemId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const unpriced = lines.filter(line => line.price === undefined).length;
+
+  return (
+    <View style={styles.tray}>
+      <Pressable style={styles.header} onPress={() => setOpen(o => !o)}>
+        <Ionicons name="cart-outline" size={22} color="#fff" />
+        <Text style={styles.headerText}>בעגלה ({lines.length})</Text>
+        <Text style={styles.total}>{nis.format(total)}</Text>
+        <Ionicons name={open ? 'chevron-down' : 'chevron-up'} size={20} color="#fff" />
+      </Pressable>
+      {open && (
+        <ScrollView style={styles.lines}>
+          {lines.length === 0 && <Text style={styles.muted}>עוד לא סימנתם פריטים.</Text>}
+          {lines.map(line => (
+            <Pressable key={line.itemId} style={styles.line} onPress={() => onUncheck(line.itemId)}>
+              <Ionicons name="checkbox" size={20} color="#506c4fff" />
+              <Text style={styles.lineName} numberOfLines={1}>
+                {line.name}
+                {line.unit ? ` ${line.quantity} ${line.unit}` : line.quantity > 1 ? ` ×${line.quantity}` : ''}
+              </Text>
+              <Text style={styles.linePrice}>{line.price === undefined ? '—' : nis.format(line.price)}</Text>
+            </Pressable>
+          ))}
+          {unpriced > 0 && <Text style={styles.muted}>ל-{unpriced} פריטים אין מחיר בחנות הזו, הם לא נספרים בסכום.</Text>}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tray: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOpacity: 0.1,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: -2 },
+    elevation: 6,
+  },
+  header: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#506c4fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerText: { flex: 1, color: '#fff', fontWeight: '700', fontSize: 16, textAlign: 'right' },
+  total: { color: '#fff', fontWeight: '700', fontSize: 16 },
+  lines: { maxHeight: 260, paddingHorizontal: 16, paddingVertical: 8 },
+  line: { flexDirection: 'row-reverse', alignItems: 'center', gap: 10, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: '#eee' },
+  lineName: { flex: 1, fontSize: 15, color: '#333', textAlign: 'right' },
+  linePrice: { fontSize: 15, fontWeight: '600', color: '#506c4fff' },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right', paddingVertical: 6 },
+});
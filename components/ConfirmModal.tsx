@@ -0,0 +1,75 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+
+export type ConfirmButton = {
+  text: string;
+  style?: 'cancel' | 'destructive';
+  onPress?: () => void;
+};
+
+// An in-app stand-in for a multi-button Alert.alert, which does nothing on
+// web. Any button, the backdrop or a swipe closes it.
+export default function ConfirmModal({
+  visible,
+  title,
+  message,
+  buttons,
+  onClose,
+}: {
+  visible: boolean;
+  title: string;
+  message?: string;
+  buttons: ConfirmButton[];
+  onClose: () => void;
+}) {
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>{title}</Text>
+        {!!message && <Text style={styles.muted}>{message}</Text>}
+        {buttons.map(button => (
+          <Pressable
+            key={button.text}
+            style={[
+              styles.btn,
+              button.style === 'destructive' && styles.btnDestructive,
+              button.style === 'cancel' && styles.btnCancel,
+            ]}
+            onPress={() => { onClose(); button.onPress?.(); }}
+          >
+            <Text style={[styles.btnText, button.style === 'cancel' && styles.btnTextCancel]}>{button.text}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  muted: { fontSize: 15, color: '#666', textAlign: 'center', marginBottom: 6 },
+  btn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center' },
+  btnDestructive: { backgroundColor: '#B91C1C' },
+  btnCancel: { backgroundColor: '#f0ecd8ff', borderWidth: 1, borderColor: '#e0e0e0' },
+  btnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  btnTextCancel: { color: '#506c4fff' },
+});
@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import { searchProducts, suggestProduct } from '@/lib/productLink';
+import { parseQuantity, quantityStep, UNIT_NAMES } from '@/lib/quickAdd';
+import type { ItemChanges, ListItem, Product } from '@/lib/types';
+
+const nis = new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' });
+
+// '' is a plain count
+const UNITS = ['', ...UNIT_NAMES];
+
+function unitLabel(unit: string) {
+  return unit || 'יחידות';
+}
+
+function productDetails(product: Product) {
+  return [product.brand, product.size, product.barcode].filter(Boolean).join(' · ');
+}
+
+// Edits everything about a list item: name, quantity (decimals allowed), unit,
+// category, a free-text note and the catalogue product it stands for
+export default function ItemEditorModal({
+  item,
+  categories,
+  products,
+  onSave,
+  onShowStats,
+  onClose,
+}: {
+  // Nothing to edit hides the sheet
+  item: ListItem | null;
+  categories: string[];
+  // The catalogue, keyed by barcode
+  products: Record<string, Product>;
+  onSave: (item: ListItem, changes: ItemChanges, quantity: number) => void;
+  onShowStats: (barcode: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [quantityText, setQuantityText] = useState('1');
+  const [unit, setUnit] = useState('');
+  const [category, setCategory] = useState('');
+  const [note, setNote] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const [productQuery, setProductQuery] = useState('');
+
+  useEffect(() => {
+    if (!item) return;
+    setName(item.name);
+    setQuantityText(String(item.quantity));
+    setUnit(item.unit ?? '');
+    setCategory(item.category);
+    setNote(item.note ?? '');
+    setBarcode(item.barcode ?? '');
+    setProductQuery('');
+  }, [item]);
+
+  const linked = barcode ? products[barcode] : undefined;
+  const suggested = useMemo(
+    () => (barcode || !name.trim() ? undefined : suggestProduct(name, products)),
+    [barcode, name, products]
+  );
+  const results = useMemo(() => searchProducts(productQuery, products), [productQuery, products]);
+
+  const linkProduct = (product: Product) => {
+    setBarcode(product.barcode ?? '');
+    setProductQuery('');
+  };
+
+  // Less than one step of the unit would be clamped up on save, so it is
+  // refused here where the user can see it
+  const quantity = parseQuantity(quantityText, unit);
+  const belowStep = quantity === null && Number(quantityText.replace(',', '.')) > 0;
+  const canSave = !!name.trim() && quantity !== null;
+
+  const stepQuantity = (direction: 1 | -1) => {
+    const step = quantityStep(unit);
+    const next = Math.max(step, Math.round(((quantity ?? step) + direction * step) * 100) / 100);
+    setQuantityText(String(next));
+  };
+
+  const save = () => {
+    if (!item || !canSave) return;
+    // Only what actually changed is sent
+    const changes: ItemChanges = {};
+    if (name.trim() !== item.name) changes.name = name.trim();
+    if ((category.trim() || 'כללי') !== item.category) changes.category = category.trim() || 'כללי';
+    if (unit !== (item.unit ?? '')) changes.unit = unit;
+    if (note.trim() !== (item.note ?? '')) changes.note = note.trim();
+    if (barcode !== (item.barcode ?? '')) changes.barcode = barcode;
+    onSave(item, changes, quantity!);
+  };
+
+  const otherCategories = categories.filter(c => c && c !== category).slice(0, 8);
+
+  return (
+    <Modal
+      isVisible={!!item}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>עריכת פריט</Text>
+        <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ gap: 12 }}>
+          <Text style={styles.label}>שם</Text>
+          <TextInput style={styles.input} value={name} onChangeText={setName} placeholder="שם הפריט" />
+
+          <Text style={styles.label}>כמות</Text>
+          <View style={styles.quantityRow}>
+            <Pressable onPress={() => stepQuantity(1)} hitSlop={8}>
+              <Ionicons name="add-circle-outline" size={30} color="#506c4fff" />
+            </Pressable>
+            <TextInput
+              style={[styles.input, styles.quantityInput, quantity === null && styles.inputError]}
+              value={quantityText}
+              onChangeText={setQuantityText}
+              keyboardType="decimal-pad"
+            />
+            <Pressable onPress={() => stepQuantity(-1)} hitSlop={8}>
+              <Ionicons name="remove-circle-outline" size={30} color="#506c4fff" />
+            </Pressable>
+          </View>
+          {belowStep && (
+            <Text style={styles.errorText}>הכמות המינימלית היא {quantityStep(unit)} {unitLabel(unit)}</Text>
+          )}
+          <View style={styles.chips}>
+            {UNITS.map(u => (
+              <Pressable key={u || 'count'} style={[styles.chip, unit === u && styles.chipActive]} onPress={() => setUnit(u)}>
+                <Text style={[styles.chipText, unit === u && styles.chipTextActive]}>{unitLabel(u)}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.label}>קטגוריה</Text>
+          <TextInput style={styles.input} value={category} onChangeText={setCategory} placeholder="כללי" />
+          {otherCategories.length > 0 && (
+            <View style={styles.chips}>
+              {otherCategories.map(c => (
+                <Pressable key={c} style={styles.chip} onPress={() => setCategory(c)}>
+                  <Text style={styles.chipText}>{c}</Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
+          <Text style={styles.label}>הערה</Text>
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder='למשל "הבקבוק של 1.5 ליטר"'
+            multiline
+            textAlignVertical="top"
+          />
+
+          <Text style={styles.label}>מוצר</Text>
+          {barcode ? (
+            <View style={styles.productCard}>
+              <View style={styles.productHeader}>
+                <Ionicons name="barcode-outline" size={22} color="#506c4fff" />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.productName} numberOfLines={1}>{linked?.name ?? barcode}</Text>
+                  {linked && <Text style={styles.muted} numberOfLines={1}>{productDetails(linked)}</Text>}
+                </View>
+              </View>
+              {linked && (typeof linked.price === 'number' || typeof linked.average_price === 'number') && (
+                <View style={styles.prices}>
+                  {typeof linked.price === 'number' && <Text style={styles.price}>אחרון: {nis.format(linked.price)}</Text>}
+                  {typeof linked.average_price === 'number' && (
+                    <Text style={styles.price}>ממוצע: {nis.format(linked.average_price)}</Text>
+                  )}
+                </View>
+              )}
+              <View style={styles.productActions}>
+                <Pressable style={styles.linkBtn} onPress={() => onShowStats(barcode)}>
+                  <Ionicons name="stats-chart-outline" size={16} color="#506c4fff" />
+                  <Text style={styles.linkBtnText}>היסטוריית מחירים</Text>
+                </Pressable>
+                <Pressable style={styles.linkBtn} onPress={() => setBarcode('')}>
+                  <Ionicons name="unlink-outline" size={16} color="#B91C1C" />
+                  <Text style={[styles.linkBtnText, { color: '#B91C1C' }]}>הסר קישור</Text>
+                </Pressable>
+              </View>
+            </View>
+          ) : (
+            <>
+              {suggested && (
+                <Pressable style={styles.suggestion} onPress={() => linkProduct(suggested)}>
+                  <Ionicons name="sparkles-outline" size={18} color="#506c4fff" />
+                  <Text style={[styles.productName, { flex: 1 }]} numberOfLines={1}>{suggested.name}</Text>
+                  <Text style={styles.linkBtnText}>קשר</Text>
+                </Pressable>
+              )}
+              <TextInput
+                style={styles.input}
+                value={productQuery}
+                onChangeText={setProductQuery}
+                placeholder="חפש מוצר לפי שם או ברקוד"
+              />
+              {results.map(product => (
+                <Pressable key={product.barcode} style={styles.resultRow} onPress={() => linkProduct(product)}>
+                  <Text style={styles.productName} numberOfLines={1}>{product.name}</Text>
+                  <Text style={styles.muted} numberOfLines={1}>{productDetails(product)}</Text>
+                </Pressable>
+              ))}
+            </>
+          )}
+        </ScrollView>
+
+        <Pressable style={[styles.primaryBtn, !canSave && { opacity: 0.5 }]} onPress={save} disabled={!canSave}>
+          <Text style={styles.primaryBtnText}>שמור</Text>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '90%',
+    gap: 12,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  label: { fontSize: 15, fontWeight: '700', color: '#333', textAlign: 'right', marginBottom: -6 },
+  input: {
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#0f0e0eff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    textAlign: 'right',
+  },
+  inputError: { borderColor: '#B91C1C' },
+  errorText: { fontSize: 13, color: '#B91C1C', textAlign: 'right', marginTop: -6 },
+  quantityRow: { flexDirection: 'row-reverse', alignItems: 'center', gap: 12 },
+  quantityInput: { flex: 1, textAlign: 'center' },
+  noteInput: { minHeight: 70 },
+  chips: { flexDirection: 'row-reverse', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, backgroundColor: '#f0ecd8ff' },
+  chipActive: { backgroundColor: '#506c4fff' },
+  chipText: { fontSize: 14, fontWeight: '600', color: '#506c4fff' },
+  chipTextActive: { color: '#fff' },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  productCard: { backgroundColor: '#f0ecd8ff', borderRadius: 10, padding: 12, gap: 8 },
+  productHeader: { flexDirection: 'row-reverse', alignItems: 'center', gap: 10 },
+  productName: { fontSize: 16, fontWeight: '600', color: '#333', textAlign: 'right' },
+  prices: { flexDirection: 'row-reverse', gap: 16 },
+  price: { fontSize: 14, fontWeight: '600', color: '#506c4fff' },
+  productActions: { flexDirection: 'row-reverse', gap: 16 },
+  linkBtn: { flexDirection: 'row-reverse', alignItems: 'center', gap: 4 },
+  linkBtnText: { fontSize: 14, fontWeight: '700', color: '#506c4fff' },
+  suggestion: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#506c4fff',
+    borderStyle: 'dashed',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  resultRow: { paddingVertical: 8, paddingHorizontal: 4, borderBottomWidth: 1, borderBottomColor: '#e0e0e0' },
+  primaryBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center' },
+  primaryBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { isFiltering, ItemStatus, ListFilter, NO_FILTER } from '@/lib/listFilter';
+
+const STATUSES: { value: ItemStatus; label: string }[] = [
+  { value: 'all', label: 'הכל' },
+  { value: 'open', label: 'לקנות' },
+  { value: 'done', label: 'נקנו' },
+];
+
+// Search box over the shopping list, with status and category chips folded
+// away behind the filter button
+export default function ListFilterBar({
+  filter,
+  categories,
+  shown,
+  total,
+  onChange,
+}: {
+  filter: ListFilter;
+  categories: string[];
+  // Items left after filtering, out of `total`
+  shown: number;
+  total: number;
+  onChange: (filter: ListFilter) => void;
+}) {
+  const narrowed = filter.status !== 'all' || filter.categories.length > 0;
+  // A link that comes in with chips set opens them
+  const [open, setOpen] = useState(narrowed);
+
+  const toggleCategory = (category: string) => {
+    const categories = filter.categories.includes(category)
+      ? filter.categories.filter(c => c !== category)
+      : [...filter.categories, category];
+    onChange({ ...filter, categories });
+  };
+
+  return (
+    <View style={styles.bar}>
+      <View style={styles.searchRow}>
+        <View style={styles.searchBox}>
+          <Ionicons name="search-outline" size={18} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            value={filter.query}
+            onChangeText={query => onChange({ ...filter, query })}
+            placeholder="חיפוש ברשימה"
+            placeholderTextColor="#999"
+            returnKeyType="search"
+            autoCorrect={false}
+          />
+          {!!filter.query && (
+            <Pressable onPress={() => onChange({ ...filter, query: '' })} hitSlop={8}>
+              <Ionicons name="close-circle" size={18} color="#999" />
+            </Pressable>
+          )}
+        </View>
+        <Pressable style={[styles.filterBtn, narrowed && styles.filterBtnActive]} onPress={() => setOpen(o => !o)}>
+          <Ionicons name="options-outline" size={20} color={narrowed ? '#fff' : '#506c4fff'} />
+        </Pressable>
+      </View>
+
+      {open && (
+        <>
+          <View style={styles.chips}>
+            {STATUSES.map(({ value, label }) => (
+              <Pressable
+                key={value}
+                style={[styles.chip, filter.status === value && styles.chipActive]}
+                onPress={() => onChange({ ...filter, status: value })}
+              >
+                <Text style={[styles.chipText, filter.status === value && styles.chipTextActive]}>{label}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoryChips}>
+            {categories.map(category => {
+              const active = filter.categories.includes(category);
+              return (
+                <Pressable key={category} style={[styles.chip, active && styles.chipActive]} onPress={() => toggleCategory(category)}>
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{category}</Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        </>
+      )}
+
+      {isFiltering(filter) && (
+        <View style={styles.summary}>
+          <Text style={styles.summaryText}>מציג {shown} מתוך {total} פריטים</Text>
+          <Pressable onPress={() => onChange(NO_FILTER)} hitSlop={8}>
+            <Text style={styles.clearText}>נקה סינון</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: { paddingHorizontal: 16, paddingBottom: 8, gap: 8 },
+  searchRow: { flexDirection: 'row-reverse', alignItems: 'center', gap: 8 },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#fffdefff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    paddingHorizontal: 12,
+  },
+  searchInput: { flex: 1, fontSize: 16, color: '#0f0e0eff', paddingVertical: 8, textAlign: 'right' },
+  filterBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fffdefff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  filterBtnActive: { backgroundColor: '#506c4fff', borderColor: '#506c4fff' },
+  chips: { flexDirection: 'row-reverse', flexWrap: 'wrap', gap: 8 },
+  categoryChips: { flexDirection: 'row-reverse', gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, backgroundColor: '#fffdefff' },
+  chipActive: { backgroundColor: '#506c4fff' },
+  chipText: { fontSize: 14, fontWeight: '600', color: '#506c4fff' },
+  chipTextActive: { color: '#fff' },
+  summary: { flexDirection: 'row-reverse', justifyContent: 'space-between', alignItems: 'center' },
+  summaryText: { fontSize: 13, color: '#666' },
+  clearText: { fontSize: 13, fontWeight: '700', color: '#506c4fff' },
+});
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import ConfirmModal from '@/components/ConfirmModal';
+import type { ShoppingList } from '@/lib/types';
+
+// Switches between the household's lists and creates, renames, archives and
+// deletes them. Every action is online only; failures are shown in the sheet.
+export default function ListsModal({
+  visible,
+  lists,
+  activeListId,
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+  onDelete,
+  onClose,
+}: {
+  visible: boolean;
+  lists: ShoppingList[];
+  activeListId: string;
+  onSelect: (listId: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (listId: string, name: string) => Promise<void>;
+  onArchive: (listId: string, archived: boolean) => Promise<void>;
+  onDelete: (listId: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The list waiting for the user to confirm its deletion
+  const [deleting, setDeleting] = useState<ShoppingList | null>(null);
+
+  const open = lists.filter(l => !l.archived);
+  const archived = lists.filter(l => l.archived);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e?.message || 'הפעולה נכשלה. בדוק את החיבור ונסה שוב.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () => {
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      await onCreate(name);
+      setNewName('');
+    });
+  };
+
+  const saveRename = (listId: string) => {
+    const name = editName.trim();
+    if (!name) return;
+    run(async () => {
+      await onRename(listId, name);
+      setEditingId(null);
+    });
+  };
+
+  const renderRow = (list: ShoppingList) => {
+    const isActive = list.id === activeListId;
+    if (editingId === list.id) {
+      return (
+        <View key={list.id} style={styles.row}>
+          <TextInput
+            style={[styles.input, { flex: 1, marginBottom: 0 }]}
+            value={editName}
+            onChangeText={setEditName}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={() => saveRename(list.id)}
+          />
+          <Pressable onPress={() => saveRename(list.id)} hitSlop={8} disabled={busy}>
+            <Ionicons name="checkmark" size={24} color="#506c4fff" />
+          </Pressable>
+          <Pressable onPress={() => setEditingId(null)} hitSlop={8}>
+            <Ionicons name="close" size={24} color="#888" />
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <View key={list.id} style={[styles.row, isActive && styles.rowActive]}>
+        <Pressable style={styles.rowMain} onPress={() => { onSelect(list.id); onClose(); }}>
+          <Ionicons name={isActive ? 'radio-button-on' : 'radio-button-off'} size={20} color="#506c4fff" />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.rowName} numberOfLines={1}>{list.name}</Text>
+            <Text style={styles.muted}>{list.itemCount} פריטים לקנייה</Text>
+          </View>
+        </Pressable>
+        <Pressable onPress={() => { setEditingId(list.id); setEditName(list.name); }} hitSlop={8} disabled={busy}>
+          <Ionicons name="create-outline" size={22} color="#506c4fff" />
+        </Pressable>
+        <Pressable onPress={() => run(() => onArchive(list.id, !list.archived))} hitSlop={8} disabled={busy}>
+          <Ionicons name={list.archived ? 'arrow-undo-outline' : 'archive-outline'} size={22} color="#506c4fff" />
+        </Pressable>
+        <Pressable onPress={() => setDeleting(list)} hitSlop={8} disabled={busy || lists.length === 1}>
+          <Ionicons name="trash-outline" size={22} color={lists.length === 1 ? '#ccc' : '#B91C1C'} />
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>הרשימות שלי</Text>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <ScrollView style={{ maxHeight: 360 }} keyboardShouldPersistTaps="handled">
+          {open.map(renderRow)}
+          {archived.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>בארכיון</Text>
+              {archived.map(renderRow)}
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.createRow}>
+          <TextInput
+            style={[styles.input, { flex: 1, marginBottom: 0 }]}
+            placeholder="שם רשימה חדשה, למשל בית מרקחת"
+            value={newName}
+            onChangeText={setNewName}
+            returnKeyType="done"
+            onSubmitEditing={create}
+          />
+          <Pressable style={[styles.createBtn, !newName.trim() && { opacity: 0.5 }]} onPress={create} disabled={busy || !newName.trim()}>
+            {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.createBtnText}>צור</Text>}
+          </Pressable>
+        </View>
+
+        <Pressable style={styles.closeBtn} onPress={onClose}>
+          <Text style={styles.closeBtnText}>סגור</Text>
+        </Pressable>
+
+        <ConfirmModal
+          visible={!!deleting}
+          title="מחיקת רשימה"
+          message={deleting ? `למחוק את "${deleting.name}" וכל הפריטים שבה?` : undefined}
+          buttons={[
+            { text: 'מחק', style: 'destructive', onPress: () => { if (deleting) run(() => onDelete(deleting.id)); } },
+            { text: 'ביטול', style: 'cancel' },
+          ]}
+          onClose={() => setDeleting(null)}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    minHeight: 340,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center', marginBottom: 8 },
+  sectionTitle: { fontSize: 15, fontWeight: '700', color: '#888', textAlign: 'right', marginTop: 12, marginBottom: 6 },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  errorText: { color: '#B91C1C', fontSize: 15, textAlign: 'center' },
+  row: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rowActive: { borderColor: '#506c4fff' },
+  rowMain: { flex: 1, flexDirection: 'row-reverse', alignItems: 'center', gap: 10 },
+  rowName: { fontSize: 16, fontWeight: '600', color: '#333', textAlign: 'right' },
+  input: {
+    backgroundColor: '#fffdefff',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#0f0e0eff',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    textAlign: 'right',
+  },
+  createRow: { flexDirection: 'row-reverse', alignItems: 'center', gap: 8, marginTop: 4 },
+  createBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 12, paddingHorizontal: 18 },
+  createBtnText: { color: '#fff', fontWeight: '700', fontSize: 16 },
+  closeBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 8 },
+  closeBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import type { ListItem, ShoppingList } from '@/lib/types';
+
+// Picks the list to move `items` to
+export default function MoveItemsModal({
+  items,
+  lists,
+  activeListId,
+  onMove,
+  onClose,
+}: {
+  // Nothing to move hides the sheet
+  items: ListItem[];
+  lists: ShoppingList[];
+  activeListId: string;
+  onMove: (targetId: string) => void;
+  onClose: () => void;
+}) {
+  const targets = lists.filter(l => l.id !== activeListId && !l.archived);
+
+  return (
+    <Modal
+      isVisible={items.length > 0}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>
+          {items.length === 1 ? `העבר את "${items[0].name}" אל` : `העבר ${items.length} פריטים אל`}
+        </Text>
+        {targets.length === 0 ? (
+          <Text style={styles.muted}>אין רשימות אחרות. צור רשימה חדשה מהכותרת של רשימת הקניות.</Text>
+        ) : (
+          <ScrollView style={{ maxHeight: 300 }}>
+            {targets.map(list => (
+              <Pressable key={list.id} style={styles.row} onPress={() => onMove(list.id)}>
+                <Ionicons name="list-outline" size={20} color="#506c4fff" />
+                <Text style={styles.rowName} numberOfLines={1}>{list.name}</Text>
+                <Text style={styles.muted}>{list.itemCount} פריטים</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+        <Pressable style={styles.closeBtn} onPress={onClose}>
+          <Text style={styles.closeBtnText}>ביטול</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 20, fontWeight: '700', color: '#506c4fff', textAlign: 'center', marginBottom: 8 },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  row: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rowName: { flex: 1, fontSize: 16, fontWeight: '600', color: '#333', textAlign: 'right' },
+  closeBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 8 },
+  closeBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import type { Reconciliation, ReconcileAction } from '@/lib/reconcile';
+
+function actionText(action: ReconcileAction) {
+  const bought = `נקנה: ${action.line.name}${action.line.quantity > 1 ? ` ×${action.line.quantity}` : ''}`;
+  return action.kind === 'done' ? `${bought} · סמן כנקנה` : `${bought} · נשארו ${action.remaining} לקנות`;
+}
+
+// Proposes updating the shopping list from a receipt that was just imported:
+// what to tick off, what to reduce and what was forgotten
+export default function ReconcileModal({
+  reconciliation,
+  listName,
+  onApply,
+  onClose,
+}: {
+  // Nothing to reconcile hides the sheet
+  reconciliation: Reconciliation | null;
+  listName: string;
+  onApply: (actions: ReconcileAction[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  // Every proposal starts accepted
+  useEffect(() => {
+    setSelected(new Set(reconciliation?.actions.map(a => a.item.id) ?? []));
+  }, [reconciliation]);
+
+  const toggle = (itemId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const apply = async () => {
+    if (!reconciliation) return;
+    setBusy(true);
+    try {
+      await onApply(reconciliation.actions.filter(a => selected.has(a.item.id)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const actions = reconciliation?.actions ?? [];
+  const forgotten = reconciliation?.forgotten ?? [];
+  const extras = reconciliation?.extras.length ?? 0;
+
+  return (
+    <Modal
+      isVisible={!!reconciliation}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>לעדכן את "{listName}"?</Text>
+        <Text style={styles.muted}>לפי הקבלה שנוספה, אלה הפריטים מהרשימה שנקנו.</Text>
+
+        <ScrollView style={{ maxHeight: 380 }}>
+          {actions.map(action => {
+            const checked = selected.has(action.item.id);
+            return (
+              <Pressable key={action.item.id} style={styles.row} onPress={() => toggle(action.item.id)}>
+                <Ionicons name={checked ? 'checkbox' : 'square-outline'} size={22} color={checked ? '#506c4fff' : '#999'} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowName} numberOfLines={1}>{action.item.name}</Text>
+                  <Text style={styles.muted} numberOfLines={1}>{actionText(action)}</Text>
+                </View>
+              </Pressable>
+            );
+          })}
+
+          {forgotten.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>נשכחו ({forgotten.length})</Text>
+              {forgotten.map(item => (
+                <View key={item.id} style={[styles.row, styles.forgottenRow]}>
+                  <Ionicons name="alert-circle-outline" size={22} color="#B91C1C" />
+                  <Text style={[styles.rowName, { flex: 1 }]} numberOfLines={1}>{item.name}</Text>
+                </View>
+              ))}
+              <Text style={styles.muted}>הם יישארו ברשימה ויסומנו כדי שלא תשכחו שוב.</Text>
+            </>
+          )}
+          {extras > 0 && <Text style={[styles.muted, { marginTop: 8 }]}>ועוד {extras} מוצרים שלא היו ברשימה.</Text>}
+        </ScrollView>
+
+        <Pressable style={[styles.primaryBtn, busy && { opacity: 0.6 }]} onPress={apply} disabled={busy}>
+          {busy ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryBtnText}>{selected.size > 0 ? `עדכן ${selected.size} פריטים` : 'סמן רק את מה שנשכח'}</Text>
+          )}
+        </Pressable>
+        <Pressable style={[styles.primaryBtn, styles.secondaryBtn]} onPress={onClose} disabled={busy}>
+          <Text style={[styles.primaryBtnText, styles.secondaryBtnText]}>לא עכשיו</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  sectionTitle: { fontSize: 15, fontWeight: '700', color: '#B91C1C', textAlign: 'right', marginTop: 12, marginBottom: 6 },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  row: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  forgottenRow: { backgroundColor: '#fef2f2', borderColor: '#fecaca' },
+  rowName: { fontSize: 16, fontWeight: '600', color: '#333', textAlign: 'right' },
+  primaryBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 4 },
+  primaryBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  secondaryBtn: { backgroundColor: '#f0ecd8ff' },
+  secondaryBtnText: { color: '#506c4fff' },
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type Action = {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  onPress: () => void;
+  danger?: boolean;
+};
+
+// Takes the place of the add button while items are being selected: what is
+// selected, and what can be done to all of it at once
+export default function SelectionBar({
+  count,
+  allSelected,
+  onSelectAll,
+  onClearAll,
+  onClose,
+  onDone,
+  onUndone,
+  onCategory,
+  onQuantity,
+  onMove,
+  onDelete,
+}: {
+  count: number;
+  // Everything shown is already selected
+  allSelected: boolean;
+  onSelectAll: () => void;
+  onClearAll: () => void;
+  onClose: () => void;
+  onDone: () => void;
+  onUndone: () => void;
+  onCategory: () => void;
+  onQuantity: () => void;
+  // Left out when there is no other list to move to
+  onMove?: () => void;
+  onDelete: () => void;
+}) {
+  const actions: Action[] = [
+    { icon: 'checkmark-done-outline', label: 'נקנה', onPress: onDone },
+    { icon: 'square-outline', label: 'לא נקנה', onPress: onUndone },
+    { icon: 'pricetag-outline', label: 'קטגוריה', onPress: onCategory },
+    { icon: 'calculator-outline', label: 'כמות', onPress: onQuantity },
+    ...(onMove ? [{ icon: 'swap-horizontal-outline' as const, label: 'העבר', onPress: onMove }] : []),
+    { icon: 'trash-outline', label: 'מחק', onPress: onDelete, danger: true },
+  ];
+
+  return (
+    <View style={styles.bar}>
+      <View style={styles.header}>
+        <Pressable onPress={onClose} hitSlop={10}>
+          <Ionicons name="close" size={24} color="#fff" />
+        </Pressable>
+        <Text style={styles.count}>{count} נבחרו</Text>
+        <Pressable onPress={allSelected ? onClearAll : onSelectAll} hitSlop={8}>
+          <Text style={styles.selectAll}>{allSelected ? 'נקה בחירה' : 'בחר הכל'}</Text>
+        </Pressable>
+      </View>
+      <View style={styles.actions}>
+        {actions.map(action => (
+          <Pressable
+            key={action.label}
+            style={[styles.action, count === 0 && styles.actionDisabled]}
+            onPress={action.onPress}
+            disabled={count === 0}
+          >
+            <Ionicons name={action.icon} size={22} color={action.danger ? '#B91C1C' : '#506c4fff'} />
+            <Text style={[styles.actionText, action.danger && styles.actionTextDanger]}>{action.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOpacity: 0.1,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: -2 },
+    elevation: 6,
+  },
+  header: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#506c4fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  count: { flex: 1, color: '#fff', fontWeight: '700', fontSize: 16, textAlign: 'right' },
+  selectAll: { color: '#fff', fontWeight: '600', fontSize: 14 },
+  actions: { flexDirection: 'row-reverse', justifyContent: 'space-around', paddingVertical: 10, paddingHorizontal: 8 },
+  action: { alignItems: 'center', gap: 2, minWidth: 52 },
+  actionDisabled: { opacity: 0.4 },
+  actionText: { fontSize: 12, fontWeight: '600', color: '#506c4fff' },
+  actionTextDanger: { color: '#B91C1C' },
+});
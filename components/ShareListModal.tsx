@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, Share, StyleSheet, Text, TextInput, View } from 'react-native';
+import Modal from 'react-native-modal';
+import * as SMS from 'expo-sms';
+import { Ionicons } from '@expo/vector-icons';
+import { formatListText, ListTextFormat, parseSharedList, SharedEntry } from '@/lib/listText';
+import type { ListItem } from '@/lib/types';
+
+const FORMATS: { key: ListTextFormat; label: string }[] = [
+  { key: 'plain', label: 'טקסט' },
+  { key: 'whatsapp', label: 'וואטסאפ' },
+  { key: 'checklist', label: "צ'קליסט" },
+];
+
+// Sends the list out as text (SMS or the share sheet) and imports a list
+// someone sent back in
+export default function ShareListModal({
+  visible,
+  items,
+  listName,
+  categoryOrder,
+  onImport,
+  onClose,
+}: {
+  visible: boolean;
+  items: ListItem[];
+  listName: string;
+  categoryOrder?: string[];
+  onImport: (entries: SharedEntry[]) => void;
+  onClose: () => void;
+}) {
+  const [mode, setMode] = useState<'share' | 'import'>('share');
+  const [format, setFormat] = useState<ListTextFormat>('whatsapp');
+  const [pasted, setPasted] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const text = useMemo(
+    () => formatListText(items, { format, title: listName, categoryOrder }),
+    [items, format, listName, categoryOrder]
+  );
+  const entries = useMemo(() => parseSharedList(pasted), [pasted]);
+
+  const sendSms = async () => {
+    setError(null);
+    try {
+      if (!(await SMS.isAvailableAsync())) {
+        setError('שליחת SMS לא זמינה במכשיר הזה.');
+        return;
+      }
+      await SMS.sendSMSAsync([], text);
+    } catch {
+      setError('שליחת ה-SMS נכשלה.');
+    }
+  };
+
+  const share = async () => {
+    setError(null);
+    try {
+      await Share.share({ message: text, title: listName });
+    } catch {
+      setError('השיתוף נכשל.');
+    }
+  };
+
+  const importPasted = () => {
+    if (entries.length === 0) return;
+    onImport(entries);
+    setPasted('');
+  };
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.content}>
+        <View style={styles.handle} />
+        <View style={styles.chips}>
+          <Pressable style={[styles.modeChip, mode === 'share' && styles.chipActive]} onPress={() => setMode('share')}>
+            <Text style={[styles.chipText, mode === 'share' && styles.chipTextActive]}>שיתוף</Text>
+          </Pressable>
+          <Pressable style={[styles.modeChip, mode === 'import' && styles.chipActive]} onPress={() => setMode('import')}>
+            <Text style={[styles.chipText, mode === 'import' && styles.chipTextActive]}>ייבוא</Text>
+          </Pressable>
+        </View>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {mode === 'share' ? (
+          <>
+            <View style={styles.chips}>
+              {FORMATS.map(f => (
+                <Pressable key={f.key} style={[styles.chip, format === f.key && styles.chipActive]} onPress={() => setFormat(f.key)}>
+                  <Text style={[styles.chipText, format === f.key && styles.chipTextActive]}>{f.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <ScrollView style={styles.preview}>
+              <Text style={styles.previewText} selectable>{text}</Text>
+            </ScrollView>
+            <View style={styles.actions}>
+              <Pressable style={styles.primaryBtn} onPress={share}>
+                <Ionicons name="share-outline" size={20} color="#fff" />
+                <Text style={styles.primaryBtnText}>שתף</Text>
+              </Pressable>
+              <Pressable style={[styles.primaryBtn, styles.secondaryBtn]} onPress={sendSms}>
+                <Ionicons name="chatbubble-outline" size={20} color="#506c4fff" />
+                <Text style={[styles.primaryBtnText, styles.secondaryBtnText]}>SMS</Text>
+              </Pressable>
+            </View>
+          </>
+        ) : (
+          <>
+            <TextInput
+              style={styles.pasteInput}
+              multiline
+              value={pasted}
+              onChangeText={setPasted}
+              placeholder={'הדבק כאן רשימה שקיבלת, למשל:\nחלב ×2\n2 ק״ג עגבניות\nלחם'}
+              textAlignVertical="top"
+            />
+            {entries.length > 0 && (
+              <ScrollView style={{ maxHeight: 160 }}>
+                {entries.map(entry => (
+                  <View key={`${entry.name}|${entry.unit ?? ''}`} style={styles.entryRow}>
+                    <Text style={styles.entryName} numberOfLines={1}>{entry.name}</Text>
+                    <Text style={styles.muted}>
+                      {entry.quantity}{entry.unit ? ` ${entry.unit}` : ''}{entry.category ? ` · ${entry.category}` : ''}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+            <Pressable
+              style={[styles.primaryBtn, entries.length === 0 && { opacity: 0.5 }]}
+              onPress={importPasted}
+              disabled={entries.length === 0}
+            >
+              <Text style={styles.primaryBtnText}>
+                {entries.length > 0 ? `ייבא ${entries.length} פריטים` : 'ייבא'}
+              </Text>
+            </Pressable>
+          </>
+        )}
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  chips: { flexDirection: 'row-reverse', gap: 8, justifyContent: 'center' },
+  modeChip: { flex: 1, alignItems: 'center', paddingVertical: 10, borderRadius: 10, backgroundColor: '#f0ecd8ff' },
+  chip: { paddingHorizontal: 14, paddingVertical: 6, borderRadius: 16, backgroundColor: '#f0ecd8ff' },
+  chipActive: { backgroundColor: '#506c4fff' },
+  chipText: { fontSize: 15, fontWeight: '600', color: '#506c4fff' },
+  chipTextActive: { color: '#fff' },
+  errorText: { color: '#B91C1C', fontSize: 14, textAlign: 'center' },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  preview: { maxHeight: 280, backgroundColor: '#f0ecd8ff', borderRadius: 10, padding: 12 },
+  previewText: { fontSize: 15, color: '#333', textAlign: 'right', lineHeight: 22 },
+  actions: { flexDirection: 'row-reverse', gap: 10 },
+  primaryBtn: {
+    flex: 1,
+    flexDirection: 'row-reverse',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#506c4fff',
+    borderRadius: 10,
+    paddingVertical: 14,
+  },
+  primaryBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  secondaryBtn: { backgroundColor: '#f0ecd8ff' },
+  secondaryBtnText: { color: '#506c4fff' },
+  pasteInput: {
+    minHeight: 140,
+    maxHeight: 220,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 15,
+    color: '#0f0e0eff',
+    textAlign: 'right',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  entryRow: { flexDirection: 'row-reverse', justifyContent: 'space-between', alignItems: 'center', gap: 8, paddingVertical: 4 },
+  entryName: { flex: 1, fontSize: 15, fontWeight: '600', color: '#333', textAlign: 'right' },
+});
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import type { DueStaple } from '@/lib/staples';
+
+function dueText(staple: DueStaple) {
+  const every = `נקנה בערך כל ${Math.round(staple.intervalDays)} ימים`;
+  if (staple.daysLeft > 0) return `${every} · כנראה ייגמר בעוד ${staple.daysLeft} ימים`;
+  if (staple.daysLeft === 0) return `${every} · כנראה נגמר היום`;
+  return `${every} · כנראה נגמר לפני ${-staple.daysLeft} ימים`;
+}
+
+// Staples that are probably running out, by how often the household buys them
+export default function StaplesModal({
+  visible,
+  staples,
+  snoozeDays,
+  onAdd,
+  onSnooze,
+  onClose,
+}: {
+  visible: boolean;
+  staples: DueStaple[];
+  snoozeDays: number;
+  onAdd: (staples: DueStaple[]) => void;
+  onSnooze: (staple: DueStaple) => void;
+  onClose: () => void;
+}) {
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>כנראה נגמר בקרוב</Text>
+        <Text style={styles.muted}>לפי הקבלות, אלה מוצרים שאתם קונים באופן קבוע.</Text>
+
+        {staples.length === 0 ? (
+          <Text style={[styles.muted, { textAlign: 'center', marginVertical: 16 }]}>אין כרגע מוצרים שעומדים להיגמר.</Text>
+        ) : (
+          <ScrollView style={{ maxHeight: 360 }}>
+            {staples.map(staple => (
+              <View key={staple.barcode} style={styles.row}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowName} numberOfLines={1}>{staple.name}</Text>
+                  <Text style={styles.muted}>{dueText(staple)}</Text>
+                </View>
+                <Pressable style={styles.snoozeBtn} onPress={() => onSnooze(staple)} hitSlop={6}>
+                  <Ionicons name="time-outline" size={16} color="#506c4fff" />
+                  <Text style={styles.snoozeText}>{snoozeDays} ימים</Text>
+                </Pressable>
+                <Pressable style={styles.addBtn} onPress={() => onAdd([staple])} hitSlop={6}>
+                  <Ionicons name="add" size={20} color="#fff" />
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+
+        {staples.length > 1 && (
+          <Pressable style={styles.primaryBtn} onPress={() => onAdd(staples)}>
+            <Text style={styles.primaryBtnText}>הוסף הכל לרשימה ({staples.length})</Text>
+          </Pressable>
+        )}
+        <Pressable style={[styles.primaryBtn, styles.secondaryBtn]} onPress={onClose}>
+          <Text style={[styles.primaryBtnText, styles.secondaryBtnText]}>סגור</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  row: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rowName: { fontSize: 16, fontWeight: '600', color: '#333', textAlign: 'right' },
+  snoozeBtn: { flexDirection: 'row-reverse', alignItems: 'center', gap: 4, paddingHorizontal: 8, paddingVertical: 6 },
+  snoozeText: { fontSize: 13, color: '#506c4fff', fontWeight: '600' },
+  addBtn: { backgroundColor: '#506c4fff', borderRadius: 16, width: 32, height: 32, alignItems: 'center', justifyContent: 'center' },
+  primaryBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 4 },
+  primaryBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  secondaryBtn: { backgroundColor: '#f0ecd8ff' },
+  secondaryBtnText: { color: '#506c4fff' },
+});
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import { api } from '@/lib/api';
+import { likedStoresFrom, storeKey } from '@/lib/basket';
+import { translateSupermarket } from '@/lib/prices';
+import type { Store } from '@/lib/types';
+
+// Picks the liked store a shopping trip is at
+export default function StartTripModal({
+  visible,
+  activeStore,
+  onStart,
+  onClose,
+}: {
+  visible: boolean;
+  // The store the aisle route is set to, offered first
+  activeStore: Store | null;
+  onStart: (store: Store) => void;
+  onClose: () => void;
+}) {
+  const [stores, setStores] = useState<Store[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Liked stores are only fetched the first time the modal is opened
+  useEffect(() => {
+    if (!visible || stores) return;
+    let cancelled = false;
+    api.settings.get()
+      .then(settings => { if (!cancelled) setStores(likedStoresFrom(settings)); })
+      .catch(() => { if (!cancelled) setError('שגיאה בטעינת החנויות.'); });
+    return () => { cancelled = true; };
+  }, [visible, stores]);
+
+  const activeKey = activeStore ? storeKey(activeStore) : null;
+  const ordered = (stores ?? []).slice().sort((a, b) => Number(storeKey(b) === activeKey) - Number(storeKey(a) === activeKey));
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>באיזו חנות קונים?</Text>
+        <Text style={styles.muted}>המחירים של החנות ישמשו לחישוב סכום העגלה בזמן הקנייה.</Text>
+
+        {!stores && !error && <ActivityIndicator color="#506c4fff" style={{ marginVertical: 16 }} />}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {stores && stores.length === 0 && (
+          <Text style={styles.muted}>אין חנויות מועדפות. הוסף חנויות במסך ההגדרות.</Text>
+        )}
+
+        <ScrollView style={{ maxHeight: 320 }}>
+          {ordered.map(store => (
+            <Pressable key={storeKey(store)} style={styles.row} onPress={() => onStart(store)}>
+              <Ionicons name={storeKey(store) === activeKey ? 'navigate' : 'storefront-outline'} size={20} color="#506c4fff" />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowName} numberOfLines={1}>
+                  {translateSupermarket(store.brandName)} - {store.StoreName}
+                </Text>
+                {!!store.City && <Text style={styles.muted} numberOfLines={1}>{store.City}</Text>}
+              </View>
+            </Pressable>
+          ))}
+        </ScrollView>
+
+        <Pressable style={styles.closeBtn} onPress={onClose}>
+          <Text style={styles.closeBtnText}>ביטול</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 20, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  errorText: { color: '#B91C1C', fontSize: 14, textAlign: 'center' },
+  row: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f0ecd8ff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rowName: { fontSize: 16, fontWeight: '600', color: '#333', textAlign: 'right' },
+  closeBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 8 },
+  closeBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
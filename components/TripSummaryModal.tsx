@@ -0,0 +1,111 @@
+import React from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Modal from 'react-native-modal';
+import { Ionicons } from '@expo/vector-icons';
+import { translateSupermarket } from '@/lib/prices';
+import { formatElapsed, TripSummary } from '@/lib/trip';
+
+const nis = new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' });
+
+// Shown when a shopping trip ends: how long it took, what went in the cart at
+// what estimated price and what was left on the list
+export default function TripSummaryModal({
+  summary,
+  onClose,
+}: {
+  // Nothing to summarize hides the sheet
+  summary: TripSummary | null;
+  onClose: () => void;
+}) {
+  const lines = summary?.lines ?? [];
+  const unpriced = lines.filter(line => line.price === undefined).length;
+  const leftBehind = summary?.leftBehind ?? [];
+
+  return (
+    <Modal
+      isVisible={!!summary}
+      onBackdropPress={onClose}
+      onSwipeComplete={onClose}
+      swipeDirection="down"
+      style={styles.modal}
+      backdropOpacity={0.3}
+      propagateSwipe
+    >
+      <View style={styles.content}>
+        <View style={styles.handle} />
+        <Text style={styles.title}>סיכום הקנייה</Text>
+        {summary?.store && (
+          <Text style={styles.muted}>
+            {translateSupermarket(summary.store.brandName)} - {summary.store.StoreName}
+          </Text>
+        )}
+
+        <View style={styles.stats}>
+          <View style={styles.stat}>
+            <Ionicons name="time-outline" size={20} color="#506c4fff" />
+            <Text style={styles.statValue}>{summary ? formatElapsed(summary.endedAt - summary.startedAt) : ''}</Text>
+            <Text style={styles.muted}>משך</Text>
+          </View>
+          <View style={styles.stat}>
+            <Ionicons name="cart-outline" size={20} color="#506c4fff" />
+            <Text style={styles.statValue}>{lines.length}</Text>
+            <Text style={styles.muted}>פריטים</Text>
+          </View>
+          <View style={styles.stat}>
+            <Ionicons name="cash-outline" size={20} color="#506c4fff" />
+            <Text style={styles.statValue}>{nis.format(summary?.estimatedTotal ?? 0)}</Text>
+            <Text style={styles.muted}>הערכה</Text>
+          </View>
+        </View>
+
+        <ScrollView style={{ maxHeight: 300 }}>
+          {lines.map(line => (
+            <View key={line.itemId} style={styles.line}>
+              <Text style={styles.lineName} numberOfLines={1}>
+                {line.name}
+                {line.unit ? ` ${line.quantity} ${line.unit}` : line.quantity > 1 ? ` ×${line.quantity}` : ''}
+              </Text>
+              <Text style={styles.linePrice}>{line.price === undefined ? '—' : nis.format(line.price)}</Text>
+            </View>
+          ))}
+          {unpriced > 0 && <Text style={[styles.muted, { marginTop: 6 }]}>ל-{unpriced} פריטים לא נמצא מחיר בחנות.</Text>}
+          {leftBehind.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>נשארו ברשימה ({leftBehind.length})</Text>
+              <Text style={styles.muted}>{leftBehind.join(', ')}</Text>
+            </>
+          )}
+        </ScrollView>
+
+        <Text style={styles.muted}>אחרי שתייבאו את הקבלה תוכלו להשוות אותה להערכה הזו.</Text>
+        <Pressable style={styles.closeBtn} onPress={onClose}>
+          <Text style={styles.closeBtnText}>סגור</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: { justifyContent: 'flex-end', margin: 0 },
+  content: {
+    backgroundColor: '#fffdefff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  handle: { width: 48, height: 6, borderRadius: 3, backgroundColor: '#ccc', alignSelf: 'center', marginBottom: 6 },
+  title: { fontSize: 22, fontWeight: '700', color: '#506c4fff', textAlign: 'center' },
+  muted: { fontSize: 13, color: '#666', textAlign: 'right' },
+  stats: { flexDirection: 'row-reverse', justifyContent: 'space-around', backgroundColor: '#f0ecd8ff', borderRadius: 12, paddingVertical: 12 },
+  stat: { alignItems: 'center', gap: 2 },
+  statValue: { fontSize: 18, fontWeight: '700', color: '#333' },
+  sectionTitle: { fontSize: 15, fontWeight: '700', color: '#B91C1C', textAlign: 'right', marginTop: 12, marginBottom: 4 },
+  line: { flexDirection: 'row-reverse', alignItems: 'center', gap: 10, paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: '#eee' },
+  lineName: { flex: 1, fontSize: 15, color: '#333', textAlign: 'right' },
+  linePrice: { fontSize: 15, fontWeight: '600', color: '#506c4fff' },
+  closeBtn: { backgroundColor: '#506c4fff', borderRadius: 10, paddingVertical: 14, alignItems: 'center', marginTop: 4 },
+  closeBtnText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+});
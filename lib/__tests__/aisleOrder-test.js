@@ -0,0 +1,30 @@
+import { mergeOrders, moveItem, sortCategories } from '../aisleOrder';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+it('walks categories in the store order and puts unknown ones last', () => {
+  expect(sortCategories(['יבשים', 'ניקיון', 'ירקות', 'חטיפים'], ['ירקות', 'יבשים'])).toEqual([
+    'ירקות',
+    'יבשים',
+    'חטיפים',
+    'ניקיון',
+  ]);
+});
+
+it('moves a category to where it was dropped', () => {
+  expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+  expect(moveItem(['a', 'b', 'c', 'd'], 3, 0)).toEqual(['d', 'a', 'b', 'c']);
+});
+
+it('keeps the newer order of each store when merging', () => {
+  const local = { 'osherad:12': { categories: ['a'], updatedAt: 5 }, 'yohananof:31': { categories: ['b'], updatedAt: 1 } };
+  const remote = { 'osherad:12': { categories: ['c'], updatedAt: 3 }, 'yohananof:31': { categories: ['d'], updatedAt: 2 } };
+  expect(mergeOrders(local, remote)).toEqual({
+    'osherad:12': { categories: ['a'], updatedAt: 5 },
+    'yohananof:31': { categories: ['d'], updatedAt: 2 },
+  });
+});
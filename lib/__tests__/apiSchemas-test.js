@@ -0,0 +1,34 @@
+import { listResponseSchema, receiptsSchema, settingsSchema } from '../apiSchemas';
+import { validate } from '../schema';
+
+it('drops malformed records and says which fields failed', () => {
+  const result = validate(receiptsSchema, [
+    { city: 'חיפה', company: 'אושר עד', createdDate: '2025-01-01', file: 'r1', total: 120.5 },
+    { city: 'חיפה', company: 'אושר עד', createdDate: '2025-01-02', file: 'r2', total: '99' },
+  ]);
+  expect(result.ok).toBe(true);
+  expect(result.value).toHaveLength(1);
+  expect(result.issues).toEqual([
+    { path: '[1].total', message: 'expected number, got string "99"' },
+    { path: '[1]', message: 'dropped malformed Receipt' },
+  ]);
+});
+
+it('rejects a payload of the wrong shape', () => {
+  const result = validate(settingsSchema, { error: 'maintenance' });
+  expect(result.ok).toBe(false);
+  expect(result.issues[0].path).toBe('supermarkets');
+});
+
+it('keeps list metadata next to the validated items', () => {
+  const result = validate(listResponseSchema, {
+    suggestions: ['חלב'],
+    categories: { מקרר: 1 },
+    7: { id: 7, name: 'לחם', quantity: 2, category: 'מאפייה', done: false },
+    8: { id: 8, quantity: 1 },
+  });
+  expect(result.ok).toBe(true);
+  expect(result.value.suggestions).toEqual(['חלב']);
+  expect(result.value[7]).toMatchObject({ id: '7', name: 'לחם' });
+  expect(result.value[8]).toBeUndefined();
+});
@@ -0,0 +1,65 @@
+import { loadPurchaseHistory, matchScore, mergeCandidates, rankSuggestions } from '../autocomplete';
+
+jest.mock('../storage', () => {
+  const data = {};
+  return {
+    readJSON: jest.fn(async (key, fallback) => (key in data ? data[key] : fallback)),
+    writeJSON: jest.fn(async (key, value) => { data[key] = value; }),
+    removeKey: jest.fn(async key => { delete data[key]; }),
+  };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+it('matches typos, final letters and transliterations', () => {
+  expect(matchScore('חל', 'חלב 3%')).toBe(1);
+  expect(matchScore('שם', 'שמן זית')).toBe(1);
+  expect(matchScore('עגבנות', 'עגבניות שרי')).toBeGreaterThan(0);
+  expect(matchScore('bamba', 'במבה אסם')).toBeGreaterThan(0);
+  expect(matchScore('shnitzel', 'שניצל תירס')).toBeGreaterThan(0);
+  expect(matchScore('סבון', 'חלב 3%')).toBe(0);
+});
+
+it('ranks items bought often and recently first', () => {
+  const now = Date.now();
+  const candidates = mergeCandidates({
+    names: ['חלב סויה', 'חלב 3%', 'חלבה'],
+    purchases: [{ name: 'חלב 3%', count: 12, lastUsed: now - 2 * DAY, lastPrice: 6.9 }],
+    usage: { חלבה: { name: 'חלבה', count: 1, lastUsed: now - 90 * DAY } },
+  });
+  const ranked = rankSuggestions('חלב', candidates, 5, now);
+  expect(ranked.map(s => s.name)).toEqual(['חלב 3%', 'חלבה', 'חלב סויה']);
+  expect(ranked[0]).toMatchObject({ count: 12, lastPrice: 6.9 });
+});
+
+it('builds purchase history from the receipts, fetching each one once', async () => {
+  const receipts = [
+    { city: '', company: 'shufersal', createdDate: '2026-03-01T10:00:00Z', file: 'r1', total: 20 },
+    { city: '', company: 'rami', createdDate: '2026-03-08T10:00:00Z', file: 'r2', total: 14 },
+  ];
+  const lines = {
+    r1: [{ barcode: '1', name: 'חלב 3%', quantity: 2, price: 13 }, { barcode: '2', name: 'לחם', quantity: 1, price: 7 }],
+    r2: [{ barcode: '1', name: 'חלב 3%', quantity: 1, price: 6 }],
+  };
+  const paths = [];
+  global.fetch = jest.fn(async url => {
+    const path = url.replace(/^.*\/api/, '');
+    paths.push(path);
+    const id = path.split('/')[2];
+    const data = id ? { ...receipts.find(r => r.file === id), items: lines[id] } : receipts;
+    return { ok: true, status: 200, text: async () => JSON.stringify(data) };
+  });
+
+  const history = await loadPurchaseHistory();
+  expect(history.find(c => c.name === 'חלב 3%')).toEqual({
+    name: 'חלב 3%',
+    count: 3,
+    lastUsed: Date.parse('2026-03-08T10:00:00Z'),
+    lastPrice: 6,
+  });
+  expect(history.find(c => c.name === 'לחם')).toMatchObject({ count: 1, lastPrice: 7 });
+
+  paths.length = 0;
+  expect(await loadPurchaseHistory()).toEqual(history);
+  expect(paths).toEqual(['/receipts']);
+});
@@ -0,0 +1,99 @@
+import { estimateBasket, likedStoresFrom, matchScore, planBaskets } from '../basket';
+
+const store = (brandName, StoreId = '1') => ({ StoreId, StoreName: `${brandName} ${StoreId}`, City: '', Address: '', brandName });
+const shufersal = store('shufersal');
+const rami = store('rami');
+
+// A product with its shelf price at every store that carries it
+function product(ItemCode, ItemName, prices) {
+  const Offers = Object.entries(prices).map(([chain, price]) => ({
+    item: { ItemCode, ItemName, ItemPrice: price },
+    supermarket: chain,
+    branch: '',
+  }));
+  return { ItemCode, ItemName, Offers };
+}
+
+const item = (id, name, extra = {}) => ({ id, name, quantity: 1, category: 'כללי', done: false, ...extra });
+
+it('scores products by the share of list words they contain', () => {
+  expect(matchScore('חלב', 'חלב תנובה 3%')).toBe(1);
+  expect(matchScore('חלב', 'משקה חלב')).toBeCloseTo(0.9);
+  expect(matchScore('גבינה צהובה', 'גבינה לבנה')).toBe(0.5);
+  expect(matchScore('', 'חלב')).toBe(0);
+});
+
+it('prices the list at every store and picks the cheapest', () => {
+  const products = [
+    product('1', 'חלב תנובה 3%', { Shufersal: '6.50', Rami: '5.90' }),
+    product('2', 'לחם אחיד', { Shufersal: '7', Rami: '8' }),
+  ];
+  const list = [item('a', 'חלב', { quantity: 2 }), item('b', 'לחם'), item('c', 'חלב', { done: true })];
+  const estimate = estimateBasket(list, products, [shufersal, rami]);
+  expect(estimate.stores.map(s => [s.store.brandName, s.total])).toEqual([['rami', 19.8], ['shufersal', 20]]);
+  expect(estimate.cheapest.store).toBe(rami);
+  expect(estimate.unmatched).toEqual([]);
+});
+
+it('reports items no product matches and sorts stores missing items last', () => {
+  const products = [
+    product('1', 'חלב תנובה 3%', { Shufersal: '6.50', Rami: '5.90' }),
+    product('2', 'לחם אחיד', { Shufersal: '7' }),
+  ];
+  const list = [item('a', 'חלב'), item('b', 'לחם'), item('c', 'שמפו')];
+  const estimate = estimateBasket(list, products, [rami, shufersal]);
+  expect(estimate.unmatched.map(i => i.id)).toEqual(['c']);
+  // Rami is cheaper but has no bread, so the complete basket comes first
+  expect(estimate.stores.map(s => s.store.brandName)).toEqual(['shufersal', 'rami']);
+  expect(estimate.stores[1].missing.map(i => i.id)).toEqual(['b']);
+});
+
+it('uses the linked product over similarly named ones', () => {
+  const products = [
+    product('1', 'חלב תנובה 3%', { Shufersal: '6.50' }),
+    product('2', 'חלב טרה 1%', { Shufersal: '9' }),
+  ];
+  const estimate = estimateBasket([item('a', 'חלב', { barcode: '2' })], products, [shufersal]);
+  expect(estimate.cheapest.lines[0].product.ItemCode).toBe('2');
+});
+
+it('flattens liked stores with their chain name', () => {
+  const settings = { supermarkets: { liked: { rami: [{ StoreId: '7', StoreName: 'רמי לוי מודיעין' }] }, available: {} } };
+  expect(likedStoresFrom(settings)).toEqual([{ StoreId: '7', StoreName: 'רמי לוי מודיעין', brandName: 'rami' }]);
+});
+
+describe('planBaskets', () => {
+  const products = [
+    product('1', 'חלב תנובה 3%', { Shufersal: '5', Rami: '8' }),
+    product('2', 'לחם אחיד', { Shufersal: '10', Rami: '6' }),
+    // Matched, but only a chain the user doesn't shop at has it
+    product('3', 'קפה שחור', { Yochananof: '20' }),
+  ];
+  const list = [item('a', 'חלב'), item('b', 'לחם'), item('c', 'קפה')];
+  const estimate = estimateBasket(list, products, [shufersal, rami]);
+
+  it('splits the list when buying each item where it is cheaper pays for the extra trip', () => {
+    const plans = planBaskets(estimate, 2);
+    expect(plans.single.stops.map(s => s.store)).toEqual([rami]);
+    expect(plans.single.total).toBe(14);
+    expect(plans.split.stops.map(s => [s.store.brandName, s.lines.map(l => l.listItem.id)])).toEqual([
+      ['rami', ['b']],
+      ['shufersal', ['a']],
+    ]);
+    expect(plans.split).toMatchObject({ itemsTotal: 11, tripCost: 2, total: 13 });
+    expect(plans.savings).toBe(1);
+  });
+
+  it('keeps to one store when the extra trip costs more than the split saves', () => {
+    const plans = planBaskets(estimate, 5);
+    expect(plans.split.total).toBe(16);
+    expect(plans.savings).toBeLessThan(0);
+  });
+
+  it('leaves items no store carries out of every plan', () => {
+    const plans = planBaskets(estimate, 2);
+    expect(plans.single.missing.map(i => i.id)).toEqual(['c']);
+    expect(plans.split.missing.map(i => i.id)).toEqual(['c']);
+    expect(planBaskets(estimateBasket(list, products, []), 2)).toEqual({ single: null, split: null, savings: 0 });
+  });
+});
@@ -0,0 +1,37 @@
+import { buildCategoryModel, learnCategory, suggestCategories } from '../categorySuggest';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const history = {
+  'מוצרי חלב': ['חלב 3%', 'גבינה לבנה', 'יוגורט'],
+  'ירקות': ['עגבניות שרי', 'מלפפונים'],
+  'מאפייה': ['לחם אחיד'],
+};
+
+it('sees through prefixes, final letters and spelling variants', () => {
+  const model = buildCategoryModel({ history });
+  expect(suggestCategories('והחלב', model)[0].category).toBe('מוצרי חלב');
+  expect(suggestCategories('עגבנייה', model)[0].category).toBe('ירקות');
+  expect(suggestCategories('מלפפון', model)[0]).toEqual({ category: 'ירקות', confidence: 1 });
+  expect(suggestCategories('סבון כלים', model)).toEqual([]);
+});
+
+it('uses the product catalogue for items it has not seen', () => {
+  const products = { 1: { name: "קוטג' 5% תנובה" }, 2: { name: 'חלב 1% תנובה' }, 3: { name: 'במבה אסם', category: 'חטיפים' } };
+  const model = buildCategoryModel({ history, products });
+  expect(suggestCategories("קוטג'", model)[0].category).toBe('מוצרי חלב');
+  expect(suggestCategories('במבה', model)[0].category).toBe('חטיפים');
+});
+
+it('lets a correction take over', async () => {
+  let learned = await learnCategory({}, 'לחם אחיד', 'קפואים');
+  expect(suggestCategories('לחם אחיד', buildCategoryModel({ history, learned }))[0].category).toBe('קפואים');
+  learned = await learnCategory(learned, 'לחם אחיד', 'מאפייה');
+  const ranking = suggestCategories('לחם אחיד', buildCategoryModel({ history, learned }));
+  expect(ranking.map(r => r.category)).toEqual(['מאפייה', 'קפואים']);
+  expect(ranking[0].confidence).toBeGreaterThan(0.5);
+});
@@ -0,0 +1,130 @@
+import { applyListEvent, subscribeToList } from '../listChannel';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const milk = { id: '1', name: 'חלב', quantity: 1, category: 'מקרר', done: false, rev: 1 };
+const bread = { id: '2', name: 'לחם', quantity: 2, category: 'מאפייה', done: false, rev: 1 };
+
+it('applies every kind of pushed event to the snapshot', () => {
+  const items = [milk, bread];
+  const eggs = { id: '3', name: 'ביצים', quantity: 1, category: 'מקרר', done: false };
+  expect(applyListEvent(items, { type: 'add', item: eggs })).toEqual([milk, bread, eggs]);
+  expect(applyListEvent(items, { type: 'remove', itemId: '1' })).toEqual([bread]);
+  expect(applyListEvent(items, { type: 'edit', item: { ...milk, name: 'חלב 1%', rev: 2 } })[0]).toEqual({ ...milk, name: 'חלב 1%', rev: 2 });
+});
+
+it('merges an add for an item the snapshot already has instead of duplicating it', () => {
+  const next = applyListEvent([milk], { type: 'add', item: { ...milk, quantity: 3 } });
+  expect(next).toEqual([{ ...milk, quantity: 3 }]);
+});
+
+it('carries the new revision on done, undone and quantity events', () => {
+  const done = applyListEvent([milk], { type: 'done', itemId: '1', rev: 2 });
+  expect(done[0]).toMatchObject({ done: true, rev: 2 });
+  expect(applyListEvent(done, { type: 'undone', itemId: '1', rev: 3 })[0]).toMatchObject({ done: false, rev: 3 });
+  expect(applyListEvent([milk], { type: 'quantity', itemId: '1', quantity: 4, rev: 5 })[0]).toMatchObject({ quantity: 4, rev: 5 });
+  // Older servers send no revision; the one we had stays
+  expect(applyListEvent([milk], { type: 'done', itemId: '1' })[0].rev).toBe(1);
+});
+
+describe('the event stream', () => {
+  let request;
+
+  // Just enough of XMLHttpRequest to feed the stream in chunks
+  class FakeXHR {
+    static HEADERS_RECEIVED = 2;
+    static LOADING = 3;
+    static DONE = 4;
+    readyState = 0;
+    status = 0;
+    responseText = '';
+    constructor() { request = this; }
+    open() {}
+    setRequestHeader() {}
+    send() {}
+    abort() {}
+    receive(chunk) {
+      this.status = 200;
+      this.readyState = FakeXHR.LOADING;
+      this.responseText += chunk;
+      this.onreadystatechange();
+    }
+  }
+
+  let unsubscribe;
+  afterEach(() => unsubscribe?.());
+
+  async function subscribe() {
+    global.XMLHttpRequest = FakeXHR;
+    const events = [];
+    unsubscribe = subscribeToList({
+      listId: 'default',
+      url: 'http://test/api/list/events',
+      onEvent: e => events.push(e),
+      onStatus: () => {},
+      onPoll: () => {},
+    });
+    await Promise.resolve();
+    return events;
+  }
+
+  it('joins multi-line data and skips heartbeat comments', async () => {
+    const events = await subscribe();
+    request.receive(': heartbeat\n\n');
+    request.receive('data: {"type":"done",\ndata: "itemId":"1","rev":2}\n\n');
+    expect(events).toEqual([{ type: 'done', itemId: '1', rev: 2 }]);
+  });
+
+  it('ignores malformed events and keeps going', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const events = await subscribe();
+    request.receive('data: {"type":"remove",\n\ndata: {"type":"remove","itemId":"2"}\n\n');
+    expect(events).toEqual([{ type: 'remove', itemId: '2' }]);
+    expect(console.warn).toHaveBeenCalled();
+    console.warn.mockRestore();
+  });
+
+  it('waits for the rest of an event split across two chunks', async () => {
+    const events = await subscribe();
+    request.receive('data: {"type":"quantity","itemId":"1",');
+    expect(events).toEqual([]);
+    request.receive('"quantity":3}\n\n');
+    expect(events).toEqual([{ type: 'quantity', itemId: '1', quantity: 3 }]);
+  });
+});
+
+it('keeps retrying and falls back to polling when the channel cannot even be opened', async () => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  let attempts = 0;
+  global.XMLHttpRequest = class {
+    open() {
+      attempts++;
+      throw new Error('Invalid URL');
+    }
+    setRequestHeader() {}
+    abort() {}
+  };
+  const statuses = [];
+  const unsubscribe = subscribeToList({
+    listId: 'default',
+    url: 'not a url',
+    onEvent: () => {},
+    onStatus: s => statuses.push(s),
+    onPoll: () => {},
+  });
+  for (let i = 0; i < 3; i++) {
+    await Promise.resolve();
+    await Promise.resolve();
+    jest.advanceTimersByTime(15000);
+  }
+  expect(attempts).toBeGreaterThanOrEqual(3);
+  expect(statuses).toContain('polling');
+  unsubscribe();
+  console.warn.mockRestore();
+  jest.useRealTimers();
+});
@@ -0,0 +1,40 @@
+import { filterFromParams, filterSections, filterToParams, matchRanges, NO_FILTER, splitByRanges } from '../listFilter';
+
+const item = (id, name, extra = {}) => ({ id, name, quantity: 1, category: 'כללי', done: false, ...extra });
+
+it('matches regardless of niqqud, quote marks and spelling and highlights the match', () => {
+  expect(matchRanges('חָלָב 3%', 'חלב')).toEqual([{ start: 0, end: 5 }]);
+  expect(matchRanges('שמנת 15% "תנובה"', 'תנובה')).toEqual([{ start: 10, end: 15 }]);
+  expect(matchRanges('עגבניות שרי', 'עגבנייה')).toEqual([{ start: 0, end: 7 }]);
+  expect(matchRanges('לחם מלא', 'לחם קל')).toBeNull();
+  expect(splitByRanges('לחם מלא', matchRanges('לחם מלא', 'מלא'))).toEqual([
+    { text: 'לחם ', match: false },
+    { text: 'מלא', match: true },
+  ]);
+});
+
+it('narrows the sections by text, status and category and drops empty ones', () => {
+  const sections = [
+    { title: 'מקרר', data: [item('1', 'חלב', { category: 'מקרר' }), item('2', 'גבינה', { category: 'מקרר', done: true })], notDoneCount: 1 },
+    { title: 'מאפייה', data: [item('3', 'לחם', { category: 'מאפייה', note: 'בלי חלב' })], notDoneCount: 1 },
+  ];
+  expect(filterSections(sections, NO_FILTER)).toBe(sections);
+  const byText = filterSections(sections, { ...NO_FILTER, query: 'חלב' });
+  expect(byText.map(s => s.data.map(i => i.id))).toEqual([['1'], ['3']]);
+  const done = filterSections(sections, { ...NO_FILTER, status: 'done' });
+  expect(done).toEqual([{ ...sections[0], data: [sections[0].data[1]], notDoneCount: 0 }]);
+  expect(filterSections(sections, { ...NO_FILTER, categories: ['מאפייה'] }).map(s => s.title)).toEqual(['מאפייה']);
+});
+
+it('round-trips the filter through route params, leaving unused parts out', () => {
+  const filter = { query: 'חלב', status: 'open', categories: ['מקרר', 'מאפייה'] };
+  expect(filterFromParams(filterToParams(filter))).toEqual(filter);
+  expect(filterToParams(NO_FILTER)).toEqual({ q: undefined, status: undefined, categories: undefined });
+  expect(filterFromParams({ status: 'bogus' })).toEqual(NO_FILTER);
+});
+
+it('keeps category names with commas or percent signs whole', () => {
+  const filter = { ...NO_FILTER, categories: ['פירות, ירקות', '100% מיץ'] };
+  expect(filterFromParams(filterToParams(filter))).toEqual(filter);
+  expect(filterFromParams({ categories: 'מקרר,50%' }).categories).toEqual(['מקרר', '50%']);
+});
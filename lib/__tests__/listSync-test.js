@@ -0,0 +1,222 @@
+import { applyQueue, enqueue, loadSyncState, restoreItems, syncList } from '../listSync';
+import { readJSON } from '../storage';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const milk = { id: '1', name: 'חלב', quantity: 1, category: 'מקרר', done: false };
+
+function queueOf(server, ...mutations) {
+  return mutations.reduce((q, m) => enqueue(q, m, server), []);
+}
+
+function mockServer(items) {
+  const calls = [];
+  global.fetch = jest.fn(async (url, init) => {
+    const path = url.replace(/^.*\/api\/list/, '');
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    let data = Object.fromEntries(items.map(i => [i.id, i]));
+    if (path === '/batch') {
+      calls.push(...body.operations);
+      data = { results: body.operations.map((_, index) => ({ index, ok: true })) };
+    }
+    return { ok: true, status: 200, text: async () => JSON.stringify(data) };
+  });
+  return calls;
+}
+
+it('folds quantity changes on an offline-added item into the add', () => {
+  const q = queueOf([], { kind: 'add', itemId: 'local-1', name: 'לחם', quantity: 1, category: 'מאפייה' });
+  const next = enqueue(q, { kind: 'quantity', itemId: 'local-1', delta: 2 }, []);
+  expect(next).toHaveLength(1);
+  expect(applyQueue([], next)[0]).toMatchObject({ name: 'לחם', quantity: 3 });
+  expect(enqueue(next, { kind: 'remove', itemId: 'local-1' }, [])).toEqual([]);
+});
+
+it('folds edits of an offline-added item into the add and cancels edits back to the server value', () => {
+  const q = queueOf([], { kind: 'add', itemId: 'local-1', name: 'לחם', quantity: 1, category: 'מאפייה' });
+  const added = enqueue(q, { kind: 'edit', itemId: 'local-1', changes: { name: 'לחם מלא', note: 'פרוס' } }, []);
+  expect(added).toHaveLength(1);
+  expect(applyQueue([], added)[0]).toMatchObject({ name: 'לחם מלא', note: 'פרוס' });
+
+  const edited = queueOf([milk], { kind: 'edit', itemId: '1', changes: { unit: 'ליטר', note: '3%' } });
+  expect(applyQueue([milk], edited)[0]).toMatchObject({ unit: 'ליטר', note: '3%' });
+  expect(enqueue(edited, { kind: 'edit', itemId: '1', changes: { unit: '', note: '' } }, [milk])).toEqual([]);
+});
+
+it('undoes an edit by restoring the name and note', () => {
+  const server = [{ ...milk, note: '3%' }];
+  const q = queueOf(server, { kind: 'edit', itemId: '1', changes: { name: 'חלב סויה', note: '' } });
+  const restored = restoreItems(q, server, server);
+  expect(applyQueue(server, restored)[0]).toMatchObject({ name: 'חלב', note: '3%' });
+});
+
+it('cancels a done toggle that returns to the server value', () => {
+  const q = queueOf([milk], { kind: 'done', itemId: '1', done: true }, { kind: 'done', itemId: '1', done: false });
+  expect(q).toEqual([]);
+});
+
+it('sends quantity changes as deltas on top of changes made elsewhere', async () => {
+  const q = queueOf([milk], { kind: 'quantity', itemId: '1', delta: 1 }, { kind: 'quantity', itemId: '1', delta: 1 });
+  expect(q).toHaveLength(1);
+  expect(enqueue(q, { kind: 'quantity', itemId: '1', delta: -2 }, [milk])).toEqual([]);
+  expect(applyQueue([{ ...milk, quantity: 2 }], q)[0].quantity).toBe(4);
+  const calls = mockServer([{ ...milk, quantity: 2 }]);
+  const result = await syncList('default', q);
+  expect(calls).toEqual([{ op: 'quantity', itemID: '1', delta: 2, quantity: 4 }]);
+  expect(result.conflicts).toEqual([]);
+  expect(result.queue).toEqual([]);
+});
+
+it('resolves a change again when the item moved on to another revision meanwhile', async () => {
+  const server = [{ ...milk, rev: 1 }];
+  const q = queueOf(server, { kind: 'edit', itemId: '1', changes: { note: '3%' } });
+  const sent = [];
+  let item = { ...milk, rev: 1 };
+  let fetches = 0;
+  global.fetch = jest.fn(async (url, init) => {
+    let data;
+    if (url.endsWith('/batch')) {
+      const [operation] = JSON.parse(String(init.body)).operations;
+      sent.push(operation.rev);
+      const stale = operation.rev !== item.rev;
+      if (!stale) item = { ...item, note: operation.note, rev: item.rev + 1 };
+      data = { results: [stale ? { index: 0, ok: false, error: 'הפריט השתנה ממכשיר אחר', stale } : { index: 0, ok: true }] };
+    } else {
+      data = { 1: item };
+      // Another device renames the item right after our first fetch
+      if (++fetches === 1) item = { ...item, name: 'חלב סויה', rev: 2 };
+    }
+    return { ok: true, status: 200, text: async () => JSON.stringify(data) };
+  });
+
+  const result = await syncList('default', q);
+  expect(sent).toEqual([1, 2]);
+  expect(item).toMatchObject({ name: 'חלב סויה', note: '3%', rev: 3 });
+  expect(result.conflicts).toEqual([]);
+  expect(result.queue).toEqual([]);
+});
+
+it('does not send mutations for items removed elsewhere', async () => {
+  const q = queueOf([milk], { kind: 'done', itemId: '1', done: true });
+  const calls = mockServer([]);
+  const result = await syncList('default', q);
+  expect(calls).toEqual([]);
+  expect(result.conflicts[0].resolution).toBe('discarded');
+});
+
+it('undoes a removal that has not been sent by dropping it', () => {
+  const q = queueOf([milk], { kind: 'remove', itemId: '1' });
+  expect(restoreItems(q, [milk], [milk])).toEqual([]);
+});
+
+it('re-adds an already removed item with its category, quantity and done state', () => {
+  const before = { ...milk, quantity: 3, done: true };
+  const q = restoreItems([], [], [before]);
+  expect(q.map(m => m.kind)).toEqual(['add', 'done']);
+  expect(applyQueue([], q)[0]).toMatchObject({ name: 'חלב', quantity: 3, category: 'מקרר', done: true });
+});
+
+it('reports per-item batch failures and sends follow-ups of new items once they have an id', async () => {
+  const bread = { id: '2', name: 'לחם', quantity: 1, category: 'מאפייה', done: false };
+  const q = queueOf(
+    [milk, bread],
+    { kind: 'add', itemId: 'local-1', name: 'ביצים', quantity: 1, category: 'מקרר' },
+    { kind: 'done', itemId: 'local-1', done: true },
+    { kind: 'done', itemId: '1', done: true },
+    { kind: 'remove', itemId: '2' }
+  );
+  const batches = [];
+  const list = { 1: milk, 2: bread };
+  global.fetch = jest.fn(async (url, init) => {
+    let data = list;
+    if (url.endsWith('/batch')) {
+      const { operations } = JSON.parse(String(init.body));
+      batches.push(operations.map(o => o.op));
+      data = {
+        results: operations.map((o, index) => {
+          if (o.op === 'remove') return { index, ok: false, error: 'אין הרשאה' };
+          if (o.op === 'add') list[9] = { id: '9', name: o.item, quantity: 1, category: 'מקרר', done: false };
+          return { index, ok: true, item: o.op === 'add' ? list[9] : undefined };
+        }),
+      };
+    }
+    return { ok: true, status: 200, text: async () => JSON.stringify(data) };
+  });
+
+  const result = await syncList('default', q);
+  expect(batches).toEqual([['add', 'done', 'remove'], ['done']]);
+  expect(result.applied).toBe(3);
+  expect(result.idMap).toEqual({ 'local-1': '9' });
+  expect(result.conflicts).toEqual([{ itemName: 'לחם', resolution: 'discarded', reason: 'אין הרשאה' }]);
+  expect(result.queue).toEqual([]);
+});
+
+it('sends a batch the server refuses as a whole one mutation at a time', async () => {
+  const bread = { id: '2', name: 'לחם', quantity: 1, category: 'מאפייה', done: false };
+  const q = queueOf([milk, bread], { kind: 'done', itemId: '1', done: true }, { kind: 'remove', itemId: '2' });
+  const paths = [];
+  global.fetch = jest.fn(async url => {
+    const path = url.replace(/^.*\/api\/list/, '').replace(/\?.*$/, '');
+    paths.push(path);
+    if (path === '/batch') return { ok: false, status: 400, text: async () => JSON.stringify({ error: 'בקשה לא תקינה' }) };
+    if (path === '/remove') return { ok: false, status: 422, text: async () => JSON.stringify({ error: 'אין הרשאה' }) };
+    return { ok: true, status: 200, text: async () => JSON.stringify(path === '' ? { 1: milk, 2: bread } : {}) };
+  });
+
+  const result = await syncList('default', q);
+  expect(paths.filter(p => p !== '')).toEqual(['/batch', '/done', '/remove']);
+  expect(result.applied).toBe(1);
+  expect(result.conflicts).toEqual([{ itemName: 'לחם', resolution: 'discarded', reason: 'אין הרשאה' }]);
+  expect(result.queue).toEqual([]);
+});
+
+it('keeps batching after a 404 for the list itself', async () => {
+  const paths = [];
+  global.fetch = jest.fn(async url => {
+    const path = url.replace(/^.*\/api\/list/, '').replace(/\?.*$/, '');
+    paths.push(path);
+    if (path === '/batch') return { ok: false, status: 404, text: async () => JSON.stringify({ error: 'הרשימה לא נמצאה' }) };
+    return { ok: true, status: 200, text: async () => JSON.stringify(path === '' ? { 1: milk } : {}) };
+  });
+  const q = queueOf([milk], { kind: 'done', itemId: '1', done: true });
+  await syncList('gone', q);
+  await syncList('gone', q);
+  expect(paths.filter(p => p !== '')).toEqual(['/batch', '/done', '/batch', '/done']);
+});
+
+it('settles an unreadable batch reply against the refetched list', async () => {
+  const bread = { id: '2', name: 'לחם', quantity: 1, category: 'מאפייה', done: false };
+  const q = queueOf([milk, bread], { kind: 'done', itemId: '1', done: true }, { kind: 'remove', itemId: '2' });
+  const list = { 1: milk, 2: bread };
+  const batches = [];
+  global.fetch = jest.fn(async (url, init) => {
+    if (!url.includes('/batch')) return { ok: true, status: 200, text: async () => JSON.stringify(list) };
+    const { operations } = JSON.parse(String(init.body));
+    batches.push(operations.map(o => o.op));
+    if (batches.length === 1) {
+      // Only the done got through before the reply broke
+      list[1] = { ...milk, done: true };
+      return { ok: true, status: 200, text: async () => '{"results": [' };
+    }
+    delete list[2];
+    return { ok: true, status: 200, text: async () => JSON.stringify({ results: operations.map((_, index) => ({ index, ok: true })) }) };
+  });
+
+  const result = await syncList('default', q);
+  expect(batches).toEqual([['done', 'remove'], ['remove']]);
+  expect(result.applied).toBe(2);
+  expect(result.conflicts).toEqual([]);
+  expect(result.queue).toEqual([]);
+});
+
+it('turns a stored quantity change from before deltas into a delta', async () => {
+  const legacy = { kind: 'quantity', itemId: '1', quantity: 4, mid: 'm1', queuedAt: 0, base: milk };
+  readJSON.mockImplementation(async (key, fallback) => (key.includes('queue') ? [legacy] : fallback));
+  const { queue } = await loadSyncState('default');
+  readJSON.mockImplementation(async (_key, fallback) => fallback);
+  expect(queue).toEqual([{ kind: 'quantity', itemId: '1', delta: 3, mid: 'm1', queuedAt: 0, base: milk }]);
+});
@@ -0,0 +1,39 @@
+import { formatListText, parseSharedList, planImport } from '../listText';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const items = [
+  { id: '1', name: 'חלב 3%', quantity: 2, category: 'מוצרי חלב', done: false },
+  { id: '2', name: 'עגבניות', quantity: 1.5, unit: 'ק״ג', category: 'ירקות', done: false },
+  { id: '3', name: 'לחם', quantity: 1, category: 'מאפייה', done: true },
+];
+
+it('formats the list grouped by category in aisle order', () => {
+  expect(formatListText(items, { format: 'plain', title: 'קניות', categoryOrder: ['ירקות'] })).toBe(
+    '🛒 קניות\n\nירקות:\n- עגבניות 1.5 ק״ג\n\nמוצרי חלב:\n- חלב 3% ×2'
+  );
+  expect(formatListText(items, { format: 'checklist' })).toContain('☑ לחם');
+  expect(formatListText(items, { format: 'whatsapp' })).toContain('*מוצרי חלב*\n• חלב 3% ×2');
+});
+
+it('reads every export format back', () => {
+  for (const format of ['plain', 'whatsapp', 'checklist']) {
+    const parsed = parseSharedList(formatListText(items, { format, title: 'קניות' }));
+    expect(parsed).toEqual([
+      { name: 'עגבניות', quantity: 1.5, unit: 'ק״ג', category: 'ירקות' },
+      { name: 'חלב 3%', quantity: 2, category: 'מוצרי חלב' },
+    ]);
+  }
+});
+
+it('merges duplicates in the text and with open items', () => {
+  const entries = parseSharedList('חלב 3%\nבמבה, 2 במבה\n~קפה~');
+  expect(entries).toEqual([{ name: 'חלב 3%', quantity: 1 }, { name: 'במבה', quantity: 3 }]);
+  const plan = planImport(entries, items);
+  expect(plan.bumps).toEqual([{ item: items[0], quantity: 3 }]);
+  expect(plan.adds.map(e => e.name)).toEqual(['במבה']);
+});
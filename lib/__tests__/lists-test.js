@@ -0,0 +1,53 @@
+import { fallbackList, queueMoveTo, undoMoveTo } from '../lists';
+import { writeJSON } from '../storage';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (key, fallback) =>
+    key === 'list.server.pharmacy' ? [{ id: '101', name: 'אקמול', quantity: 1, category: 'תרופות', done: false }] : fallback
+  ),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+beforeEach(() => {
+  global.fetch = jest.fn(async () => { throw new TypeError('Network request failed'); });
+});
+
+const list = (id, archived = false) => ({ id, name: id, archived, createdAt: 0, itemCount: 0 });
+
+it('falls back to the first open list when the saved one is gone', () => {
+  const lists = [list('old', true), list('weekly'), list('pharmacy')];
+  expect(fallbackList(lists, 'pharmacy')).toBe('pharmacy');
+  expect(fallbackList(lists, 'deleted')).toBe('weekly');
+  expect(fallbackList([], 'deleted')).toBe('default');
+});
+
+it('queues moved items on the target list and adds to ones it already has', async () => {
+  const moved = await queueMoveTo('pharmacy', [
+    { id: '5', name: 'אקמול', quantity: 2, category: 'תרופות', done: false },
+    { id: '6', name: 'ויטמין D', quantity: 1, unit: 'אריזה', category: 'תרופות', done: true },
+  ]);
+  expect(moved.added.map(a => a.name)).toEqual(['ויטמין D']);
+  expect(moved.merged).toEqual([{ itemId: '101', delta: 2 }]);
+  const saved = writeJSON.mock.calls.find(([key]) => key === 'list.queue.pharmacy')[1];
+  expect(saved.map(m => m.kind)).toEqual(['quantity', 'add', 'done']);
+  expect(saved[0]).toMatchObject({ itemId: '101', delta: 2 });
+  expect(saved[1]).toMatchObject({ name: 'ויטמין D', unit: 'אריזה', category: 'תרופות' });
+});
+
+it('keeps the note and product link of a moved item', async () => {
+  writeJSON.mockClear();
+  await queueMoveTo('pharmacy', [
+    { id: '7', name: 'משחת שיניים', quantity: 1, category: 'טיפוח', done: false, note: 'בלי פלואור', barcode: '7290000000017' },
+  ]);
+  const saved = writeJSON.mock.calls.find(([key]) => key === 'list.queue.pharmacy')[1];
+  expect(saved[0]).toMatchObject({ kind: 'add', note: 'בלי פלואור', barcode: '7290000000017' });
+});
+
+it('undoes a move on the target list, finding synced adds by name', async () => {
+  const lastQueue = () => writeJSON.mock.calls.filter(([key]) => key === 'list.queue.pharmacy').pop()[1];
+  await undoMoveTo('pharmacy', { added: [{ itemId: 'local-1', name: 'אקמול' }], merged: [] });
+  expect(lastQueue()).toEqual([expect.objectContaining({ kind: 'remove', itemId: '101' })]);
+  await undoMoveTo('pharmacy', { added: [], merged: [{ itemId: '101', delta: 2 }] });
+  expect(lastQueue()).toEqual([expect.objectContaining({ kind: 'quantity', itemId: '101', delta: -2 })]);
+});
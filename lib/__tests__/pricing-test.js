@@ -0,0 +1,37 @@
+import { activeDeal, quotePrice } from '../pricing';
+
+const now = new Date('2025-06-10T12:00:00');
+
+function item(price, promo) {
+  return { ItemCode: '1', ItemName: 'יוגורט', ItemPrice: price, promo };
+}
+
+it('charges the shelf price below the multi-buy threshold', () => {
+  const yogurt = item('7.90', { DiscountedPrice: '20', MinQty: '3', PromotionEndDate: '2025-06-30' });
+  expect(quotePrice(yogurt, 2, now).total).toBeCloseTo(15.8);
+  expect(quotePrice(yogurt, 2, now).promoApplied).toBe(false);
+});
+
+it('applies "3 for 20" per full bundle and shelf price for the rest', () => {
+  const yogurt = item('7.90', { DiscountedPrice: '20', MinQty: '3', PromotionEndDate: '2025-06-30' });
+  const quote = quotePrice(yogurt, 4, now);
+  expect(quote.total).toBeCloseTo(27.9);
+  expect(quote.promoApplied).toBe(true);
+  expect(activeDeal(yogurt, now)).toEqual({ minQty: 3, total: 20, unitPrice: 20 / 3 });
+});
+
+it('reads a small multi-buy DiscountedPrice as a per-unit price', () => {
+  const yogurt = item('7.90', { DiscountedPrice: '5', MinQty: '2' });
+  expect(quotePrice(yogurt, 2, now).total).toBeCloseTo(10);
+});
+
+it('ignores expired promotions', () => {
+  const milk = item(6.5, { DiscountedPrice: 5, MinQty: 1, PromotionEndDate: '2025-06-09' });
+  expect(quotePrice(milk, 1, now).total).toBe(6.5);
+  expect(activeDeal(milk, now)).toBeNull();
+});
+
+it('keeps a promotion running until the end of its last day', () => {
+  const milk = item(6.5, { DiscountedPrice: 5, MinQty: 1, PromotionEndDate: '2025-06-10' });
+  expect(quotePrice(milk, 2, now).total).toBe(10);
+});
@@ -0,0 +1,31 @@
+import { exactProduct, searchProducts, suggestProduct } from '../productLink';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const products = Object.fromEntries(
+  [
+    { barcode: '7290000042435', name: 'חלב 3% תנובה 1 ליטר', brand: 'תנובה' },
+    { barcode: '7290004131074', name: 'גבינה לבנה 5% תנובה', brand: 'תנובה' },
+    { barcode: '7290000068015', name: 'במבה אסם', brand: 'אסם' },
+    { barcode: '7290006486011', name: 'פסטה ספגטי אסם', brand: 'אסם' },
+  ].map(p => [p.barcode, p])
+);
+
+it('searches the catalogue by name, brand or the start of a barcode', () => {
+  expect(searchProducts('במבה', products).map(p => p.barcode)).toEqual(['7290000068015']);
+  expect(searchProducts('אסם', products)).toHaveLength(2);
+  expect(searchProducts('7290004', products).map(p => p.name)).toEqual(['גבינה לבנה 5% תנובה']);
+  expect(searchProducts('  ', products)).toEqual([]);
+});
+
+it('suggests a product only when one clearly fits the item name', () => {
+  expect(suggestProduct('חלב', products)?.barcode).toBe('7290000042435');
+  expect(suggestProduct('תנובה', products)).toBeUndefined();
+  expect(suggestProduct('אורז', products)).toBeUndefined();
+  expect(exactProduct('במבה אסם', products)?.barcode).toBe('7290000068015');
+  expect(exactProduct('במבה', products)).toBeUndefined();
+});
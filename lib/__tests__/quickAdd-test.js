@@ -0,0 +1,28 @@
+import { parseQuantity, parseQuickAdd, parseQuickAddList } from '../quickAdd';
+
+it('reads quantity and unit from Hebrew and English lines', () => {
+  expect(parseQuickAdd('3 חלב 3%')).toEqual({ name: 'חלב 3%', quantity: 3 });
+  expect(parseQuickAdd('2 ק״ג עגבניות')).toEqual({ name: 'עגבניות', quantity: 2, unit: 'ק״ג' });
+  expect(parseQuickAdd('עגבניות 1,5 ק"ג')).toEqual({ name: 'עגבניות', quantity: 1.5, unit: 'ק״ג' });
+  expect(parseQuickAdd('bread x2')).toEqual({ name: 'bread', quantity: 2 });
+  expect(parseQuickAdd('שתי חבילות במבה')).toEqual({ name: 'במבה', quantity: 2, unit: 'חבילה' });
+  expect(parseQuickAdd('ביצים L 12')).toEqual({ name: 'ביצים L 12', quantity: 1 });
+  expect(parseQuickAdd('   ')).toBeNull();
+});
+
+it('splits a pasted list and adds up repeated items', () => {
+  expect(parseQuickAddList('1. לחם\n- 2 חלב\nחלב, 1,5 ק״ג בננות')).toEqual([
+    { name: 'לחם', quantity: 1 },
+    { name: 'חלב', quantity: 3 },
+    { name: 'בננות', quantity: 1.5, unit: 'ק״ג' },
+  ]);
+});
+
+it('refuses quantities below one step of the unit', () => {
+  expect(parseQuantity('0.5')).toBeNull();
+  expect(parseQuantity('abc')).toBeNull();
+  expect(parseQuantity('')).toBeNull();
+  expect(parseQuantity('0,5', 'ק״ג')).toBe(0.5);
+  expect(parseQuickAdd('0.5 לחם')).toEqual({ name: 'לחם', quantity: 1 });
+  expect(parseQuickAdd('0.5 ק״ג עגבניות')).toEqual({ name: 'עגבניות', quantity: 0.5, unit: 'ק״ג' });
+});
@@ -0,0 +1,65 @@
+import { applyReconciliation, lineMatchScore, reconcileReceipt, toMutations } from '../reconcile';
+import { writeJSON } from '../storage';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const item = (id, name, quantity = 1, extra = {}) => ({ id, name, quantity, category: 'כללי', done: false, ...extra });
+const line = (barcode, name, quantity = 1) => ({ barcode, name, quantity, price: 5 });
+
+it('matches list names inside longer receipt names', () => {
+  expect(lineMatchScore('חלב', 'חלב 3% תנובה 1 ליטר')).toBeGreaterThan(0);
+  expect(lineMatchScore('עגבניות', 'עגבניה שרי')).toBeGreaterThan(0);
+  expect(lineMatchScore('חלב', 'גבינה לבנה 5% תנובה')).toBe(0);
+  expect(lineMatchScore('לחם', 'לחם אחיד')).toBeGreaterThan(lineMatchScore('לחם', 'פירורי לחם'));
+});
+
+it('marks bought items done, reduces partial ones and lists the forgotten', () => {
+  const items = [item('1', 'חלב 3%', 2), item('2', 'במבה', 3), item('3', 'ביצים'), item('4', 'קפה', 1, { done: true })];
+  const result = reconcileReceipt(items, [
+    line('a', 'חלב 3% תנובה 1 ליטר'),
+    line('a', 'חלב 3% תנובה 1 ליטר'),
+    line('b', 'במבה אסם', 1),
+    line('c', 'שמן זית כתית מעולה'),
+  ]);
+  expect(result.actions.map(a => [a.item.id, a.kind])).toEqual([['1', 'done'], ['2', 'reduce']]);
+  expect(result.forgotten.map(i => i.id)).toEqual(['3']);
+  expect(result.extras.map(l => l.barcode)).toEqual(['c']);
+  expect(toMutations(result.actions)).toEqual([
+    { kind: 'done', itemId: '1', done: true },
+    { kind: 'quantity', itemId: '2', delta: -1 },
+  ]);
+});
+
+it('does not call everything forgotten when the receipt is from another shop', () => {
+  const result = reconcileReceipt([item('1', 'חלב')], [line('x', 'אקמול 20 טבליות')]);
+  expect(result).toMatchObject({ actions: [], forgotten: [] });
+});
+
+it('matches items linked to a product by barcode before names', () => {
+  const items = [item('1', 'חלב', 1, { barcode: 'soy' }), item('2', 'חלב 3%')];
+  const result = reconcileReceipt(items, [line('cow', 'חלב 3% תנובה 1 ליטר'), line('soy', 'משקה סויה אלפרו')]);
+  expect(result.actions.map(a => [a.item.id, a.line.barcode])).toEqual([['1', 'soy'], ['2', 'cow']]);
+});
+
+it('applies the receipt through the list queue', async () => {
+  const milk = item('1', 'חלב', 2);
+  const sent = [];
+  global.fetch = jest.fn(async (url, init) => {
+    let data = { 1: milk };
+    if (url.includes('/batch')) {
+      const { operations } = JSON.parse(String(init.body));
+      sent.push(...operations.map(o => o.op));
+      data = { results: operations.map((_, index) => ({ index, ok: true })) };
+    }
+    return { ok: true, status: 200, text: async () => JSON.stringify(data) };
+  });
+  const failed = await applyReconciliation('default', [{ kind: 'done', item: milk, line: line('a', 'חלב 3%') }]);
+  expect(failed).toBe(0);
+  expect(sent).toEqual(['done']);
+  const queued = writeJSON.mock.calls.find(([key]) => key.startsWith('list.queue'))[1];
+  expect(queued).toEqual([expect.objectContaining({ kind: 'done', itemId: '1', done: true })]);
+});
@@ -0,0 +1,22 @@
+import { bulkMutations, remapSelection } from '../selection';
+
+const item = (id, extra = {}) => ({ id, name: `פריט ${id}`, quantity: 1, category: 'כללי', done: false, ...extra });
+
+it('builds one mutation per selected item, skipping items already in that state', () => {
+  const items = [item('1'), item('2', { done: true, quantity: 3, category: 'מקרר' })];
+  expect(bulkMutations(items, { kind: 'done', done: true })).toEqual([{ kind: 'done', itemId: '1', done: true }]);
+  expect(bulkMutations(items, { kind: 'remove' }).map(m => m.itemId)).toEqual(['1', '2']);
+  expect(bulkMutations(items, { kind: 'category', category: 'מקרר' })).toEqual([
+    { kind: 'edit', itemId: '1', changes: { category: 'מקרר' } },
+  ]);
+  expect(bulkMutations(items, { kind: 'quantity', quantity: 2 })).toEqual([
+    { kind: 'quantity', itemId: '1', delta: 1 },
+    { kind: 'quantity', itemId: '2', delta: -1 },
+  ]);
+});
+
+it('follows offline-added items to their server ids', () => {
+  const selected = new Set(['local-1', 'a']);
+  expect([...remapSelection(selected, { 'local-1': 'b' })]).toEqual(['b', 'a']);
+  expect(remapSelection(selected, { 'local-9': 'c' })).toBe(selected);
+});
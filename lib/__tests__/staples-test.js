@@ -0,0 +1,53 @@
+import { estimateCadence, findRunningOut } from '../staples';
+
+jest.mock('../storage', () => ({
+  readJSON: jest.fn(async (_key, fallback) => fallback),
+  writeJSON: jest.fn(async () => {}),
+  removeKey: jest.fn(async () => {}),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse('2026-03-31T12:00:00Z');
+const daysAgo = days => new Date(now - days * DAY).toISOString();
+
+// Milk every week, the last carton six days ago
+const milk = {
+  barcode: '729000000001',
+  name: 'חלב 3%',
+  history: [27, 20, 13, 6].map(d => ({ date: daysAgo(d), price: 6.9, quantity: 1 })),
+};
+
+it('learns the interval per unit so stocking up does not look slow', () => {
+  const cadence = estimateCadence({
+    barcode: '1',
+    name: 'נייר טואלט',
+    history: [
+      { date: daysAgo(40), price: 30, quantity: 1 },
+      { date: daysAgo(30), price: 30, quantity: 2 },
+      { date: daysAgo(10), price: 30, quantity: 1 },
+      { date: daysAgo(10), price: 30, quantity: 1 },
+    ],
+  });
+  // 10 days per pack, and two packs were bought last time
+  expect(cadence).toMatchObject({ purchases: 3, lastQuantity: 2 });
+  expect(cadence.intervalDays).toBeCloseTo(20);
+});
+
+it('needs enough purchases and a short enough interval', () => {
+  const twice = { ...milk, history: milk.history.slice(0, 2) };
+  expect(estimateCadence(twice)).toBeNull();
+  expect(estimateCadence(milk, { dueRatio: 0.85, minPurchases: 3, maxIntervalDays: 5, snoozeDays: 7 })).toBeNull();
+});
+
+it('flags staples that are due unless they are listed or snoozed', () => {
+  expect(findRunningOut([milk], { now })).toEqual([expect.objectContaining({ name: 'חלב 3%', daysLeft: 1 })]);
+  expect(findRunningOut([milk], { now, onList: [{ name: 'חלב 3%' }] })).toEqual([]);
+  expect(findRunningOut([milk], { now, snoozes: { [milk.barcode]: now + DAY } })).toEqual([]);
+  expect(findRunningOut([milk], { now: now - 3 * DAY })).toEqual([]);
+});
+
+it('counts a staple as listed when the list links its product or names it more loosely', () => {
+  expect(findRunningOut([milk], { now, onList: [{ name: 'חלב' }] })).toEqual([]);
+  expect(findRunningOut([milk], { now, onList: [{ name: 'מוצרי חלב לבית', barcode: milk.barcode }] })).toEqual([]);
+  expect(findRunningOut([milk], { now, onList: [{ name: 'לחם' }] })).toHaveLength(1);
+});
@@ -0,0 +1,87 @@
+import {
+  archiveCleared,
+  cartItems,
+  cartTotal,
+  findTripReceipt,
+  finishTrip,
+  forgetTrip,
+  formatElapsed,
+  loadTripHistory,
+  priceCart,
+  tripEntries,
+} from '../trip';
+
+jest.mock('../storage', () => {
+  const data = {};
+  return {
+    readJSON: jest.fn(async (key, fallback) => (key in data ? data[key] : fallback)),
+    writeJSON: jest.fn(async (key, value) => { data[key] = value; }),
+    removeKey: jest.fn(async key => { delete data[key]; }),
+  };
+});
+
+const store = { StoreId: '1', StoreName: 'סניף מרכז', City: 'תל אביב', Address: '', brandName: 'shufersal' };
+const item = (id, name, extra = {}) => ({ id, name, quantity: 1, category: 'כללי', done: false, ...extra });
+const offer = (code, name, price) => ({
+  ItemCode: code,
+  ItemName: name,
+  Offers: [{ item: { ItemCode: code, ItemName: name, ItemPrice: price }, supermarket: 'Shufersal', branch: 'סניף מרכז' }],
+});
+
+const trip = { id: 'trip-1', listId: 'default', store, startedAt: 0, doneAtStart: ['old'] };
+
+it('puts only what was checked during the trip in the cart and prices it at the store', () => {
+  const items = [
+    item('old', 'קפה', { done: true }),
+    item('1', 'חלב', { done: true, quantity: 2 }),
+    item('2', 'ספוג כלים', { done: true }),
+    item('3', 'לחם'),
+  ];
+  const cart = cartItems(trip, items);
+  expect(cart.map(i => i.id)).toEqual(['1', '2']);
+  const lines = priceCart(cart, [offer('7290000042435', 'חלב 3% תנובה', '6.5')], store);
+  expect(lines).toEqual([
+    { itemId: '1', name: 'חלב', quantity: 2, category: 'כללי', price: 13 },
+    { itemId: '2', name: 'ספוג כלים', quantity: 1, category: 'כללי' },
+  ]);
+  expect(cartTotal(lines)).toBe(13);
+  expect(priceCart(cart, null, store).every(line => line.price === undefined)).toBe(true);
+});
+
+it('files a summary of the finished trip', async () => {
+  const items = [item('1', 'חלב', { done: true }), item('3', 'לחם')];
+  const lines = [{ itemId: '1', name: 'חלב', quantity: 1, price: 6.5 }];
+  const summary = await finishTrip(trip, { listName: 'הבית', lines, items, now: 125000 });
+  expect(summary).toMatchObject({ estimatedTotal: 6.5, leftBehind: ['לחם'], endedAt: 125000 });
+  expect(await loadTripHistory()).toEqual([summary]);
+  expect(formatElapsed(summary.endedAt - summary.startedAt)).toBe('02:05');
+  expect(formatElapsed(3723000)).toBe('1:02:03');
+});
+
+it('archives cleared items once, skipping those a trip already filed', async () => {
+  const items = [item('1', 'חלב', { done: true }), item('4', 'ביצים', { done: true, quantity: 12, category: 'מוצרי חלב' })];
+  const summary = await archiveCleared({ listId: 'default', listName: 'הבית', items, store: null, now: 200000 });
+  expect(summary).toMatchObject({ store: null, estimatedTotal: 0 });
+  expect(summary.lines.map(line => line.itemId)).toEqual(['4']);
+  expect(tripEntries(summary.lines)).toEqual([{ name: 'ביצים', quantity: 12, category: 'מוצרי חלב' }]);
+  expect(await archiveCleared({ listId: 'default', listName: 'הבית', items, store: null, now: 300000 })).toBeNull();
+  expect((await loadTripHistory()).map(t => t.id)).toEqual(['trip-200000', 'trip-1']);
+  await forgetTrip('trip-200000');
+  expect((await loadTripHistory()).map(t => t.id)).toEqual(['trip-1']);
+});
+
+it('links a trip to the receipt from its chain closest to when it ended', () => {
+  const hour = 60 * 60 * 1000;
+  const ended = Date.parse('2026-03-01T10:00:00Z');
+  const summary = { id: 'trip-2', store: { ...store, brandName: 'osherad' }, startedAt: ended - hour, endedAt: ended, lines: [] };
+  const receipt = (file, company, at) => ({ file, company, city: '', total: 100, createdDate: new Date(at).toISOString() });
+  const receipts = [
+    receipt('a', 'אושר עד בע"מ', ended + 5 * hour),
+    receipt('b', 'אושר עד בע"מ', ended + hour),
+    receipt('c', 'יוחננוף', ended),
+    receipt('d', 'אושר עד בע"מ', ended + 2 * 24 * hour),
+  ];
+  expect(findTripReceipt(summary, receipts).file).toBe('b');
+  expect(findTripReceipt(summary, [receipts[2], receipts[3]])).toBeUndefined();
+  expect(findTripReceipt({ ...summary, store: null }, receipts).file).toBe('c');
+});
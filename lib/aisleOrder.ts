@@ -0,0 +1,74 @@
+import { api } from "./api";
+import { readJSON, writeJSON } from "./storage";
+import type { AisleOrder, AisleOrders, Store } from "./types";
+
+// ---------- Storage Keys ----------
+const ORDERS_KEY = "aisles.orders";
+const ACTIVE_STORE_KEY = "aisles.activeStore";
+
+// ---------- Sorting ----------
+// Sorts category titles by a store's walk order. Categories the order doesn't
+// know yet go last, alphabetically.
+export function sortCategories(titles: string[], order?: string[]): string[] {
+  const position = new Map((order ?? []).map((title, i) => [title, i]));
+  return [...titles].sort((a, b) => {
+    const pa = position.get(a);
+    const pb = position.get(b);
+    if (pa !== undefined && pb !== undefined) return pa - pb;
+    if (pa !== undefined) return -1;
+    if (pb !== undefined) return 1;
+    return a.localeCompare(b);
+  });
+}
+
+// Moves one entry of `list` to another index
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+}
+
+// Per store, whichever side changed the order last wins
+export function mergeOrders(local: AisleOrders, remote: AisleOrders): AisleOrders {
+  const merged: AisleOrders = { ...remote };
+  for (const [store, order] of Object.entries(local)) {
+    if (!merged[store] || order.updatedAt > merged[store].updatedAt) merged[store] = order;
+  }
+  return merged;
+}
+
+// ---------- Persistence ----------
+export function loadAisleOrders() {
+  return readJSON<AisleOrders>(ORDERS_KEY, {});
+}
+
+// The store we're shopping at, or null for alphabetical order
+export function loadActiveStore() {
+  return readJSON<Store | null>(ACTIVE_STORE_KEY, null);
+}
+
+export function saveActiveStore(store: Store | null) {
+  return writeJSON(ACTIVE_STORE_KEY, store);
+}
+
+// Saves a store's order on the device right away and then pushes it to the
+// server; a failed push is retried by the next syncAisleOrders()
+export async function saveAisleOrder(orders: AisleOrders, store: string, categories: string[]): Promise<AisleOrders> {
+  const order: AisleOrder = { categories, updatedAt: Date.now() };
+  const next = { ...orders, [store]: order };
+  await writeJSON(ORDERS_KEY, next);
+  api.aisles.save(store, order).catch(e => console.warn("aisleOrder: push failed", e?.message));
+  return next;
+}
+
+// Merges the server's orders with ours and pushes the ones the server is missing
+// or has older copies of
+export async function syncAisleOrders(local: AisleOrders): Promise<AisleOrders> {
+  const remote = await api.aisles.get();
+  const merged = mergeOrders(local, remote);
+  await writeJSON(ORDERS_KEY, merged);
+  const stale = Object.entries(merged).filter(([store, order]) => (remote[store]?.updatedAt ?? -1) < order.updatedAt);
+  await Promise.all(stale.map(([store, order]) => api.aisles.save(store, order)));
+  return merged;
+}
@@ -0,0 +1,274 @@
+import {
+  aisleOrdersSchema,
+  listBatchSchema,
+  listResponseSchema,
+  pricesSchema,
+  productsSchema,
+  productStatsSchema,
+  receiptDetailsSchema,
+  receiptsSchema,
+  settingsSchema,
+  shoppingListSchema,
+  shoppingListsSchema,
+  statsSchema,
+} from "./apiSchemas";
+import { formatIssues, Schema, SchemaIssue, validate } from "./schema";
+import { readJSON, removeKey, writeJSON } from "./storage";
+import type { AisleOrder, ItemChanges } from "./types";
+import Constants from "expo-constants";
+
+// ---------- Server URL ----------
+// EXPO_PUBLIC_API_URL changes the default (e.g. to the local mock server);
+// a URL saved in Settings overrides both.
+export const DEFAULT_SERVER_URL = process.env.EXPO_PUBLIC_API_URL || "https://zenlist.hack-ops.net";
+const SERVER_URL_KEY = "settings.serverUrl";
+
+let serverUrl = DEFAULT_SERVER_URL;
+const ready = readJSON<string | null>(SERVER_URL_KEY, null).then(saved => {
+  if (saved) serverUrl = saved;
+});
+
+function normalizeServerUrl(url: string) {
+  return url.trim().replace(/\/+$/, "").replace(/\/api$/, "");
+}
+
+// Where `npm run mock-server` listens: the machine serving the JS bundle, port 5000
+export function localServerUrl() {
+  const host = Constants.expoConfig?.hostUri?.split(":")[0] || "localhost";
+  return `http://${host}:5000`;
+}
+
+export function isValidServerUrl(url: string) {
+  return /^https?:\/\/[^\s/]+/i.test(url.trim());
+}
+
+export async function getServerUrl() {
+  await ready;
+  return serverUrl;
+}
+
+export async function setServerUrl(url: string) {
+  await ready;
+  const next = normalizeServerUrl(url);
+  if (!isValidServerUrl(next)) throw new ApiError("כתובת שרת לא תקינה", "config");
+  serverUrl = next;
+  await writeJSON(SERVER_URL_KEY, next);
+}
+
+export async function resetServerUrl() {
+  await ready;
+  serverUrl = DEFAULT_SERVER_URL;
+  await removeKey(SERVER_URL_KEY);
+}
+
+// ---------- Errors ----------
+export type ApiErrorKind = "network" | "timeout" | "http" | "parse" | "config";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  // Raw response text, when the server sent one
+  body?: string;
+
+  constructor(message: string, kind: ApiErrorKind, status?: number, body?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.body = body;
+  }
+
+  // Worth trying again later: no connection, timeout or a server-side failure
+  get isTransient() {
+    return this.kind === "network" || this.kind === "timeout" || (this.kind === "http" && (this.status ?? 0) >= 500);
+  }
+}
+
+// ---------- Requests ----------
+type RequestOptions = {
+  method?: "GET" | "POST";
+  body?: unknown;
+  timeoutMs?: number;
+  // Extra attempts on transient failures. Defaults to 2 for GET and 0 for POST,
+  // since replaying a POST could apply a change twice.
+  retries?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const RETRY_BASE_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Extracts the `error` field servers put in JSON error bodies
+function errorMessage(status: number, body: string) {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.error === "string") return parsed.error;
+  } catch {}
+  return `HTTP ${status}`;
+}
+
+async function send(path: string, { method = "GET", body, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions): Promise<Response> {
+  const base = await getServerUrl();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let res: Response;
+  try {
+    res = await fetch(`${base}${path}`, {
+      method,
+      headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+  } catch (e: any) {
+    if (controller.signal.aborted) throw new ApiError("הבקשה לשרת ארכה יותר מדי", "timeout");
+    throw new ApiError(e?.message || "Network request failed", "network");
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new ApiError(errorMessage(res.status, text), "http", res.status, text);
+  }
+  return res;
+}
+
+async function request(path: string, options: RequestOptions = {}): Promise<Response> {
+  const retries = options.retries ?? ((options.method ?? "GET") === "GET" ? 2 : 0);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send(path, options);
+    } catch (e) {
+      if (!(e instanceof ApiError) || !e.isTransient || attempt >= retries) throw e;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    }
+  }
+}
+
+// ---------- Validation ----------
+// Explains in the dev console which fields of a response failed validation
+export function reportSchemaIssues(source: string, issues: SchemaIssue[], rejected = false) {
+  if (!__DEV__ || issues.length === 0) return;
+  const summary = rejected ? "rejected the response" : `dropped ${issues.filter(i => i.message.startsWith("dropped")).length} malformed record(s)`;
+  console.warn(`api: ${source} ${summary}\n${formatIssues(issues)}`);
+}
+
+// Parses and validates a JSON body. Malformed records inside it are dropped;
+// a body that doesn't match at all is a parse error.
+async function requestJSON<T>(path: string, schema: Schema<T>, options?: RequestOptions): Promise<T> {
+  const res = await request(path, options);
+  const text = await res.text();
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    throw new ApiError("תשובה לא תקינה מהשרת", "parse", res.status, text);
+  }
+  const result = validate(schema, data);
+  reportSchemaIssues(path, result.issues, !result.ok);
+  if (!result.ok) throw new ApiError("תשובה לא תקינה מהשרת", "parse", res.status, text);
+  return result.value;
+}
+
+// For mutations, whose response body is not used
+async function requestAck(path: string, options?: RequestOptions): Promise<void> {
+  await request(path, options);
+}
+
+async function requestText(path: string, options?: RequestOptions): Promise<string> {
+  const res = await request(path, options);
+  return res.text();
+}
+
+// ---------- Endpoints ----------
+// Wire format of one operation of POST /api/list/batch (same fields as the single routes).
+// `rev` is the item revision a change was made against; the server refuses it
+// with a stale result when the item has changed since. Quantity changes are
+// deltas and need none; `quantity` is the result for backends without deltas.
+export type ListOperation =
+  | { op: "add"; item: string; quantity: number; unit?: string; category: string; note?: string; barcode?: string }
+  | { op: "remove" | "done" | "undone"; itemID: string; rev?: number }
+  | { op: "quantity"; itemID: string; delta: number; quantity?: number }
+  | ({ op: "edit"; itemID: string; rev?: number } & ItemChanges);
+
+// Every list route takes the id of the list it works on
+export const api = {
+  list: {
+    get: (listId: string) => requestJSON(`/api/list?listId=${encodeURIComponent(listId)}`, listResponseSchema),
+    add: (
+      listId: string,
+      item: { name: string; quantity: number; unit?: string; category: string; note?: string; barcode?: string }
+    ) =>
+      requestAck("/api/list/add", {
+        method: "POST",
+        body: {
+          listId,
+          item: item.name,
+          quantity: item.quantity,
+          unit: item.unit,
+          category: item.category,
+          note: item.note,
+          barcode: item.barcode,
+          method: "manual",
+        },
+      }),
+    remove: (listId: string, itemId: string, rev?: number) =>
+      requestAck("/api/list/remove", { method: "POST", body: { listId, itemID: String(itemId), rev } }),
+    setDone: (listId: string, itemId: string, done: boolean, rev?: number) =>
+      requestAck(done ? "/api/list/done" : "/api/list/undone", { method: "POST", body: { listId, itemID: String(itemId), rev } }),
+    changeQuantity: (listId: string, itemId: string, delta: number, quantity?: number) =>
+      requestAck("/api/list/quantity", { method: "POST", body: { listId, itemID: String(itemId), delta, quantity } }),
+    // Renames, recategorizes, changes the unit or note or links a product; only the fields given change
+    edit: (listId: string, itemId: string, changes: ItemChanges, rev?: number) =>
+      requestAck("/api/list/edit", { method: "POST", body: { listId, itemID: String(itemId), rev, ...changes } }),
+    // Applies many operations in one request; every operation gets its own result
+    batch: (listId: string, operations: ListOperation[]) =>
+      requestJSON("/api/list/batch", listBatchSchema, { method: "POST", body: { listId, operations } }),
+    // Server-Sent Events stream of one list's changes
+    eventsUrl: async (listId: string) => `${await getServerUrl()}/api/list/events?listId=${encodeURIComponent(listId)}`,
+  },
+  lists: {
+    get: () => requestJSON("/api/lists", shoppingListsSchema),
+    create: (name: string) => requestJSON("/api/lists/create", shoppingListSchema, { method: "POST", body: { name } }),
+    rename: (listId: string, name: string) => requestAck("/api/lists/rename", { method: "POST", body: { listId, name } }),
+    setArchived: (listId: string, archived: boolean) =>
+      requestAck("/api/lists/archive", { method: "POST", body: { listId, archived } }),
+    remove: (listId: string) => requestAck("/api/lists/delete", { method: "POST", body: { listId } }),
+  },
+  aisles: {
+    get: () => requestJSON("/api/aisleOrder", aisleOrdersSchema),
+    save: (store: string, order: AisleOrder) =>
+      requestAck("/api/aisleOrder", { method: "POST", body: { store, ...order } }),
+  },
+  receipts: {
+    list: () => requestJSON("/api/receipts", receiptsSchema),
+    get: (receiptId: string) =>
+      requestJSON(`/api/receipts/${encodeURIComponent(receiptId)}`, receiptDetailsSchema),
+    // Imports a receipt from the link the supermarket sent by SMS
+    fetchReceipt: (url: string) =>
+      requestText("/api/fetchReceipt", { method: "POST", body: { url: String(url) }, timeoutMs: 60000 }),
+    downloadUrl: async (receiptId: string) => `${await getServerUrl()}/api/receipts/${receiptId}/download`,
+  },
+  prices: {
+    get: () => requestJSON("/api/prices", pricesSchema, { timeoutMs: 30000 }),
+  },
+  products: {
+    get: () => requestJSON("/api/products", productsSchema),
+  },
+  stats: {
+    get: () => requestJSON("/api/stats", statsSchema),
+    product: (barcode: string) => requestJSON(`/api/stats/${encodeURIComponent(barcode)}`, productStatsSchema),
+  },
+  settings: {
+    get: () => requestJSON("/api/generalSettings", settingsSchema),
+    updateLikedStore: (storeId: string, brandName: string, action: "add" | "remove") =>
+      requestAck(`/api/generalSettings/${action}`, { method: "POST", body: { StoreId: storeId, brandName } }),
+    updatePrices: () =>
+      requestAck("/api/generalsettings/updatePrices", {
+        method: "POST",
+        body: { action: "manualUpdate" },
+        timeoutMs: 120000,
+      }),
+  },
+};
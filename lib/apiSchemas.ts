@@ -0,0 +1,277 @@
+import type { ListEvent } from "./listChannel";
+import {
+  arrayOf,
+  boolean,
+  id,
+  literal,
+  named,
+  number,
+  object,
+  objectWithRest,
+  oneOf,
+  optional,
+  recordOf,
+  Schema,
+  string,
+  unknownValue,
+  withDefault,
+} from "./schema";
+import type {
+  AisleOrder,
+  ListBatchResponse,
+  ListItem,
+  ListResponse,
+  Product,
+  ProductStats,
+  Receipt,
+  ReceiptDetails,
+  ReceiptLine,
+  ShoppingList,
+  StatsData,
+  Store,
+  SupermarketItem,
+  SupermarketPlace,
+  SupermarketSettings,
+} from "./types";
+
+// ---------- Schemas for every backend payload ----------
+// Annotated with the shared types so a schema can't drift from what the screens use
+
+// Prices and quantities in the price files are strings as often as numbers
+const numeric = () => oneOf(number(), string());
+
+// ---------- List ----------
+export const listItemSchema: Schema<ListItem> = object(
+  {
+    id: id(),
+    name: string(),
+    quantity: number(),
+    unit: optional(string()),
+    category: withDefault(string(), ""),
+    done: withDefault(boolean(), false),
+    note: optional(string()),
+    barcode: optional(string()),
+    rev: optional(number()),
+  },
+  "ListItem"
+);
+
+export const listResponseSchema: Schema<ListResponse> = objectWithRest(
+  {
+    suggestions: optional(arrayOf(string())),
+    categories: optional(recordOf(unknownValue())),
+  },
+  listItemSchema,
+  "ListResponse"
+);
+
+export const listBatchSchema: Schema<ListBatchResponse> = object(
+  {
+    results: arrayOf(
+      object(
+        {
+          index: number(),
+          ok: boolean(),
+          error: optional(string()),
+          item: optional(listItemSchema),
+          stale: optional(boolean()),
+        },
+        "ListBatchResult"
+      )
+    ),
+  },
+  "ListBatchResponse"
+);
+
+export const listEventSchema: Schema<ListEvent> = named(
+  "ListEvent",
+  oneOf(
+    object({ type: literal("add"), item: listItemSchema }),
+    object({ type: literal("remove"), itemId: id() }),
+    object({ type: literal("done"), itemId: id(), rev: optional(number()) }),
+    object({ type: literal("undone"), itemId: id(), rev: optional(number()) }),
+    object({ type: literal("quantity"), itemId: id(), quantity: number(), rev: optional(number()) }),
+    object({ type: literal("edit"), item: listItemSchema })
+  )
+);
+
+export const shoppingListSchema: Schema<ShoppingList> = object(
+  {
+    id: id(),
+    name: string(),
+    archived: withDefault(boolean(), false),
+    createdAt: withDefault(number(), 0),
+    itemCount: withDefault(number(), 0),
+  },
+  "ShoppingList"
+);
+
+export const shoppingListsSchema = arrayOf(shoppingListSchema);
+
+// ---------- Aisle Order ----------
+export const aisleOrderSchema: Schema<AisleOrder> = object(
+  { categories: arrayOf(string()), updatedAt: withDefault(number(), 0) },
+  "AisleOrder"
+);
+
+export const aisleOrdersSchema = recordOf(aisleOrderSchema);
+
+// ---------- Receipts ----------
+export const receiptSchema: Schema<Receipt> = object(
+  {
+    city: string(),
+    company: string(),
+    createdDate: string(),
+    file: id(),
+    total: number(),
+  },
+  "Receipt"
+);
+
+export const receiptsSchema = arrayOf(receiptSchema);
+
+export const receiptLineSchema: Schema<ReceiptLine> = object(
+  {
+    barcode: id(),
+    name: string(),
+    quantity: withDefault(number(), 1),
+    price: withDefault(number(), 0),
+  },
+  "ReceiptLine"
+);
+
+export const receiptDetailsSchema: Schema<ReceiptDetails> = object(
+  {
+    city: string(),
+    company: string(),
+    createdDate: string(),
+    file: id(),
+    total: number(),
+    items: withDefault(arrayOf(receiptLineSchema), []),
+  },
+  "ReceiptDetails"
+);
+
+// ---------- Prices ----------
+export const supermarketItemSchema: Schema<SupermarketItem> = object(
+  {
+    ItemCode: optional(id()),
+    ItemName: optional(string()),
+    ManufacturerName: optional(string()),
+    ItemPrice: optional(numeric()),
+    promo: optional(
+      object(
+        {
+          DiscountedPrice: numeric(),
+          DiscountedPricePerMida: optional(numeric()),
+          MinQty: numeric(),
+          PromotionDescription: optional(string()),
+          PromotionUpdateDate: optional(string()),
+          PromotionEndDate: optional(string()),
+        },
+        "promo"
+      )
+    ),
+    Promo: optional(object({ Quantity: number(), Price: number(), Description: optional(string()) }, "Promo")),
+  },
+  "SupermarketItem"
+);
+
+export const supermarketPlaceSchema: Schema<SupermarketPlace> = object(
+  {
+    Name: optional(string()),
+    supermarket_name: optional(string()),
+    yohananof: optional(object({ StoreName: string() })),
+    Root: optional(
+      object({
+        Items: optional(object({ Item: oneOf(arrayOf(supermarketItemSchema), supermarketItemSchema) })),
+      })
+    ),
+  },
+  "SupermarketPlace"
+);
+
+export const pricesSchema = arrayOf(supermarketPlaceSchema);
+
+// ---------- Products ----------
+export const productSchema: Schema<Product> = object(
+  {
+    id: optional(id()),
+    name: optional(string()),
+    barcode: optional(id()),
+    brand: optional(string()),
+    price: optional(number()),
+    imageUrl: optional(string()),
+    size: optional(string()),
+    average_price: optional(number()),
+    category: optional(string()),
+  },
+  "Product"
+);
+
+export const productsSchema = recordOf(productSchema);
+
+// ---------- Statistics ----------
+export const statsSchema: Schema<StatsData> = object(
+  {
+    average_spend_per_receipt: number(),
+    receipts: recordOf(object({ date_and_time: string(), total_price: number() }, "StatsReceipt")),
+    top_10_price_increase: arrayOf(
+      object(
+        { barcode: id(), name: string(), new_price: number(), old_price: number(), price_increase: number() },
+        "PriceIncrease"
+      )
+    ),
+    top_10_product_purchased: arrayOf(
+      object(
+        { barcode: id(), name: string(), average_price: number(), total_quantity: number(), total_price: number() },
+        "TopProduct"
+      )
+    ),
+    total_items: number(),
+    total_receipts: number(),
+    total_spent: number(),
+  },
+  "StatsData"
+);
+
+export const productStatsSchema: Schema<ProductStats> = object(
+  {
+    barcode: id(),
+    name: string(),
+    cheapest_price: number(),
+    highest_price: number(),
+    last_price: number(),
+    average_price: number(),
+    price_increase: optional(number()),
+    total_price: optional(number()),
+    total_quantity: optional(number()),
+    history: arrayOf(object({ date: string(), price: number(), quantity: number() }, "PricePoint")),
+  },
+  "ProductStats"
+);
+
+// ---------- Settings ----------
+// brandName is not part of the payload; screens fill it in from the record key
+export const storeSchema: Schema<Store> = object(
+  {
+    StoreId: id(),
+    StoreName: string(),
+    City: withDefault(string(), ""),
+    Address: withDefault(string(), "unknown"),
+    brandName: withDefault(string(), ""),
+    ZipCode: optional(id()),
+    BikoretNo: optional(number()),
+  },
+  "Store"
+);
+
+export const settingsSchema: Schema<SupermarketSettings> = object(
+  {
+    supermarkets: object({
+      liked: withDefault(recordOf(arrayOf(storeSchema)), {}),
+      available: withDefault(recordOf(arrayOf(storeSchema)), {}),
+    }),
+  },
+  "SupermarketSettings"
+);
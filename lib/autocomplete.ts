@@ -0,0 +1,190 @@
+import { api } from "./api";
+import { normalizeText, prefixDistance, soundKey } from "./hebrew";
+import { readJSON, writeJSON } from "./storage";
+import type { Product, ReceiptDetails } from "./types";
+
+// ---------- Storage Keys ----------
+const USAGE_KEY = "autocomplete.usage";
+const PURCHASES_KEY = "autocomplete.purchases";
+
+// ---------- Types ----------
+// Everything we know about one item name we could suggest
+export type SuggestionCandidate = {
+  name: string;
+  // Times bought or added
+  count: number;
+  // Epoch ms of the last purchase or add
+  lastUsed?: number;
+  lastPrice?: number;
+};
+
+export type RankedSuggestion = SuggestionCandidate & { score: number };
+
+// A name normalized once, so matching it on every keystroke stays cheap
+export type MatchKey = { text: string; words: string[]; sounds: string[] };
+
+// A candidate ready for ranking: its key and its name prepared for matching
+export type IndexedCandidate = SuggestionCandidate & { key: string; match: MatchKey };
+
+// Name key -> how often and when the user added the item on this device
+export type ItemUsage = Record<string, { name: string; count: number; lastUsed: number }>;
+
+// Purchase history built from receipts, and the receipts already counted in it
+type PurchaseHistory = { receipts: string[]; products: Record<string, SuggestionCandidate> };
+
+// ---------- Ranking Weights ----------
+const DAY = 24 * 60 * 60 * 1000;
+// A purchase a month ago counts about a third of one today
+const RECENCY_DAYS = 30;
+
+// ---------- Sources ----------
+// Names that differ only in spelling marks or spacing are the same suggestion
+function candidateKey(name: string) {
+  return normalizeText(name).trim().replace(/\s+/g, " ");
+}
+
+export function loadItemUsage() {
+  return readJSON<ItemUsage>(USAGE_KEY, {});
+}
+
+// Remembers that `names` were just added to the list
+export async function recordItemUsage(usage: ItemUsage, names: string[]): Promise<ItemUsage> {
+  const next = { ...usage };
+  const now = Date.now();
+  for (const name of names) {
+    const key = candidateKey(name);
+    if (!key) continue;
+    next[key] = { name, count: (next[key]?.count ?? 0) + 1, lastUsed: now };
+  }
+  await writeJSON(USAGE_KEY, next);
+  return next;
+}
+
+// Adds what one receipt bought to the history: how many, when the last one
+// was and what it cost per unit
+function addReceipt(products: Record<string, SuggestionCandidate>, receipt: ReceiptDetails) {
+  const time = Date.parse(receipt.createdDate);
+  for (const line of receipt.items) {
+    const key = candidateKey(line.name);
+    if (!key) continue;
+    const existing = products[key] ?? { name: line.name, count: 0 };
+    const latest = !Number.isNaN(time) && time >= (existing.lastUsed ?? 0);
+    products[key] = {
+      name: existing.name,
+      count: existing.count + Math.max(1, line.quantity || 1),
+      lastUsed: latest ? time : existing.lastUsed,
+      lastPrice: latest && line.quantity > 0 ? line.price / line.quantity : existing.lastPrice,
+    };
+  }
+}
+
+// What the receipts say about every product bought. Each receipt is fetched
+// once and folded into a stored history; one that fails to load is tried
+// again next time.
+export async function loadPurchaseHistory(): Promise<SuggestionCandidate[]> {
+  const stored = await readJSON<PurchaseHistory>(PURCHASES_KEY, { receipts: [], products: {} });
+  const counted = new Set(stored.receipts);
+  const fresh = (await api.receipts.list()).filter(receipt => !counted.has(receipt.file));
+  if (fresh.length > 0) {
+    const details = await Promise.all(fresh.map(receipt => api.receipts.get(receipt.file).catch(() => null)));
+    const products = { ...stored.products };
+    details.forEach((receipt, i) => {
+      if (!receipt) return;
+      addReceipt(products, receipt);
+      counted.add(fresh[i].file);
+    });
+    await writeJSON(PURCHASES_KEY, { receipts: [...counted], products });
+    return Object.values(products);
+  }
+  return Object.values(stored.products);
+}
+
+// Folds every source into one candidate per item name. Counts add up, the
+// latest use wins and a price from purchase history beats the catalogue's.
+export function mergeCandidates({
+  names = [],
+  usage = {},
+  purchases = [],
+  products = {},
+}: {
+  names?: string[];
+  usage?: ItemUsage;
+  purchases?: SuggestionCandidate[];
+  products?: Record<string, Product>;
+}): IndexedCandidate[] {
+  const byKey = new Map<string, IndexedCandidate>();
+  const add = (candidate: SuggestionCandidate) => {
+    const key = candidateKey(candidate.name);
+    if (!key) return;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...candidate, key, match: matchKey(candidate.name) });
+      return;
+    }
+    existing.count += candidate.count;
+    existing.lastUsed = Math.max(existing.lastUsed ?? 0, candidate.lastUsed ?? 0) || undefined;
+    existing.lastPrice = existing.lastPrice ?? candidate.lastPrice;
+  };
+
+  for (const purchase of purchases) add(purchase);
+  for (const entry of Object.values(usage)) add({ name: entry.name, count: entry.count, lastUsed: entry.lastUsed });
+  for (const name of names) add({ name, count: 0 });
+  for (const product of Object.values(products)) {
+    if (product.name) add({ name: product.name, count: 0, lastPrice: product.price ?? product.average_price });
+  }
+  return [...byKey.values()];
+}
+
+// ---------- Matching ----------
+export function matchKey(name: string): MatchKey {
+  const text = normalizeText(name);
+  const words = text.split(/\s+/);
+  return { text, words, sounds: [soundKey(text), ...words.map(soundKey)] };
+}
+
+// How well `query` matches `name`, 0 for no match: containment beats a typo,
+// which beats a transliteration ("bamba" -> "במבה")
+export function matchScore(query: string, name: string | MatchKey) {
+  const q = normalizeText(query).trim();
+  if (!q) return 0;
+  const { text, words, sounds } = typeof name === "string" ? matchKey(name) : name;
+  if (text.startsWith(q)) return 1;
+  if (words.some(word => word.startsWith(q))) return 0.9;
+  if (text.includes(q)) return 0.75;
+
+  // Typos: the query against the start of each word of the name. A longer
+  // prefix is always too far off, so the rest of the word isn't compared.
+  const allowed = q.length <= 2 ? 0 : q.length <= 5 ? 1 : 2;
+  if (allowed > 0) {
+    const distance = Math.min(...[text, ...words].map(word => prefixDistance(q, word.slice(0, q.length + allowed))));
+    if (distance <= allowed) return 0.6 - 0.15 * distance;
+  }
+
+  const sound = soundKey(q);
+  if (sound.length >= 2 && sounds.some(key => key.startsWith(sound))) return 0.4;
+  return 0;
+}
+
+// Candidates matching `query`, best first: a good match, bought often and
+// recently, ranks highest. Candidates from mergeCandidates are matched without
+// normalizing their names again.
+export function rankSuggestions(
+  query: string,
+  candidates: (SuggestionCandidate | IndexedCandidate)[],
+  limit = 5,
+  now = Date.now()
+): RankedSuggestion[] {
+  const queryKey = candidateKey(query);
+  const ranked: RankedSuggestion[] = [];
+  for (const candidate of candidates) {
+    const indexed = "match" in candidate ? candidate : null;
+    if ((indexed?.key ?? candidateKey(candidate.name)) === queryKey) continue;
+    const match = matchScore(query, indexed?.match ?? candidate.name);
+    if (match === 0) continue;
+    const frequency = Math.log1p(candidate.count);
+    const recency = candidate.lastUsed ? Math.exp(-Math.max(0, now - candidate.lastUsed) / DAY / RECENCY_DAYS) : 0;
+    const { name, count, lastUsed, lastPrice } = candidate;
+    ranked.push({ name, count, lastUsed, lastPrice, score: match * (1 + 0.5 * frequency + recency) });
+  }
+  return ranked.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name)).slice(0, limit);
+}
@@ -0,0 +1,224 @@
+import { quotePrice } from "./pricing";
+import type { ListItem, Offer, Store, SupermarketItem, SupermarketSettings } from "./types";
+
+// ---------- Types ----------
+export type BasketLine = {
+  listItem: ListItem;
+  product: SupermarketItem;
+  offer: Offer;
+  unitPrice: number;
+  total: number;
+};
+
+export type StoreBasket = {
+  store: Store;
+  lines: BasketLine[];
+  // Matched list items this store does not carry
+  missing: ListItem[];
+  total: number;
+};
+
+export type BasketEstimate = {
+  // Sorted best first: fewest missing items, then lowest total
+  stores: StoreBasket[];
+  // List items no supermarket product could be matched to
+  unmatched: ListItem[];
+  cheapest: StoreBasket | null;
+};
+
+type Candidate = { product: SupermarketItem; score: number };
+
+// ---------- Matching ----------
+// Below this share of matched words a product is not considered the same item
+const MIN_MATCH_SCORE = 0.6;
+const MAX_CANDIDATES = 12;
+// Above any name match, so a store carrying the linked product always uses it
+const LINKED_SCORE = 2;
+
+function tokens(v: string) {
+  return (v ?? "")
+    .toString()
+    .toLowerCase()
+    .replace(/["'`׳״.,()\-_/\\]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Share of the list item's words found in the product name, slightly preferring
+// products whose name starts with the same word ("חלב" -> "חלב תנובה 3%")
+export function matchScore(listName: string, productName: string) {
+  const query = tokens(listName);
+  const target = tokens(productName);
+  if (query.length === 0 || target.length === 0) return 0;
+  const hits = query.filter(w =>
+    target.some(t => t === w || t.startsWith(w) || (w.length > 2 && t.length > 2 && w.startsWith(t)))
+  ).length;
+  const coverage = hits / query.length;
+  return target[0] === query[0] ? coverage : coverage * 0.9;
+}
+
+// An item linked to a product prefers that exact barcode; stores that don't
+// carry it fall back to products with a similar name
+function findCandidates(listItem: ListItem, products: SupermarketItem[]): Candidate[] {
+  const linked = listItem.barcode ? products.filter(product => product.ItemCode === listItem.barcode) : [];
+  const similar = products
+    .filter(product => !linked.includes(product))
+    .map(product => ({ product, score: matchScore(listItem.name, product.ItemName ?? "") }))
+    .filter(c => c.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+  return [...linked.map(product => ({ product, score: LINKED_SCORE })), ...similar];
+}
+
+// ---------- Stores ----------
+export function likedStoresFrom(settings: SupermarketSettings): Store[] {
+  return Object.entries(settings?.supermarkets?.liked ?? {}).flatMap(([brand, stores]) =>
+    (stores ?? []).map(store => ({ ...store, brandName: brand }))
+  );
+}
+
+export function storeKey(store: Store) {
+  return `${store.brandName}:${store.StoreId}`;
+}
+
+// Price files carry the chain name and, for some chains, the branch name
+export function offerMatchesStore(offer: Offer, store: Store) {
+  const chain = (offer.supermarket ?? "").toLowerCase();
+  if (!store.brandName || !chain.includes(store.brandName.toLowerCase())) return false;
+  return !offer.branch || offer.branch.trim() === (store.StoreName ?? "").trim();
+}
+
+export function findStoreOffer(product: SupermarketItem, store: Store): Offer | undefined {
+  return (product.Offers ?? []).find(offer => offerMatchesStore(offer, store));
+}
+
+// ---------- Estimate ----------
+// Done items are skipped unless `includeDone` is set (the planner keeps them so
+// its per-store checklists stay stable while shopping)
+export function estimateBasket(
+  list: ListItem[],
+  products: SupermarketItem[],
+  stores: Store[],
+  { includeDone = false }: { includeDone?: boolean } = {}
+): BasketEstimate {
+  const wanted = includeDone ? list : list.filter(i => !i.done);
+  const candidatesById = new Map<string, Candidate[]>();
+  const unmatched: ListItem[] = [];
+
+  for (const listItem of wanted) {
+    const candidates = findCandidates(listItem, products);
+    if (candidates.length === 0) unmatched.push(listItem);
+    else candidatesById.set(listItem.id, candidates);
+  }
+
+  const baskets = stores.map<StoreBasket>(store => {
+    const lines: BasketLine[] = [];
+    const missing: ListItem[] = [];
+
+    for (const listItem of wanted) {
+      const candidates = candidatesById.get(listItem.id);
+      if (!candidates) continue;
+
+      // Best match this store carries; equally good matches go to the cheaper one
+      let best: BasketLine | null = null;
+      let bestScore = -1;
+      for (const { product, score } of candidates) {
+        const offer = findStoreOffer(product, store);
+        if (!offer) continue;
+        // Priced for the quantity on the list so multi-buy deals count
+        const { total, unitPrice } = quotePrice(offer.item, listItem.quantity);
+        if (!isFinite(total)) continue;
+        if (score > bestScore || (score === bestScore && best && total < best.total)) {
+          best = { listItem, product, offer, unitPrice, total };
+          bestScore = score;
+        }
+      }
+
+      if (best) lines.push(best);
+      else missing.push(listItem);
+    }
+
+    return { store, lines, missing, total: lines.reduce((sum, l) => sum + l.total, 0) };
+  });
+
+  baskets.sort((a, b) => a.missing.length - b.missing.length || a.total - b.total);
+  const cheapest = baskets.find(b => b.lines.length > 0) ?? null;
+  return { stores: baskets, unmatched, cheapest };
+}
+
+// ---------- Split-Basket Planning ----------
+export type PlanStop = {
+  store: Store;
+  lines: BasketLine[];
+  total: number;
+};
+
+export type BasketPlan = {
+  stops: PlanStop[];
+  itemsTotal: number;
+  // Extra trip cost for every store after the first
+  tripCost: number;
+  total: number;
+  missing: ListItem[];
+};
+
+export type BasketPlans = {
+  single: BasketPlan | null;
+  split: BasketPlan | null;
+  // How much the split plan saves over the single-store plan, after trip costs
+  savings: number;
+};
+
+function comparePlans(a: BasketPlan, b: BasketPlan) {
+  return a.missing.length - b.missing.length || a.total - b.total;
+}
+
+function makePlan(stops: PlanStop[], missing: ListItem[], extraTripCost: number): BasketPlan {
+  const itemsTotal = stops.reduce((sum, s) => sum + s.total, 0);
+  const tripCost = Math.max(0, stops.length - 1) * extraTripCost;
+  return { stops, itemsTotal, tripCost, total: itemsTotal + tripCost, missing };
+}
+
+// Best one-store plan and best two-store plan, where each item is bought at
+// whichever of the two stores is cheaper for it
+export function planBaskets(estimate: BasketEstimate, extraTripCost: number): BasketPlans {
+  const baskets = estimate.stores.filter(b => b.lines.length > 0);
+
+  let single: BasketPlan | null = null;
+  for (const basket of baskets) {
+    const plan = makePlan([{ store: basket.store, lines: basket.lines, total: basket.total }], basket.missing, extraTripCost);
+    if (!single || comparePlans(plan, single) < 0) single = plan;
+  }
+
+  let split: BasketPlan | null = null;
+  for (let i = 0; i < baskets.length; i++) {
+    for (let j = i + 1; j < baskets.length; j++) {
+      const [a, b] = [baskets[i], baskets[j]];
+      const linesA = new Map(a.lines.map(l => [l.listItem.id, l]));
+      const linesB = new Map(b.lines.map(l => [l.listItem.id, l]));
+      const stopA: PlanStop = { store: a.store, lines: [], total: 0 };
+      const stopB: PlanStop = { store: b.store, lines: [], total: 0 };
+      const missing: ListItem[] = [];
+
+      for (const listItem of [...a.missing, ...a.lines.map(l => l.listItem)]) {
+        const lineA = linesA.get(listItem.id);
+        const lineB = linesB.get(listItem.id);
+        const pick = lineA && (!lineB || lineA.total <= lineB.total) ? { stop: stopA, line: lineA } : lineB ? { stop: stopB, line: lineB } : null;
+        if (!pick) {
+          missing.push(listItem);
+          continue;
+        }
+        pick.stop.lines.push(pick.line);
+        pick.stop.total += pick.line.total;
+      }
+
+      // A "split" that sends everything to one store is just the single plan
+      if (stopA.lines.length === 0 || stopB.lines.length === 0) continue;
+      const plan = makePlan([stopA, stopB], missing, extraTripCost);
+      if (!split || comparePlans(plan, split) < 0) split = plan;
+    }
+  }
+
+  const savings = single && split && split.missing.length <= single.missing.length ? single.total - split.total : 0;
+  return { single, split, savings };
+}
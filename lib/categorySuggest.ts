@@ -0,0 +1,184 @@
+import { nameKey, tokenize, wordKey, wordVariants } from "./hebrew";
+import { readJSON, writeJSON } from "./storage";
+import type { ListItem, Product } from "./types";
+
+// ---------- Storage Keys ----------
+const LEARNED_KEY = "categories.learned";
+
+// ---------- Types ----------
+// Name key -> category -> how often the user filed that item there
+export type LearnedCategories = Record<string, Record<string, number>>;
+
+export type CategorySuggestion = {
+  category: string;
+  // Share of the evidence pointing at this category, 0..1
+  confidence: number;
+};
+
+type Counts = Map<string, number>;
+
+export type CategoryModel = {
+  // Whole-name key -> category weights
+  names: Map<string, Counts>;
+  // Word key -> category weights
+  words: Map<string, Counts>;
+  products: { words: string[]; category?: string }[];
+};
+
+// ---------- Weights ----------
+// A correction the user made counts for more than anything the server knows
+const LEARNED_WEIGHT = 4;
+const HISTORY_WEIGHT = 1;
+// Words of a matching product that the user didn't type are weak evidence
+const PRODUCT_WORD_WEIGHT = 0.3;
+const PRODUCT_CATEGORY_WEIGHT = 1;
+// Products without a category get the one their name points at, at this weight
+const INFERRED_PRODUCT_WEIGHT = 0.5;
+const MAX_PRODUCT_MATCHES = 5;
+
+// ---------- Model ----------
+function bump(map: Map<string, Counts>, key: string, category: string, weight: number) {
+  if (!key) return;
+  const counts = map.get(key) ?? new Map<string, number>();
+  counts.set(category, (counts.get(category) ?? 0) + weight);
+  map.set(key, counts);
+}
+
+function addName(model: CategoryModel, name: string, category: string, weight: number) {
+  bump(model.names, nameKey(name), category, weight);
+  for (const word of tokenize(name)) bump(model.words, wordKey(word), category, weight);
+}
+
+// Indexes everything we know about which item goes where: the server's
+// `categories` map (category -> item names), the items on the list, the
+// product catalogue and what the user taught us
+export function buildCategoryModel({
+  history,
+  items = [],
+  products = {},
+  learned = {},
+}: {
+  history?: Record<string, unknown>;
+  items?: ListItem[];
+  products?: Record<string, Product>;
+  learned?: LearnedCategories;
+}): CategoryModel {
+  const model: CategoryModel = { names: new Map(), words: new Map(), products: [] };
+
+  for (const [category, names] of Object.entries(history ?? {})) {
+    if (!Array.isArray(names)) continue;
+    for (const name of names) {
+      if (typeof name === "string") addName(model, name, category, HISTORY_WEIGHT);
+    }
+  }
+  for (const item of items) {
+    if (item.category) addName(model, item.name, item.category, HISTORY_WEIGHT);
+  }
+  for (const [key, counts] of Object.entries(learned)) {
+    for (const [category, count] of Object.entries(counts)) {
+      bump(model.names, key, category, LEARNED_WEIGHT * count);
+      for (const word of key.split(" ")) bump(model.words, word, category, LEARNED_WEIGHT * count);
+    }
+  }
+
+  // Catalogue names link words we've never seen to ones we have: "חלב 1% תנובה"
+  // files "תנובה" under dairy, so "קוטג' תנובה" lands there too. Categories are
+  // inferred from the history alone, before any product is indexed.
+  const catalogue = Object.values(products)
+    .filter(product => product.name)
+    .map(product => {
+      const name = product.name!;
+      const category = product.category || bestCategory(wordScores(model, tokenize(name)));
+      return { name, category, inferred: !product.category };
+    });
+  for (const { name, category, inferred } of catalogue) {
+    model.products.push({ words: tokenize(name).map(wordKey), category: category || undefined });
+    if (category) addName(model, name, category, inferred ? INFERRED_PRODUCT_WEIGHT : HISTORY_WEIGHT);
+  }
+  return model;
+}
+
+// ---------- Suggesting ----------
+// Adds `counts` to `scores` as a distribution, so a word seen under many
+// categories says less than one seen under a single category
+function addEvidence(scores: Counts, counts: Counts | undefined, weight: number) {
+  if (!counts) return;
+  let total = 0;
+  for (const count of counts.values()) total += count;
+  for (const [category, count] of counts) {
+    scores.set(category, (scores.get(category) ?? 0) + (weight * count) / total);
+  }
+}
+
+// Evidence from the words alone, each tried with and without prefixes
+function wordScores(model: CategoryModel, words: string[]): Counts {
+  const scores: Counts = new Map();
+  for (const word of words) {
+    for (const { key, weight } of wordVariants(word)) addEvidence(scores, model.words.get(key), weight);
+  }
+  return scores;
+}
+
+function bestCategory(scores: Counts) {
+  let best = "";
+  let bestScore = 0;
+  for (const [category, score] of scores) {
+    if (score > bestScore) [best, bestScore] = [category, score];
+  }
+  return best;
+}
+
+// Ranks the categories `name` most likely belongs to, best first
+export function suggestCategories(name: string, model: CategoryModel, limit = 3): CategorySuggestion[] {
+  const words = tokenize(name);
+  if (words.length === 0) return [];
+  const scores = wordScores(model, words);
+
+  // The exact item counts most, scaled by how sure we are of it
+  const exact = model.names.get(nameKey(name));
+  if (exact) {
+    let total = 0;
+    for (const count of exact.values()) total += count;
+    addEvidence(scores, exact, 2 + Math.min(total, 4));
+  }
+
+  // Products whose name contains every word typed, e.g. "קוטג" -> "קוטג 5% תנובה"
+  const typedVariants = words.map(word => wordVariants(word).map(v => v.key));
+  const typedKeys = new Set(typedVariants.flat());
+  const matches = model.products
+    .filter(product => typedVariants.every(keys => keys.some(key => product.words.includes(key))))
+    .slice(0, MAX_PRODUCT_MATCHES);
+  for (const product of matches) {
+    if (product.category) scores.set(product.category, (scores.get(product.category) ?? 0) + PRODUCT_CATEGORY_WEIGHT);
+    for (const word of product.words) {
+      if (!typedKeys.has(word)) addEvidence(scores, model.words.get(word), PRODUCT_WORD_WEIGHT);
+    }
+  }
+
+  let total = 0;
+  for (const score of scores.values()) total += score;
+  return [...scores]
+    .map(([category, score]) => ({ category, confidence: score / total }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+// ---------- Learning ----------
+export function loadLearnedCategories() {
+  return readJSON<LearnedCategories>(LEARNED_KEY, {});
+}
+
+// Records that the user filed `name` under `category`. Earlier choices for the
+// same item fade so a correction takes over quickly.
+export async function learnCategory(learned: LearnedCategories, name: string, category: string): Promise<LearnedCategories> {
+  const key = nameKey(name);
+  if (!key || !category) return learned;
+  const counts: Record<string, number> = {};
+  for (const [other, count] of Object.entries(learned[key] ?? {})) {
+    if (other !== category && count / 2 >= 0.25) counts[other] = count / 2;
+  }
+  counts[category] = (learned[key]?.[category] ?? 0) + 1;
+  const next = { ...learned, [key]: counts };
+  await writeJSON(LEARNED_KEY, next);
+  return next;
+}
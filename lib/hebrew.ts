@@ -0,0 +1,113 @@
+// ---------- Hebrew Text Matching ----------
+// Helpers for comparing item names the way people type them: with or without
+// niqqud and quote marks, final letters, full/defective spelling and attached
+// prefixes ("והחלב", "לחלב").
+
+const FINAL_LETTERS: Record<string, string> = { ך: "כ", ם: "מ", ן: "נ", ף: "פ", ץ: "צ" };
+
+// One-letter prefixes that attach to a word: ו, ה, ב, כ, ל, מ, ש
+const PREFIX_LETTERS = new Set(["ו", "ה", "ב", "כ", "ל", "מ", "ש"]);
+
+const HEBREW = /[א-ת]/;
+
+// Strips niqqud, quote marks and final letters and lowercases Latin letters
+export function normalizeText(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[\u0591-\u05C7]/g, "")
+    .replace(/["'׳״`]/g, "")
+    .replace(/[ךםןףץ]/g, c => FINAL_LETTERS[c]);
+}
+
+// A spelling-insensitive key for one word: plural/feminine endings go, and
+// so do the matres lectionis ו/י after the first letter, so "עגבנייה",
+// "עגבניה" and "עגבניות" all end up as "עגבנ"
+export function wordKey(word: string) {
+  let w = normalizeText(word);
+  if (!HEBREW.test(w)) return w.length > 3 ? w.replace(/s$/, "") : w;
+  if (w.length > 4 && /(ימ|ות)$/.test(w)) w = w.slice(0, -2);
+  else if (w.length > 3 && /[הא]$/.test(w)) w = w.slice(0, -1);
+  return w[0] + w.slice(1).replace(/[וי]/g, "");
+}
+
+// Keys a word may stand for, with how much to trust each: the word itself, and
+// the word without one or two prefix letters as long as three letters remain
+export function wordVariants(word: string): { key: string; weight: number }[] {
+  const w = normalizeText(word);
+  const variants = [{ key: wordKey(w), weight: 1 }];
+  for (let n = 1; n <= 2 && w.length - n >= 3 && PREFIX_LETTERS.has(w[n - 1]); n++) {
+    variants.push({ key: wordKey(w.slice(n)), weight: 0.6 });
+  }
+  return variants;
+}
+
+// Words that say nothing about what the item is
+const STOP_WORDS = new Set(
+  ["של", "עם", "גרם", "גר", "קג", "קילו", "ליטר", "מל", "יח", "יחידות", "and", "with", "of"].map(normalizeText)
+);
+
+// The meaningful words of a name; numbers, units and one-letter words are dropped
+export function tokenize(name: string): string[] {
+  return normalizeText(name)
+    .split(/[^a-zא-ת]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// A key for a whole name, for exact lookups
+export function nameKey(name: string) {
+  return tokenize(name).map(wordKey).join(" ");
+}
+
+// ---------- Transliteration ----------
+// Hebrew and Latin letters reduced to shared consonant classes, so "bamba" and
+// "במבה" or "shnitzel" and "שניצל" get the same key. Vowels (and the letters
+// that usually stand for them) are dropped.
+const HEBREW_SOUNDS: Record<string, string> = {
+  ב: "b", ג: "g", ד: "d", ה: "h", ז: "z", ח: "h", ט: "t", כ: "k", ל: "l", מ: "m",
+  נ: "n", ס: "s", פ: "p", צ: "z", ק: "k", ר: "r", ש: "s", ת: "t",
+};
+
+const LATIN_DIGRAPHS: [RegExp, string][] = [
+  [/sh/g, "s"],
+  [/ch|kh/g, "h"],
+  [/tz|ts/g, "z"],
+  [/ph/g, "p"],
+  [/th/g, "t"],
+  [/ck/g, "k"],
+];
+
+const LATIN_SOUNDS: Record<string, string> = {
+  b: "b", v: "b", g: "g", j: "g", d: "d", h: "h", z: "z", t: "t", k: "k", c: "k", q: "k",
+  l: "l", m: "m", n: "n", s: "s", p: "p", f: "p", r: "r", x: "ks",
+};
+
+export function soundKey(text: string) {
+  let latin = normalizeText(text);
+  for (const [pattern, sound] of LATIN_DIGRAPHS) latin = latin.replace(pattern, sound);
+  let key = "";
+  for (const char of latin) {
+    const sound = HEBREW_SOUNDS[char] ?? LATIN_SOUNDS[char] ?? "";
+    // Doubled letters ("hummus") sound like one
+    if (sound && !key.endsWith(sound)) key += sound;
+  }
+  return key;
+}
+
+// ---------- Typo Tolerance ----------
+// Edit distance (with swapped neighbours counting as one edit) between `query`
+// and the closest prefix of `text`, so a half-typed word can still match
+export function prefixDistance(query: string, text: string) {
+  const rows = query.length + 1;
+  const cols = text.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === text[j - 2] && query[i - 2] === text[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return Math.min(...d[query.length]);
+}
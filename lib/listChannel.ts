@@ -0,0 +1,196 @@
+import { api, reportSchemaIssues } from "./api";
+import { listEventSchema } from "./apiSchemas";
+import { validate } from "./schema";
+import type { ListItem } from "./types";
+
+// ---------- Types ----------
+// Events pushed by GET /api/list/events (Server-Sent Events). `rev` is the
+// item's revision after the change.
+export type ListEvent =
+  | { type: "add"; item: ListItem }
+  | { type: "remove"; itemId: string }
+  | { type: "done"; itemId: string; rev?: number }
+  | { type: "undone"; itemId: string; rev?: number }
+  | { type: "quantity"; itemId: string; quantity: number; rev?: number }
+  // The whole item after a rename, category, unit or note change
+  | { type: "edit"; item: ListItem };
+
+export type ChannelStatus = "connecting" | "live" | "polling";
+
+type ChannelOptions = {
+  // The list to follow
+  listId: string;
+  onEvent: (event: ListEvent) => void;
+  onStatus: (status: ChannelStatus) => void;
+  // Called on every polling tick and after the push channel (re)connects
+  onPoll: () => void;
+  // Defaults to the events endpoint of the configured server
+  url?: string;
+};
+
+// ---------- Tuning ----------
+const MAX_PUSH_FAILURES = 3;     // failures in a row before falling back to polling
+const POLL_INTERVAL_MS = 15000;
+const PUSH_RETRY_MS = 60000;     // how often to try the push channel again while polling
+const IDLE_TIMEOUT_MS = 45000;   // the server sends a heartbeat comment every 15s
+
+// ---------- Merging ----------
+// Applies a pushed event to a list snapshot without reloading it
+export function applyListEvent(items: ListItem[], event: ListEvent): ListItem[] {
+  const rev = "rev" in event && event.rev !== undefined ? { rev: event.rev } : {};
+  switch (event.type) {
+    case "add":
+      if (items.some(i => i.id === event.item.id)) {
+        return items.map(i => (i.id === event.item.id ? { ...i, ...event.item } : i));
+      }
+      return [...items, event.item];
+    case "remove":
+      return items.filter(i => i.id !== event.itemId);
+    case "done":
+    case "undone":
+      return items.map(i => (i.id === event.itemId ? { ...i, done: event.type === "done", ...rev } : i));
+    case "quantity":
+      return items.map(i => (i.id === event.itemId ? { ...i, quantity: event.quantity, ...rev } : i));
+    case "edit":
+      return items.map(i => (i.id === event.item.id ? event.item : i));
+  }
+}
+
+function parseEvent(block: string): ListEvent | null {
+  const data = block
+    .split("\n")
+    .filter(line => line.startsWith("data:"))
+    .map(line => line.slice(5).trim())
+    .join("\n");
+  if (!data) return null;
+  let event: unknown;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    console.warn("listChannel: ignoring malformed event", data);
+    return null;
+  }
+  const result = validate(listEventSchema, event);
+  reportSchemaIssues("/api/list/events", result.issues, !result.ok);
+  return result.ok ? result.value : null;
+}
+
+// ---------- Subscription ----------
+// Opens the live channel and falls back to periodic polling when it is not
+// available. Returns a function that closes everything.
+export function subscribeToList({ listId, onEvent, onStatus, onPoll, url }: ChannelOptions) {
+  let closed = false;
+  let failures = 0;
+  let xhr: XMLHttpRequest | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const clearIdle = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+  };
+
+  const startPolling = () => {
+    if (pollTimer) return;
+    onStatus("polling");
+    pollTimer = setInterval(onPoll, POLL_INTERVAL_MS);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    clearIdle();
+    failures++;
+    if (failures >= MAX_PUSH_FAILURES) startPolling();
+    const delay = pollTimer ? PUSH_RETRY_MS : Math.min(1000 * 2 ** failures, 15000);
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const touch = () => {
+    clearIdle();
+    idleTimer = setTimeout(() => xhr?.abort(), IDLE_TIMEOUT_MS);
+  };
+
+  // A bad server URL must not end live updates silently; it counts as one more failure
+  function connect() {
+    open().catch(e => {
+      console.warn("listChannel: could not connect", e);
+      scheduleReconnect();
+    });
+  }
+
+  async function open() {
+    if (closed) return;
+    if (!pollTimer) onStatus("connecting");
+    // Looked up on every attempt so a server change in Settings is picked up
+    const target = url ?? (await api.list.eventsUrl(listId));
+    if (closed) return;
+
+    const request = new XMLHttpRequest();
+    xhr = request;
+    let seen = 0;
+    let buffer = "";
+    let opened = false;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      scheduleReconnect();
+    };
+
+    request.open("GET", target);
+    request.setRequestHeader("Accept", "text/event-stream");
+    request.setRequestHeader("Cache-Control", "no-cache");
+
+    request.onreadystatechange = () => {
+      if (request.readyState >= XMLHttpRequest.HEADERS_RECEIVED && !opened) {
+        if (request.status !== 200) {
+          request.abort();
+          finish();
+          return;
+        }
+        opened = true;
+        failures = 0;
+        stopPolling();
+        onStatus("live");
+        // Catch up on anything we missed while disconnected
+        onPoll();
+        touch();
+      }
+
+      if (request.readyState >= XMLHttpRequest.LOADING && opened) {
+        const text = request.responseText ?? "";
+        buffer += text.slice(seen);
+        seen = text.length;
+        touch();
+
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const event = parseEvent(block);
+          if (event) onEvent(event);
+        }
+      }
+
+      if (request.readyState === XMLHttpRequest.DONE) finish();
+    };
+    request.onerror = finish;
+    request.send();
+  }
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearIdle();
+    stopPolling();
+    if (retryTimer) clearTimeout(retryTimer);
+    xhr?.abort();
+  };
+}
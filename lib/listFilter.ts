@@ -0,0 +1,135 @@
+import { normalizeText, wordKey } from "./hebrew";
+import type { ListItem } from "./types";
+
+// ---------- Types ----------
+export type ItemStatus = "all" | "open" | "done";
+
+// What the shopping list is narrowed down to. It lives in the screen's URL
+// params, so a filtered list can be linked to.
+export type ListFilter = {
+  query: string;
+  status: ItemStatus;
+  // Empty means every category
+  categories: string[];
+};
+
+export const NO_FILTER: ListFilter = { query: "", status: "all", categories: [] };
+
+// A part of a text to highlight, as [start, end) offsets into it
+export type TextRange = { start: number; end: number };
+
+type Section = { title: string; data: ListItem[]; notDoneCount: number };
+
+export function isFiltering(filter: ListFilter) {
+  return filter.query.trim() !== "" || filter.status !== "all" || filter.categories.length > 0;
+}
+
+// ---------- URL Params ----------
+export type FilterParams = { q?: string; status?: string; categories?: string };
+
+// Categories are joined with commas, so each name is encoded first ("פירות, ירקות"
+// stays one category). A name that doesn't decode is taken as written.
+function decodeCategory(text: string) {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+export function filterFromParams(params: FilterParams): ListFilter {
+  return {
+    query: params.q ?? "",
+    status: params.status === "open" || params.status === "done" ? params.status : "all",
+    categories: params.categories ? params.categories.split(",").filter(Boolean).map(decodeCategory) : [],
+  };
+}
+
+// Parts that filter nothing are undefined so they drop out of the URL
+export function filterToParams(filter: ListFilter): FilterParams {
+  return {
+    q: filter.query || undefined,
+    status: filter.status === "all" ? undefined : filter.status,
+    categories: filter.categories.length > 0 ? filter.categories.map(encodeURIComponent).join(",") : undefined,
+  };
+}
+
+// ---------- Matching ----------
+// `text` normalized like normalizeText, with the offset in `text` every
+// character of the result came from
+function normalizeWithOrigin(text: string) {
+  let normalized = "";
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const part = normalizeText(text[i]);
+    normalized += part;
+    for (let k = 0; k < part.length; k++) origin.push(i);
+  }
+  return { normalized, origin };
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+// Where every word of `query` appears in `text`, regardless of niqqud, quote
+// marks and final letters; null when some word is missing. A word spelled
+// differently still finds one with the same key ("עגבנייה" finds "עגבניות").
+export function matchRanges(text: string, query: string): TextRange[] | null {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const { normalized, origin } = normalizeWithOrigin(text);
+  const ranges: TextRange[] = [];
+  for (const word of words) {
+    const at = normalized.indexOf(word);
+    if (at >= 0) {
+      ranges.push({ start: origin[at], end: origin[at + word.length - 1] + 1 });
+      continue;
+    }
+    const key = wordKey(word);
+    const similar = [...text.matchAll(/\S+/g)].find(m => wordKey(m[0]) === key);
+    if (!similar) return null;
+    ranges.push({ start: similar.index!, end: similar.index! + similar[0].length });
+  }
+  return mergeRanges(ranges);
+}
+
+// `text` cut into the parts `ranges` highlight and the parts between them
+export function splitByRanges(text: string, ranges: TextRange[]): { text: string; match: boolean }[] {
+  const parts: { text: string; match: boolean }[] = [];
+  let at = 0;
+  for (const { start, end } of ranges) {
+    if (start > at) parts.push({ text: text.slice(at, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    at = end;
+  }
+  if (at < text.length) parts.push({ text: text.slice(at), match: false });
+  return parts;
+}
+
+export function matchesFilter(item: ListItem, filter: ListFilter) {
+  if (filter.status === "open" && item.done) return false;
+  if (filter.status === "done" && !item.done) return false;
+  if (filter.categories.length > 0 && !filter.categories.includes(item.category || "כללי")) return false;
+  if (!filter.query.trim()) return true;
+  return matchRanges(item.name, filter.query) !== null || (!!item.note && matchRanges(item.note, filter.query) !== null);
+}
+
+// The sections with only the items the filter lets through; sections left
+// empty are dropped and the open count covers just the matches
+export function filterSections<S extends Section>(sections: S[], filter: ListFilter): S[] {
+  if (!isFiltering(filter)) return sections;
+  return sections
+    .map(section => {
+      const data = section.data.filter(item => matchesFilter(item, filter));
+      return { ...section, data, notDoneCount: data.filter(item => !item.done).length };
+    })
+    .filter(section => section.data.length > 0);
+}
@@ -0,0 +1,657 @@
+import { api, ApiError, ListOperation } from "./api";
+import { quantityStep } from "./quickAdd";
+import { readJSON, removeKey, writeJSON } from "./storage";
+import type { ItemChanges, ListItem } from "./types";
+
+// ---------- Storage Keys ----------
+// Every list has its own snapshot and queue; the default list keeps the keys
+// from before there were several lists so its offline changes carry over
+const SERVER_KEY = "list.server";
+const QUEUE_KEY = "list.queue";
+
+export const DEFAULT_LIST_ID = "default";
+
+function keyFor(base: string, listId: string) {
+  return listId === DEFAULT_LIST_ID ? base : `${base}.${listId}`;
+}
+
+// ---------- Types ----------
+export type ListMutation =
+  | {
+      kind: "add";
+      itemId: string;
+      name: string;
+      quantity: number;
+      unit?: string;
+      category: string;
+      note?: string;
+      barcode?: string;
+    }
+  | { kind: "remove"; itemId: string }
+  | { kind: "done"; itemId: string; done: boolean }
+  // Sent as a change rather than the new quantity so two devices adding to
+  // the same item at once both count
+  | { kind: "quantity"; itemId: string; delta: number }
+  | { kind: "edit"; itemId: string; changes: ItemChanges };
+
+export type QueuedMutation = ListMutation & {
+  mid: string;
+  queuedAt: number;
+  // Server copy of the item when the mutation was queued. Used to notice
+  // changes other devices made while we were offline.
+  base?: ListItem;
+};
+
+export type SyncConflict = {
+  itemName: string;
+  resolution: "discarded";
+  reason: string;
+};
+
+export type SyncResult = {
+  server: ListItem[];
+  queue: QueuedMutation[];
+  applied: number;
+  conflicts: SyncConflict[];
+  // Temporary ids of offline-added items mapped to the ids the server assigned
+  idMap: Record<string, string>;
+  // True when the connection dropped before the whole queue was replayed
+  offline: boolean;
+};
+
+// Thrown for failures that are worth retrying later (no connection, 5xx)
+export class TransientSyncError extends Error {}
+
+// ---------- Helpers ----------
+const LOCAL_PREFIX = "local-";
+
+export function createLocalId() {
+  return `${LOCAL_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isLocalId(id: string) {
+  return id.startsWith(LOCAL_PREFIX);
+}
+
+function normalizeName(name: string) {
+  return (name ?? "").trim().toLowerCase();
+}
+
+// `quantity` changed by `delta`, never below one step of the unit
+function addQuantity(quantity: number, delta: number, unit?: string) {
+  return Math.max(quantityStep(unit), Math.round((quantity + delta) * 1000) / 1000);
+}
+
+// /api/list returns the items keyed by id next to `suggestions` and `categories`
+export function parseListResponse(data: unknown): ListItem[] {
+  if (!data || typeof data !== "object") return [];
+  return Object.values(data).filter(
+    (item): item is ListItem => typeof item === "object" && item !== null && "id" in item
+  );
+}
+
+// ---------- Local Application ----------
+// The item with `changes` applied; an empty unit, note or barcode removes it
+export function applyChanges(item: ListItem, changes: ItemChanges): ListItem {
+  const next: ListItem = { ...item, ...changes };
+  if (!next.unit) delete next.unit;
+  if (!next.note) delete next.note;
+  if (!next.barcode) delete next.barcode;
+  return next;
+}
+
+// The fields of `changes` that would actually change `item`
+function changedFields(item: ListItem, changes: ItemChanges): ItemChanges {
+  const changed: ItemChanges = {};
+  for (const key of Object.keys(changes) as (keyof ItemChanges)[]) {
+    if ((item[key] ?? "") !== (changes[key] ?? "")) changed[key] = changes[key];
+  }
+  return changed;
+}
+
+export function applyMutation(items: ListItem[], m: ListMutation): ListItem[] {
+  switch (m.kind) {
+    case "add":
+      if (items.some(i => i.id === m.itemId)) return items;
+      return [
+        ...items,
+        applyChanges(
+          { id: m.itemId, name: m.name, quantity: m.quantity, category: m.category, done: false },
+          { unit: m.unit, note: m.note, barcode: m.barcode }
+        ),
+      ];
+    case "remove":
+      return items.filter(i => i.id !== m.itemId);
+    case "done":
+      return items.map(i => (i.id === m.itemId ? { ...i, done: m.done } : i));
+    case "quantity":
+      return items.map(i => (i.id === m.itemId ? { ...i, quantity: addQuantity(i.quantity, m.delta, i.unit) } : i));
+    case "edit":
+      return items.map(i => (i.id === m.itemId ? applyChanges(i, m.changes) : i));
+  }
+}
+
+// The list as the user should see it: last server snapshot plus everything still queued
+export function applyQueue(server: ListItem[], queue: QueuedMutation[]): ListItem[] {
+  return queue.reduce(applyMutation, server);
+}
+
+export function pendingItemIds(queue: QueuedMutation[]): Set<string> {
+  return new Set(queue.map(q => q.itemId));
+}
+
+// Adds a mutation to the queue, folding it into earlier pending mutations of the
+// same item where possible so the replay stays short and intention-preserving.
+export function enqueue(queue: QueuedMutation[], mutation: ListMutation, server: ListItem[]): QueuedMutation[] {
+  const base = server.find(i => i.id === mutation.itemId);
+  const entry: QueuedMutation = {
+    ...mutation,
+    mid: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    queuedAt: Date.now(),
+    base,
+  };
+
+  if (mutation.kind === "remove") {
+    // Removing an item that never reached the server just cancels it
+    if (isLocalId(mutation.itemId)) return queue.filter(q => q.itemId !== mutation.itemId);
+    return [...queue.filter(q => q.itemId !== mutation.itemId), entry];
+  }
+
+  if (mutation.kind === "quantity") {
+    const pendingAdd = queue.find(q => q.kind === "add" && q.itemId === mutation.itemId);
+    if (pendingAdd?.kind === "add") {
+      const quantity = addQuantity(pendingAdd.quantity, mutation.delta, pendingAdd.unit);
+      return queue.map(q => (q === pendingAdd ? { ...pendingAdd, quantity } : q));
+    }
+    const pendingQuantity = queue.find(q => q.kind === "quantity" && q.itemId === mutation.itemId);
+    if (pendingQuantity?.kind === "quantity") {
+      // Changes that add up to nothing cancel out
+      const delta = Math.round((pendingQuantity.delta + mutation.delta) * 1000) / 1000;
+      if (delta === 0) return queue.filter(q => q !== pendingQuantity);
+      return queue.map(q => (q === pendingQuantity ? { ...pendingQuantity, delta } : q));
+    }
+  }
+
+  if (mutation.kind === "edit") {
+    // An item that never reached the server is simply added with the new values
+    const pendingAdd = queue.find(q => q.kind === "add" && q.itemId === mutation.itemId);
+    if (pendingAdd?.kind === "add") {
+      const {
+        name = pendingAdd.name,
+        category = pendingAdd.category,
+        unit = pendingAdd.unit,
+        note = pendingAdd.note,
+        barcode = pendingAdd.barcode,
+      } = mutation.changes;
+      const folded = {
+        ...pendingAdd,
+        name,
+        category,
+        unit: unit || undefined,
+        note: note || undefined,
+        barcode: barcode || undefined,
+      };
+      return queue.map(q => (q === pendingAdd ? folded : q));
+    }
+    const pendingEdit = queue.find(q => q.kind === "edit" && q.itemId === mutation.itemId);
+    const changes = { ...(pendingEdit?.kind === "edit" ? pendingEdit.changes : {}), ...mutation.changes };
+    const rest = queue.filter(q => q !== pendingEdit);
+    // Editing back to the server values cancels out
+    if (base && Object.keys(changedFields(base, changes)).length === 0) return rest;
+    return [...rest, { kind: "edit", itemId: mutation.itemId, changes, mid: entry.mid, queuedAt: entry.queuedAt, base }];
+  }
+
+  if (mutation.kind === "done") {
+    const hadPending = queue.some(q => q.kind === "done" && q.itemId === mutation.itemId);
+    const rest = queue.filter(q => !(q.kind === "done" && q.itemId === mutation.itemId));
+    // Toggling back to the server value cancels out
+    if (hadPending && base && base.done === mutation.done) return rest;
+    return [...rest, entry];
+  }
+
+  return [...queue, entry];
+}
+
+// Queues whatever is needed to bring `before` items back to how they were:
+// a removal that hasn't reached the server yet is simply dropped, an item that is
+// already gone is added again (same fields, quantity and product link), and
+// a changed done state, quantity or edited field is set back.
+export function restoreItems(queue: QueuedMutation[], server: ListItem[], before: ListItem[]): QueuedMutation[] {
+  let next = queue;
+  for (const original of before) {
+    const pendingRemove = next.find(q => q.kind === "remove" && q.itemId === original.id);
+    if (pendingRemove) next = next.filter(q => q !== pendingRemove);
+
+    const current = applyQueue(server, next).find(i => i.id === original.id);
+    if (!current) {
+      const itemId = createLocalId();
+      next = enqueue(
+        next,
+        {
+          kind: "add",
+          itemId,
+          name: original.name,
+          quantity: original.quantity,
+          unit: original.unit,
+          category: original.category,
+          note: original.note,
+          barcode: original.barcode,
+        },
+        server
+      );
+      if (original.done) next = enqueue(next, { kind: "done", itemId, done: true }, server);
+      continue;
+    }
+    const edited = changedFields(current, {
+      name: original.name,
+      category: original.category,
+      unit: original.unit ?? "",
+      note: original.note ?? "",
+      barcode: original.barcode ?? "",
+    });
+    if (Object.keys(edited).length > 0) next = enqueue(next, { kind: "edit", itemId: original.id, changes: edited }, server);
+    if (current.done !== original.done) next = enqueue(next, { kind: "done", itemId: original.id, done: original.done }, server);
+    if (current.quantity !== original.quantity) {
+      next = enqueue(next, { kind: "quantity", itemId: original.id, delta: original.quantity - current.quantity }, server);
+    }
+  }
+  return next;
+}
+
+// Carries mutations that were queued while a sync was running over to the
+// queue that sync left behind.
+export function rebaseQueue(snapshot: QueuedMutation[], result: SyncResult, current: QueuedMutation[]): QueuedMutation[] {
+  const seen = new Set(snapshot.map(q => q.mid));
+  const added = current
+    .filter(q => !seen.has(q.mid))
+    .map(q => (result.idMap[q.itemId] ? { ...q, itemId: result.idMap[q.itemId] } : q));
+  return [...result.queue, ...added];
+}
+
+// ---------- Persistence ----------
+// Queues saved before quantity changes were deltas hold the new quantity
+type LegacyMutation = Omit<Extract<QueuedMutation, { kind: "quantity" }>, "delta"> & { quantity: number };
+
+function isLegacyMutation(q: QueuedMutation | LegacyMutation): q is LegacyMutation {
+  return q.kind === "quantity" && !("delta" in q && typeof q.delta === "number");
+}
+
+function upgradeMutation(q: QueuedMutation | LegacyMutation): QueuedMutation {
+  if (!isLegacyMutation(q)) return q;
+  const { quantity, ...rest } = q;
+  return { ...rest, delta: q.base ? quantity - q.base.quantity : 0 };
+}
+
+export async function loadSyncState(listId: string): Promise<{ server: ListItem[]; queue: QueuedMutation[] }> {
+  const [server, queue] = await Promise.all([
+    readJSON<ListItem[]>(keyFor(SERVER_KEY, listId), []),
+    readJSON<(QueuedMutation | LegacyMutation)[]>(keyFor(QUEUE_KEY, listId), []),
+  ]);
+  return { server, queue: queue.map(upgradeMutation) };
+}
+
+export function saveServerSnapshot(listId: string, items: ListItem[]) {
+  return writeJSON(keyFor(SERVER_KEY, listId), items);
+}
+
+export function saveQueue(listId: string, queue: QueuedMutation[]) {
+  return writeJSON(keyFor(QUEUE_KEY, listId), queue);
+}
+
+// Forgets a deleted list's snapshot and pending changes
+export function clearSyncState(listId: string) {
+  return Promise.all([removeKey(keyFor(SERVER_KEY, listId)), removeKey(keyFor(QUEUE_KEY, listId))]);
+}
+
+// ---------- Network ----------
+// Transient client errors become TransientSyncError so the replay can stop and retry later
+async function call<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (e) {
+    if (e instanceof ApiError && e.isTransient) throw new TransientSyncError(e.message);
+    throw e;
+  }
+}
+
+export async function fetchServerList(listId: string): Promise<ListItem[]> {
+  return parseListResponse(await call(() => api.list.get(listId)));
+}
+
+// A mutation on its way to the server with the server copy of the item it was
+// resolved against. The change only applies if the item still has that
+// copy's revision.
+export type Outgoing = { mutation: ListMutation; against?: ListItem };
+
+// What a quantity delta comes to, for backends that only take the new quantity
+function fallbackQuantity(delta: number, against?: ListItem) {
+  return against ? addQuantity(against.quantity, delta, against.unit) : undefined;
+}
+
+function sendMutation(listId: string, { mutation: m, against }: Outgoing) {
+  const rev = against?.rev;
+  switch (m.kind) {
+    case "add":
+      return call(() =>
+        api.list.add(listId, {
+          name: m.name,
+          quantity: m.quantity,
+          unit: m.unit,
+          category: m.category,
+          note: m.note,
+          barcode: m.barcode,
+        })
+      );
+    case "remove":
+      return call(() => api.list.remove(listId, m.itemId, rev));
+    case "done":
+      return call(() => api.list.setDone(listId, m.itemId, m.done, rev));
+    case "quantity":
+      return call(() => api.list.changeQuantity(listId, m.itemId, m.delta, fallbackQuantity(m.delta, against)));
+    case "edit":
+      return call(() => api.list.edit(listId, m.itemId, m.changes, rev));
+  }
+}
+
+function toOperation({ mutation: m, against }: Outgoing): ListOperation {
+  const rev = against?.rev;
+  switch (m.kind) {
+    case "add":
+      return {
+        op: "add",
+        item: m.name,
+        quantity: m.quantity,
+        unit: m.unit,
+        category: m.category,
+        note: m.note,
+        barcode: m.barcode,
+      };
+    case "remove":
+      return { op: "remove", itemID: String(m.itemId), rev };
+    case "done":
+      return { op: m.done ? "done" : "undone", itemID: String(m.itemId), rev };
+    case "quantity":
+      return { op: "quantity", itemID: String(m.itemId), delta: m.delta, quantity: fallbackQuantity(m.delta, against) };
+    case "edit":
+      return { op: "edit", itemID: String(m.itemId), rev, ...m.changes };
+  }
+}
+
+// The server refuses a change with 409 and `stale` when the item changed since
+// the revision the change was made against
+function isStale(e: unknown) {
+  if (!(e instanceof ApiError) || e.status !== 409 || !e.body) return false;
+  try {
+    return JSON.parse(e.body).stale === true;
+  } catch {
+    return false;
+  }
+}
+
+// ---------- Batches ----------
+type BatchOutcome = {
+  // One entry per mutation that got an answer, in order; fewer than sent when
+  // the connection dropped half way. `unknown` means the reply was unreadable,
+  // so whether the change was applied is only known after refetching.
+  results: { ok: boolean; error?: string; item?: ListItem; stale?: boolean; unknown?: boolean }[];
+  interrupted: boolean;
+};
+
+// Older backends have no batch route; remembered so we don't keep asking
+let batchUnsupported = false;
+
+// A backend without the batch route answers 405, or a bare 404; a 404 with a
+// JSON `error` is the route refusing, e.g. for a list that no longer exists
+function noBatchRoute(e: ApiError) {
+  if (e.status === 405) return true;
+  if (e.status !== 404) return false;
+  try {
+    return typeof JSON.parse(e.body ?? "").error !== "string";
+  } catch {
+    return true;
+  }
+}
+
+// Sends the mutations in one request, falling back to one request per mutation
+export async function sendBatch(listId: string, outgoing: Outgoing[]): Promise<BatchOutcome> {
+  if (!batchUnsupported) {
+    try {
+      const { results } = await call(() => api.list.batch(listId, outgoing.map(toOperation)));
+      const byIndex = new Map(results.map(r => [r.index, r]));
+      return {
+        results: outgoing.map((_, i) => byIndex.get(i) ?? { ok: false, error: "לא התקבלה תשובה מהשרת" }),
+        interrupted: false,
+      };
+    } catch (e) {
+      // Only a lost connection or a failing server stops the round
+      if (!(e instanceof ApiError)) throw e;
+      // The batch may well have been applied; the caller checks the refetched list
+      if (e.kind === "parse") {
+        return { results: outgoing.map(() => ({ ok: false, error: e.message, unknown: true })), interrupted: false };
+      }
+      // Any other refusal of the whole batch (too large, malformed, ...) is
+      // sorted out one mutation at a time
+      if (noBatchRoute(e)) batchUnsupported = true;
+    }
+  }
+
+  const results: BatchOutcome["results"] = [];
+  for (const o of outgoing) {
+    try {
+      await sendMutation(listId, o);
+      results.push({ ok: true });
+    } catch (e: any) {
+      if (e instanceof TransientSyncError) {
+        if (results.length === 0) throw e;
+        return { results, interrupted: true };
+      }
+      results.push({ ok: false, error: e.message, ...(isStale(e) ? { stale: true } : {}) });
+    }
+  }
+  return { results, interrupted: false };
+}
+
+// ---------- Conflict Resolution ----------
+type Resolution =
+  | { action: "send"; mutation: ListMutation; against?: ListItem; conflict?: SyncConflict }
+  | { action: "skip"; conflict?: SyncConflict; existingId?: string };
+
+function describe(m: QueuedMutation, server: ListItem[]) {
+  if (m.kind === "add") return m.name;
+  return server.find(i => i.id === m.itemId)?.name ?? m.base?.name ?? "פריט";
+}
+
+// Three-way check of a queued mutation against the current server state
+function resolve(m: QueuedMutation, server: ListItem[]): Resolution {
+  const itemName = describe(m, server);
+
+  if (m.kind === "add") {
+    const existing = server.find(i => !i.done && normalizeName(i.name) === normalizeName(m.name));
+    if (existing) {
+      return {
+        action: "skip",
+        existingId: existing.id,
+        conflict: { itemName, resolution: "discarded", reason: "הפריט כבר נוסף ממכשיר אחר" },
+      };
+    }
+    return { action: "send", mutation: m };
+  }
+
+  if (isLocalId(m.itemId)) {
+    return { action: "skip", conflict: { itemName, resolution: "discarded", reason: "הפריט לא נשמר בשרת" } };
+  }
+
+  const current = server.find(i => i.id === m.itemId);
+  if (!current) {
+    // Someone else already removed it - nothing to do for a remove
+    if (m.kind === "remove") return { action: "skip" };
+    return { action: "skip", conflict: { itemName, resolution: "discarded", reason: "הפריט נמחק ממכשיר אחר" } };
+  }
+
+  switch (m.kind) {
+    case "remove":
+      if (m.base && (current.quantity !== m.base.quantity || current.name !== m.base.name)) {
+        return { action: "skip", conflict: { itemName, resolution: "discarded", reason: "הפריט עודכן ממכשיר אחר ולכן לא נמחק" } };
+      }
+      return { action: "send", mutation: m, against: current };
+    case "done":
+      if (current.done === m.done) return { action: "skip" };
+      return { action: "send", mutation: m, against: current };
+    case "quantity":
+      // A delta adds to whatever other devices did, so it needs no check
+      if (m.delta === 0) return { action: "skip" };
+      return { action: "send", mutation: m, against: current };
+    case "edit": {
+      // Ours wins field by field; fields the server already has are left out
+      const changes = changedFields(current, m.changes);
+      if (Object.keys(changes).length === 0) return { action: "skip" };
+      return { action: "send", mutation: { ...m, changes }, against: current };
+    }
+  }
+}
+
+// Whether a change whose reply was lost shows in the refetched list. A delta
+// can't be told from the value alone, so a new revision means it landed.
+function landed({ mutation, against }: Outgoing, before: ListItem[], server: ListItem[]) {
+  if (mutation.kind === "add") {
+    return server.some(i => !before.some(b => b.id === i.id) && normalizeName(i.name) === normalizeName(mutation.name));
+  }
+  const current = server.find(i => i.id === mutation.itemId);
+  if (mutation.kind === "remove") return !current;
+  if (!current) return false;
+  switch (mutation.kind) {
+    case "done":
+      return current.done === mutation.done;
+    case "edit":
+      return Object.keys(changedFields(current, mutation.changes)).length === 0;
+    case "quantity":
+      return against?.rev !== undefined ? (current.rev ?? 0) > against.rev : current.quantity !== against?.quantity;
+  }
+}
+
+// ---------- Replay ----------
+type Planned = Outgoing & { queued: QueuedMutation };
+
+// Times a change refused for a stale revision, or left unanswered by an
+// unreadable reply, is resolved again before giving up
+const MAX_STALE_RETRIES = 3;
+
+// Replays the queue against the server in batches. Each round resolves every
+// mutation it can against the current server state and sends them together;
+// an item changes at most once per round, so later mutations of it (and of
+// items whose add is still in flight) wait for the next round and the
+// revision or id the server assigns. Stops (keeping the rest of the queue)
+// as soon as the connection drops. Mutations refused because the item
+// changed on another device meanwhile, or whose reply was unreadable and that
+// don't show in the refetched snapshot, are resolved again against it; others the server rejects are dropped and reported as
+// conflicts, and the snapshot is refetched so local state matches what
+// actually happened.
+export async function syncList(listId: string, queue: QueuedMutation[]): Promise<SyncResult> {
+  let server = await fetchServerList(listId);
+  const idMap: Record<string, string> = {};
+  const conflicts: SyncConflict[] = [];
+  const remap = (q: QueuedMutation): QueuedMutation => (idMap[q.itemId] ? { ...q, itemId: idMap[q.itemId] } : q);
+  let remaining = [...queue];
+  let applied = 0;
+  let offline = false;
+  const staleTries = new Map<string, number>();
+
+  while (remaining.length > 0 && !offline) {
+    const batch: Planned[] = [];
+    const deferred: QueuedMutation[] = [];
+    const waiting = new Set<string>();
+    let planned = server;
+
+    for (const queued of remaining) {
+      const m = remap(queued);
+      if (waiting.has(m.itemId)) {
+        deferred.push(queued);
+        continue;
+      }
+      const resolution = resolve(m, planned);
+      if (resolution.conflict) conflicts.push(resolution.conflict);
+      if (resolution.action === "skip") {
+        if (resolution.existingId) idMap[m.itemId] = resolution.existingId;
+        continue;
+      }
+      batch.push({ queued, mutation: resolution.mutation, against: resolution.against });
+      planned = applyMutation(planned, resolution.mutation);
+      waiting.add(m.itemId);
+    }
+
+    if (batch.length === 0) {
+      remaining = deferred;
+      continue;
+    }
+
+    let outcome: BatchOutcome;
+    try {
+      outcome = await sendBatch(listId, batch);
+    } catch (e) {
+      if (!(e instanceof TransientSyncError)) throw e;
+      offline = true;
+      remaining = keepOrder(queue, [...batch.map(b => b.queued), ...deferred]);
+      break;
+    }
+
+    const before = server;
+    let fetched: ListItem[] | null = null;
+    try {
+      fetched = await fetchServerList(listId);
+    } catch {
+      offline = true;
+    }
+
+    const retry: QueuedMutation[] = [];
+    outcome.results.forEach((result, i) => {
+      const { queued, mutation } = batch[i];
+      // Unreadable replies are settled against the fresh snapshot: what shows
+      // there was applied, the rest is resolved again
+      const settled = result.unknown && fetched && landed(batch[i], before, fetched);
+      if (!result.ok && !settled) {
+        const tries = (staleTries.get(queued.mid) ?? 0) + 1;
+        if (result.unknown && !fetched) {
+          retry.push(queued);
+          return;
+        }
+        if ((result.stale || result.unknown) && tries <= MAX_STALE_RETRIES) {
+          staleTries.set(queued.mid, tries);
+          retry.push(queued);
+          return;
+        }
+        conflicts.push({
+          itemName: describe(remap(queued), before),
+          resolution: "discarded",
+          reason: result.error || "השרת דחה את השינוי",
+        });
+        return;
+      }
+      applied++;
+      if (mutation.kind === "add") {
+        // The server assigns the id; older backends don't return it, so look the new item up
+        const created =
+          result.item ??
+          fetched?.find(i => !before.some(b => b.id === i.id) && normalizeName(i.name) === normalizeName(mutation.name));
+        if (created) idMap[mutation.itemId] = created.id;
+      }
+      // Without a fresh snapshot, apply what the server accepted to the old one
+      if (!fetched) server = applyMutation(server, mutation.kind === "add" && result.item ? { ...mutation, itemId: result.item.id } : mutation);
+    });
+    if (fetched) server = fetched;
+
+    const unanswered = batch.slice(outcome.results.length).map(b => b.queued);
+    if (outcome.interrupted) offline = true;
+    remaining = keepOrder(queue, [...unanswered, ...retry, ...deferred]);
+  }
+
+  remaining = remaining.map(remap);
+
+  await Promise.all([saveServerSnapshot(listId, server), saveQueue(listId, remaining)]);
+  return { server, queue: remaining, applied, conflicts, idMap, offline };
+}
+
+// Restores the original queue order of a subset of its mutations
+function keepOrder(queue: QueuedMutation[], subset: QueuedMutation[]) {
+  const keep = new Set(subset.map(q => q.mid));
+  return queue.filter(q => keep.has(q.mid));
+}
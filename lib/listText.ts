@@ -0,0 +1,105 @@
+import { sortCategories } from "./aisleOrder";
+import { normalizeText } from "./hebrew";
+import { parseQuickAdd, QuickAddEntry } from "./quickAdd";
+import type { ListItem } from "./types";
+
+// ---------- Types ----------
+// plain: readable anywhere; whatsapp: bold headers and bullets; checklist: ☐/☑ per item
+export type ListTextFormat = "plain" | "whatsapp" | "checklist";
+
+export type SharedEntry = QuickAddEntry & {
+  // The heading the item was listed under, if the text had one
+  category?: string;
+};
+
+// What importing a pasted list does to the list we have
+export type ImportPlan = {
+  adds: SharedEntry[];
+  // Items already on the list get the pasted quantity on top
+  bumps: { item: ListItem; quantity: number }[];
+};
+
+// ---------- Exporting ----------
+const DEFAULT_CATEGORY = "כללי";
+const TITLE_MARK = "🛒";
+
+// Written so parseQuickAdd reads it back: "חלב ×2", "עגבניות 1.5 ק״ג"
+function itemText(item: ListItem) {
+  if (item.unit) return `${item.name} ${item.quantity} ${item.unit}`;
+  return item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name;
+}
+
+// The list as text grouped by category, in aisle order when one is given.
+// Bought items are left out except in a checklist, where they're ticked.
+export function formatListText(
+  items: ListItem[],
+  { format, title, categoryOrder }: { format: ListTextFormat; title?: string; categoryOrder?: string[] }
+): string {
+  const shown = format === "checklist" ? items : items.filter(item => !item.done);
+  const grouped = new Map<string, ListItem[]>();
+  for (const item of shown) {
+    const category = item.category || DEFAULT_CATEGORY;
+    grouped.set(category, [...(grouped.get(category) ?? []), item]);
+  }
+
+  const blocks: string[] = [];
+  if (title) blocks.push(format === "whatsapp" ? `${TITLE_MARK} *${title}*` : `${TITLE_MARK} ${title}`);
+  for (const category of sortCategories([...grouped.keys()], categoryOrder)) {
+    const lines = grouped.get(category)!.map(item => {
+      if (format === "checklist") return `${item.done ? "☑" : "☐"} ${itemText(item)}`;
+      if (format === "whatsapp") return `• ${itemText(item)}`;
+      return `- ${itemText(item)}`;
+    });
+    const heading = format === "whatsapp" ? `*${category}*` : `${category}:`;
+    blocks.push([heading, ...lines].join("\n"));
+  }
+  return blocks.join("\n\n");
+}
+
+// ---------- Importing ----------
+// "*מוצרי חלב*" or "מוצרי חלב:" on a line of its own
+const HEADING = /^(?:\*([^*]+)\*|([^:]+):)$/;
+// Ticked checklist lines and WhatsApp strikethrough were already bought
+const DONE_LINE = /^(?:☑|✅|\[[xX]\])\s*|^~.+~$/;
+const CHECKBOX = /^(?:☐|⬜|\[ \])\s*/;
+
+// Parses a list someone sent: our own exports, WhatsApp messages or any
+// pasted list. Headings become categories, bought lines are skipped and the
+// same item twice adds up.
+export function parseSharedList(text: string): SharedEntry[] {
+  const entries: SharedEntry[] = [];
+  let category: string | undefined;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith(TITLE_MARK) || DONE_LINE.test(line)) continue;
+    const heading = line.match(HEADING);
+    if (heading) {
+      category = (heading[1] ?? heading[2]).trim();
+      continue;
+    }
+    // Several items on one line: "חלב, לחם, 2 במבה"
+    for (const part of line.replace(CHECKBOX, "").split(/;|,(?!\d)/)) {
+      const entry = parseQuickAdd(part);
+      if (!entry) continue;
+      const same = entries.find(e => normalizeText(e.name) === normalizeText(entry.name) && e.unit === entry.unit);
+      if (same) same.quantity += entry.quantity;
+      else entries.push({ ...entry, ...(category ? { category } : {}) });
+    }
+  }
+  return entries;
+}
+
+// Splits pasted entries into new items and ones to merge into open items
+// with the same name and unit
+export function planImport(entries: SharedEntry[], items: ListItem[]): ImportPlan {
+  const open = items.filter(item => !item.done);
+  const plan: ImportPlan = { adds: [], bumps: [] };
+  for (const entry of entries) {
+    const existing = open.find(
+      item => normalizeText(item.name).trim() === normalizeText(entry.name).trim() && (item.unit ?? undefined) === entry.unit
+    );
+    if (existing) plan.bumps.push({ item: existing, quantity: existing.quantity + entry.quantity });
+    else plan.adds.push(entry);
+  }
+  return plan;
+}
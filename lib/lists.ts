@@ -0,0 +1,114 @@
+import { api, ApiError } from "./api";
+import { applyQueue, clearSyncState, createLocalId, DEFAULT_LIST_ID, enqueue, loadSyncState, saveQueue, syncList } from "./listSync";
+import { readJSON, writeJSON } from "./storage";
+import type { ListItem, ShoppingList } from "./types";
+
+// ---------- Storage Keys ----------
+const LISTS_KEY = "lists.all";
+const ACTIVE_LIST_KEY = "lists.active";
+
+// What a backend without /api/lists has: the one list every route works on
+const SINGLE_LIST: ShoppingList = { id: DEFAULT_LIST_ID, name: "רשימת קניות", archived: false, createdAt: 0, itemCount: 0 };
+
+// ---------- Lists ----------
+// The lists as last fetched, so the switcher works offline
+export function loadCachedLists() {
+  return readJSON<ShoppingList[]>(LISTS_KEY, [SINGLE_LIST]);
+}
+
+export async function fetchLists(): Promise<ShoppingList[]> {
+  let lists: ShoppingList[];
+  try {
+    lists = await api.lists.get();
+  } catch (e) {
+    if (!(e instanceof ApiError && e.kind === "http" && e.status === 404)) throw e;
+    lists = [SINGLE_LIST];
+  }
+  await writeJSON(LISTS_KEY, lists);
+  return lists;
+}
+
+export function loadActiveListId() {
+  return readJSON<string>(ACTIVE_LIST_KEY, DEFAULT_LIST_ID);
+}
+
+export function saveActiveListId(listId: string) {
+  return writeJSON(ACTIVE_LIST_KEY, listId);
+}
+
+// The list to show when `preferred` is gone: the first one that isn't archived
+export function fallbackList(lists: ShoppingList[], preferred: string): string {
+  if (lists.some(l => l.id === preferred)) return preferred;
+  return (lists.find(l => !l.archived) ?? lists[0] ?? SINGLE_LIST).id;
+}
+
+// Deletes a list on the server and everything the device kept for it
+export async function deleteList(listId: string) {
+  await api.lists.remove(listId);
+  await clearSyncState(listId);
+}
+
+// ---------- Moving Items ----------
+// What a move queued on the target list, so it can be undone: the items it
+// added and the quantities it added to items that were already there
+export type MoveResult = {
+  added: { itemId: string; name: string }[];
+  merged: { itemId: string; delta: number }[];
+};
+
+// Queues `items` as additions to another list, keeping quantity, unit, category,
+// note, product link and done state, and tries to send them right away. The
+// caller removes them from the list they came from. An item the target already
+// has open gets the moved quantity added to it instead.
+export async function queueMoveTo(targetId: string, items: ListItem[]): Promise<MoveResult> {
+  const { server, queue } = await loadSyncState(targetId);
+  const there = new Map(applyQueue(server, queue).filter(i => !i.done).map(i => [i.name.trim(), i]));
+  let next = queue;
+  const moved: MoveResult = { added: [], merged: [] };
+  for (const item of items) {
+    const existing = item.done ? undefined : there.get(item.name.trim());
+    if (existing) {
+      next = enqueue(next, { kind: "quantity", itemId: existing.id, delta: item.quantity }, server);
+      moved.merged.push({ itemId: existing.id, delta: item.quantity });
+      continue;
+    }
+    const itemId = createLocalId();
+    next = enqueue(
+      next,
+      {
+        kind: "add",
+        itemId,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        note: item.note,
+        barcode: item.barcode,
+      },
+      server
+    );
+    if (item.done) next = enqueue(next, { kind: "done", itemId, done: true }, server);
+    moved.added.push({ itemId, name: item.name });
+  }
+  await saveQueue(targetId, next);
+  // Offline is fine: the queue is replayed when that list is opened
+  syncList(targetId, next).catch(() => {});
+  return moved;
+}
+
+// Takes a move back off the target list. Adds that already synced have a
+// server id by now, so those are found by name.
+export async function undoMoveTo(targetId: string, moved: MoveResult) {
+  const { server, queue } = await loadSyncState(targetId);
+  const items = applyQueue(server, queue);
+  let next = queue;
+  for (const { itemId, name } of moved.added) {
+    const item = items.find(i => i.id === itemId) ?? items.find(i => i.name.trim() === name.trim());
+    if (item) next = enqueue(next, { kind: "remove", itemId: item.id }, server);
+  }
+  for (const { itemId, delta } of moved.merged) {
+    next = enqueue(next, { kind: "quantity", itemId, delta: -delta }, server);
+  }
+  await saveQueue(targetId, next);
+  syncList(targetId, next).catch(() => {});
+}
@@ -0,0 +1,56 @@
+import type { Offer, SupermarketItem, SupermarketPlace } from "./types";
+
+// ---------- Supermarket Name Translation ----------
+export function translateSupermarket(name: string) {
+  if (!name) return "";
+  const n = name.trim().toLowerCase();
+  if (n.includes("yohananof")) return "יוחננוף";
+  if (n.includes("osherad")) return "אושר עד";
+  if (n.includes("rami levi")) return "רמי לוי";
+  return name;
+}
+
+// Flattens the per-supermarket price files into one entry per ItemCode,
+// each carrying the offers of every supermarket that sells it.
+export function groupOffersByItemCode(data: SupermarketPlace[]): SupermarketItem[] {
+  const itemMap = new Map<string, Offer[]>();
+
+  data.forEach((supermarket) => {
+    const name = supermarket.supermarket_name || supermarket.Name || "";
+    const branch = supermarket.yohananof?.StoreName || "";
+
+    // Fix: Check if `Item` is an array or a single object
+    const itemsData = supermarket.Root?.Items?.Item;
+    const itemsArr = Array.isArray(itemsData) ? itemsData : (itemsData ? [itemsData] : []);
+
+    itemsArr.forEach((item: SupermarketItem) => {
+      if (!item.ItemCode) return;
+      if (!itemMap.has(item.ItemCode)) itemMap.set(item.ItemCode, []);
+
+      let promo = undefined;
+      if (item.promo) {
+        promo = {
+          DiscountedPrice: item.promo.DiscountedPrice,
+          MinQty: item.promo.MinQty,
+          PromotionDescription: item.promo.PromotionDescription,
+          DiscountedPricePerMida: item.promo.DiscountedPricePerMida,
+          PromotionEndDate: item.promo.PromotionEndDate,
+        };
+      }
+
+      itemMap.get(item.ItemCode)!.push({
+        item,
+        supermarket: name,
+        branch,
+        promo,
+      });
+    });
+  });
+
+  const uniqueItems: SupermarketItem[] = [];
+  itemMap.forEach((offers) => {
+    const main = { ...offers[0].item, Offers: offers };
+    uniqueItems.push(main);
+  });
+  return uniqueItems;
+}
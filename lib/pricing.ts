@@ -0,0 +1,101 @@
+import type { SupermarketItem } from "./types";
+
+// ---------- Types ----------
+export type PriceQuote = {
+  quantity: number;
+  // What `quantity` units actually cost, promotions included
+  total: number;
+  // total / quantity
+  unitPrice: number;
+  // What `quantity` units cost at the shelf price
+  regularTotal: number;
+  savings: number;
+  // True when a promotion lowered the total for this quantity
+  promoApplied: boolean;
+  // True when the item has a promotion that hasn't expired
+  promoActive: boolean;
+  // Units needed to unlock the promotion (1 for a plain discount)
+  minQty: number;
+};
+
+// ---------- Helpers ----------
+function toNumber(v: unknown) {
+  const n = typeof v === "number" ? v : parseFloat(String(v ?? ""));
+  return isFinite(n) ? n : NaN;
+}
+
+// A promotion without an end date (or with one we can't parse) is treated as running
+export function isPromoActive(item: SupermarketItem, now: Date = new Date()) {
+  const promo = item.promo;
+  if (!promo || !isFinite(toNumber(promo.DiscountedPrice))) return false;
+  if (!promo.PromotionEndDate) return true;
+  const end = new Date(promo.PromotionEndDate);
+  if (isNaN(end.getTime())) return true;
+  // End dates are given as a day; the promotion runs until the end of it
+  if (/^\d{4}-\d{2}-\d{2}$/.test(promo.PromotionEndDate.trim())) end.setHours(23, 59, 59, 999);
+  return end.getTime() >= now.getTime();
+}
+
+// Price of one promotion bundle of `minQty` units.
+// Price files use DiscountedPrice for the whole bundle in multi-buy deals ("3 ב-20"),
+// but some chains publish the per-unit price instead. A bundle can't cost less than
+// one unit at the shelf price, so a smaller number is read as a per-unit price.
+function bundlePrice(discounted: number, minQty: number, regular: number) {
+  if (minQty <= 1) return discounted;
+  if (isFinite(regular) && discounted < regular) return discounted * minQty;
+  return discounted;
+}
+
+// ---------- Quote ----------
+// Real cost of buying `quantity` units, applying multi-buy thresholds and skipping
+// expired promotions. Units beyond the last full bundle are charged at shelf price.
+export function quotePrice(item: SupermarketItem, quantity = 1, now: Date = new Date()): PriceQuote {
+  const qty = Math.max(0, quantity);
+  const regular = toNumber(item.ItemPrice);
+  const promoActive = isPromoActive(item, now);
+  const minQty = promoActive ? Math.max(1, Math.round(toNumber(item.promo!.MinQty)) || 1) : 1;
+
+  let regularTotal = regular * qty;
+  let total = regularTotal;
+  let promoApplied = false;
+
+  if (promoActive && qty >= minQty) {
+    const discounted = toNumber(item.promo!.DiscountedPrice);
+    const bundle = bundlePrice(discounted, minQty, regular);
+    const bundles = Math.floor(qty / minQty);
+    const remainder = qty - bundles * minQty;
+    // Without a shelf price the remainder can only be priced per bundle unit
+    const remainderUnit = isFinite(regular) ? regular : bundle / minQty;
+    const promoTotal = bundles * bundle + remainder * remainderUnit;
+    if (!isFinite(total) || promoTotal < total) {
+      total = promoTotal;
+      promoApplied = true;
+    }
+    if (!isFinite(regularTotal)) regularTotal = total;
+  }
+
+  const unitPrice = qty > 0 ? total / qty : isFinite(regular) ? regular : NaN;
+  return {
+    quantity: qty,
+    total,
+    unitPrice,
+    regularTotal,
+    savings: isFinite(regularTotal) && isFinite(total) ? Math.max(0, regularTotal - total) : 0,
+    promoApplied,
+    promoActive,
+    minQty,
+  };
+}
+
+// Effective per-unit price when buying `quantity` units
+export function effectiveUnitPrice(item: SupermarketItem, quantity = 1, now: Date = new Date()) {
+  return quotePrice(item, quantity, now).unitPrice;
+}
+
+// The running promotion as shown to the user: "N for X" plus the resulting unit price
+export function activeDeal(item: SupermarketItem, now: Date = new Date()) {
+  if (!isPromoActive(item, now)) return null;
+  const quote = quotePrice(item, quotePrice(item, 1, now).minQty, now);
+  if (!quote.promoApplied || !isFinite(quote.total)) return null;
+  return { minQty: quote.minQty, total: quote.total, unitPrice: quote.unitPrice };
+}
@@ -0,0 +1,51 @@
+import { matchScore } from "./autocomplete";
+import { normalizeText } from "./hebrew";
+import { lineMatchScore } from "./reconcile";
+import type { Product } from "./types";
+
+// ---------- Search ----------
+const MAX_RESULTS = 6;
+// Typing digits searches by barcode
+const BARCODE_QUERY = /^\d{3,}$/;
+
+// Catalogue products for the item editor's search: by the start of a barcode,
+// or by name with the brand as a weaker match
+export function searchProducts(query: string, products: Record<string, Product>, limit = MAX_RESULTS): Product[] {
+  const q = query.trim();
+  if (!q) return [];
+  const linkable = Object.values(products).filter(product => product.barcode);
+  if (BARCODE_QUERY.test(q)) return linkable.filter(product => product.barcode!.startsWith(q)).slice(0, limit);
+  return linkable
+    .map(product => ({
+      product,
+      score: Math.max(matchScore(q, product.name ?? ""), 0.8 * matchScore(q, product.brand ?? "")),
+    }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || (a.product.name ?? "").localeCompare(b.product.name ?? ""))
+    .slice(0, limit)
+    .map(match => match.product);
+}
+
+// ---------- Suggestions ----------
+// A runner-up this close makes the best match a guess
+const AMBIGUOUS_MARGIN = 0.25;
+
+// The product an item most likely stands for: every word of the item's name is
+// in the product's ("חלב" -> "חלב 3% תנובה 1 ליטר"). When two products fit
+// about as well the item is left unlinked.
+export function suggestProduct(name: string, products: Record<string, Product>): Product | undefined {
+  const ranked = Object.values(products)
+    .filter(product => product.barcode && product.name)
+    .map(product => ({ product, score: lineMatchScore(name, product.name!) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) return undefined;
+  if (ranked.length > 1 && ranked[0].score - ranked[1].score < AMBIGUOUS_MARGIN) return undefined;
+  return ranked[0].product;
+}
+
+// Items added under a product's exact name are linked right away
+export function exactProduct(name: string, products: Record<string, Product>): Product | undefined {
+  const key = normalizeText(name).trim();
+  return Object.values(products).find(product => product.barcode && normalizeText(product.name ?? "").trim() === key);
+}
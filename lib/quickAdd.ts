@@ -0,0 +1,153 @@
+// ---------- Types ----------
+export type QuickAddEntry = {
+  name: string;
+  quantity: number;
+  // Canonical unit, e.g. "ק״ג"; missing for plain counts
+  unit?: string;
+};
+
+// ---------- Vocabulary ----------
+// Spellings people type for each unit, without quote marks (see normalizeToken)
+const UNIT_ALIASES: Record<string, string[]> = {
+  "ק״ג": ["קג", "קילו", "kg", "kilo", "kilos"],
+  "גרם": ["גרם", "גר", "g", "gr", "gram", "grams"],
+  "ליטר": ["ליטר", "ל", "l", "liter", "liters", "litre", "litres"],
+  "מ״ל": ["מל", "ml"],
+  "חבילה": ["חבילה", "חבילות", "pack", "packs"],
+  "בקבוק": ["בקבוק", "בקבוקים", "bottle", "bottles"],
+  "קופסה": ["קופסה", "קופסאות", "קופסא", "can", "cans", "box", "boxes"],
+};
+
+// Count words carry no unit of their own
+const COUNT_WORDS = ["יח", "יחידה", "יחידות", "pc", "pcs", "unit", "units"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  אחד: 1, אחת: 1, one: 1,
+  שניים: 2, שני: 2, שתיים: 2, שתי: 2, two: 2,
+  שלוש: 3, שלושה: 3, three: 3,
+  ארבע: 4, ארבעה: 4, four: 4,
+  חמש: 5, חמישה: 5, five: 5,
+  שש: 6, שישה: 6, six: 6,
+  שבע: 7, שבעה: 7, seven: 7,
+  שמונה: 8, eight: 8,
+  תשע: 9, תשעה: 9, nine: 9,
+  עשר: 10, עשרה: 10, ten: 10,
+};
+
+const UNITS = new Map<string, string | undefined>([
+  ...Object.entries(UNIT_ALIASES).flatMap(([unit, aliases]) => aliases.map(a => [a, unit] as [string, string])),
+  ...COUNT_WORDS.map(w => [w, undefined] as [string, undefined]),
+]);
+
+// Units an item can be measured in, as written on the list
+export const UNIT_NAMES = Object.keys(UNIT_ALIASES);
+
+// Kilos and liters go up and down in halves, everything else in whole units
+export function quantityStep(unit?: string) {
+  return unit === "ק״ג" || unit === "ליטר" ? 0.5 : 1;
+}
+
+// A typed quantity, or null when it isn't a number or is less than one step
+// of the unit (half a loaf of bread)
+export function parseQuantity(text: string, unit?: string) {
+  const value = Number(text.replace(",", "."));
+  return Number.isFinite(value) && value >= quantityStep(unit) ? value : null;
+}
+
+const NUMBER = /^\d+(?:[.,]\d+)?$/;
+const MULTIPLIER = /^(?:[x×*](\d+(?:[.,]\d+)?)|(\d+(?:[.,]\d+)?)[x×*])$/i;
+const NUMBER_WITH_UNIT = /^(\d+(?:[.,]\d+)?)(\D+)$/;
+// "1." / "2)" numbering and bullets of pasted lists
+const LIST_MARKER = /^(?:\d+[.)]|[-*•·▪☐✓✔]|\[[ xX]?\])\s+/;
+
+// ---------- Helpers ----------
+// Lowercases and drops geresh/gershayim and quotes, so ק"ג, ק״ג and קג compare equal
+function normalizeToken(token: string) {
+  return token.toLowerCase().replace(/["'׳״`.]/g, "");
+}
+
+function toNumber(text: string) {
+  return Number(text.replace(",", "."));
+}
+
+function unitOf(token: string): { found: boolean; unit?: string } {
+  const key = normalizeToken(token);
+  return UNITS.has(key) ? { found: true, unit: UNITS.get(key) } : { found: false };
+}
+
+// A leading or trailing quantity token: "3", "x2", "2x", "שתי", "2kg"
+function readQuantity(token: string): { quantity: number; unit?: string } | null {
+  if (NUMBER.test(token)) return { quantity: toNumber(token) };
+  const multiplier = token.match(MULTIPLIER);
+  if (multiplier) return { quantity: toNumber(multiplier[1] ?? multiplier[2]) };
+  const word = NUMBER_WORDS[token.toLowerCase()];
+  if (word) return { quantity: word };
+  const withUnit = token.match(NUMBER_WITH_UNIT);
+  if (withUnit) {
+    const { found, unit } = unitOf(withUnit[2]);
+    if (found) return { quantity: toNumber(withUnit[1]), unit };
+  }
+  return null;
+}
+
+// ---------- Parsing ----------
+// Parses one line like "3 חלב 3%", "2 ק״ג עגבניות", "bread x2" or "עגבניות 1.5 קילו".
+// Returns null for lines with nothing to add.
+export function parseQuickAdd(line: string): QuickAddEntry | null {
+  const text = line.replace(LIST_MARKER, "").trim();
+  if (!text) return null;
+  const tokens = text.split(/\s+/);
+  let quantity: number | undefined;
+  let unit: string | undefined;
+
+  // Leading quantity, optionally followed by a unit: "2 ק״ג עגבניות", "x2 לחם"
+  const leading = tokens.length > 1 ? readQuantity(tokens[0]) : null;
+  if (leading) {
+    tokens.shift();
+    ({ quantity, unit } = leading);
+    const next = tokens.length > 1 ? unitOf(tokens[0]) : { found: false };
+    if (next.found && !leading.unit) {
+      tokens.shift();
+      unit = next.unit;
+    }
+  } else if (tokens.length > 1) {
+    // Trailing quantity: "לחם x2", "עגבניות 2 ק״ג", "bread 2kg". A bare
+    // trailing number stays part of the name ("ביצים L 12").
+    const last = tokens[tokens.length - 1];
+    const lastUnit = unitOf(last);
+    const beforeLast = tokens[tokens.length - 2];
+    if (MULTIPLIER.test(last)) {
+      quantity = readQuantity(last)!.quantity;
+      tokens.pop();
+    } else if (lastUnit.found && tokens.length > 2 && NUMBER.test(beforeLast)) {
+      quantity = toNumber(beforeLast);
+      unit = lastUnit.unit;
+      tokens.splice(-2);
+    } else if (/^[x×*]$/i.test(beforeLast) && NUMBER.test(last) && tokens.length > 2) {
+      quantity = toNumber(last);
+      tokens.splice(-2);
+    } else if (!NUMBER.test(last) && NUMBER_WITH_UNIT.test(last) && readQuantity(last)) {
+      ({ quantity, unit } = readQuantity(last)!);
+      tokens.pop();
+    }
+  }
+
+  const name = tokens.join(" ").trim();
+  if (!name) return null;
+  const valid = quantity !== undefined && quantity >= quantityStep(unit);
+  return { name, quantity: valid ? quantity! : 1, ...(unit ? { unit } : {}) };
+}
+
+// Parses a pasted list: one item per line, or comma separated. Commas between
+// digits are decimal commas ("1,5 ק״ג"). The same item twice adds up.
+export function parseQuickAddList(text: string): QuickAddEntry[] {
+  const entries: QuickAddEntry[] = [];
+  for (const part of text.split(/\r?\n|;|,(?!\d)/)) {
+    const entry = parseQuickAdd(part);
+    if (!entry) continue;
+    const same = entries.find(e => e.name === entry.name && e.unit === entry.unit);
+    if (same) same.quantity += entry.quantity;
+    else entries.push(entry);
+  }
+  return entries;
+}
@@ -0,0 +1,131 @@
+import { normalizeText, tokenize, wordKey, wordVariants } from "./hebrew";
+import { enqueue, ListMutation, loadSyncState, saveQueue, syncList, TransientSyncError } from "./listSync";
+import { readJSON, writeJSON } from "./storage";
+import type { ListItem, ReceiptLine } from "./types";
+
+// ---------- Storage Keys ----------
+const FORGOTTEN_KEY = "receipts.forgotten";
+
+// ---------- Types ----------
+// What the receipt says should happen to one list item
+export type ReconcileAction =
+  | { kind: "done"; item: ListItem; line: ReceiptLine }
+  // Only part was bought; `remaining` stays on the list
+  | { kind: "reduce"; item: ListItem; line: ReceiptLine; remaining: number };
+
+export type Reconciliation = {
+  actions: ReconcileAction[];
+  // Open items nothing on the receipt matched
+  forgotten: ListItem[];
+  // Bought, but not on the list
+  extras: ReceiptLine[];
+};
+
+// List id -> the items the last receipt for that list didn't cover
+type ForgottenItems = Record<string, { receiptId: string; itemIds: string[] }>;
+
+// ---------- Matching ----------
+// How well a receipt line names a list item, 0 when some word of the item is
+// missing from the line. "חלב" matches "חלב 3% תנובה 1 ליטר"; a line that
+// starts with the item and adds little else scores higher.
+export function lineMatchScore(itemName: string, lineName: string) {
+  if (normalizeText(itemName).trim() === normalizeText(lineName).trim()) return 3;
+  const itemWords = tokenize(itemName);
+  const lineWords = tokenize(lineName);
+  if (itemWords.length === 0 || lineWords.length === 0) return 0;
+  const lineKeys = new Set(lineWords.flatMap(word => wordVariants(word).map(v => v.key)));
+  const found = itemWords.every(word => wordVariants(word).some(v => lineKeys.has(v.key)));
+  if (!found) return 0;
+  const head = wordKey(lineWords[0]) === wordKey(itemWords[0]) ? 0.5 : 0;
+  return 1 + head - 0.05 * (lineWords.length - itemWords.length);
+}
+
+// A line with the barcode an item is linked to beats any name match
+const BARCODE_SCORE = 4;
+
+// Lines for the same product (scanned twice, or split by a discount) count once
+function mergeLines(lines: ReceiptLine[]): ReceiptLine[] {
+  const byBarcode = new Map<string, ReceiptLine>();
+  for (const line of lines) {
+    const key = line.barcode || line.name;
+    const existing = byBarcode.get(key);
+    if (existing) existing.quantity += line.quantity;
+    else byBarcode.set(key, { ...line });
+  }
+  return [...byBarcode.values()];
+}
+
+// Matches what was bought against the open items of a list, each line to at
+// most one item, best matches first. Items linked to a product match its
+// barcode first. Items with a unit (kilos, liters) can't be compared to a
+// count of packages, so a match always marks them done.
+export function reconcileReceipt(items: ListItem[], lines: ReceiptLine[]): Reconciliation {
+  const open = items.filter(item => !item.done);
+  const merged = mergeLines(lines);
+  const pairs: { item: ListItem; line: ReceiptLine; score: number }[] = [];
+  for (const item of open) {
+    for (const line of merged) {
+      const score =
+        item.barcode && item.barcode === line.barcode ? BARCODE_SCORE : lineMatchScore(item.name, line.name);
+      if (score > 0) pairs.push({ item, line, score });
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const usedItems = new Set<string>();
+  const usedLines = new Set<ReceiptLine>();
+  const actions: ReconcileAction[] = [];
+  for (const { item, line } of pairs) {
+    if (usedItems.has(item.id) || usedLines.has(line)) continue;
+    usedItems.add(item.id);
+    usedLines.add(line);
+    const bought = Math.max(1, line.quantity);
+    if (item.unit || bought >= item.quantity) actions.push({ kind: "done", item, line });
+    else actions.push({ kind: "reduce", item, line, remaining: item.quantity - bought });
+  }
+
+  return {
+    actions,
+    // A receipt from another kind of shop matches nothing; that isn't forgetting
+    forgotten: actions.length > 0 ? open.filter(item => !usedItems.has(item.id)) : [],
+    extras: merged.filter(line => !usedLines.has(line)),
+  };
+}
+
+// ---------- Applying ----------
+export function toMutations(actions: ReconcileAction[]): ListMutation[] {
+  return actions.map(action =>
+    action.kind === "done"
+      ? { kind: "done", itemId: action.item.id, done: true }
+      : { kind: "quantity", itemId: action.item.id, delta: action.remaining - action.item.quantity }
+  );
+}
+
+// Queues the accepted actions on the list behind whatever is already pending
+// there and syncs it right away. Returns how many changes the server refused;
+// without a connection they stay queued for the list's next sync.
+export async function applyReconciliation(listId: string, actions: ReconcileAction[]): Promise<number> {
+  if (actions.length === 0) return 0;
+  const { server, queue } = await loadSyncState(listId);
+  let next = queue;
+  for (const mutation of toMutations(actions)) next = enqueue(next, mutation, server);
+  await saveQueue(listId, next);
+  try {
+    const { conflicts } = await syncList(listId, next);
+    return conflicts.length;
+  } catch (e) {
+    if (e instanceof TransientSyncError) return 0;
+    throw e;
+  }
+}
+
+// ---------- Forgotten Items ----------
+export async function loadForgotten(listId: string): Promise<string[]> {
+  const all = await readJSON<ForgottenItems>(FORGOTTEN_KEY, {});
+  return all[listId]?.itemIds ?? [];
+}
+
+export async function saveForgotten(listId: string, receiptId: string, itemIds: string[]) {
+  const all = await readJSON<ForgottenItems>(FORGOTTEN_KEY, {});
+  await writeJSON(FORGOTTEN_KEY, { ...all, [listId]: { receiptId, itemIds } });
+}
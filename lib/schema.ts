@@ -0,0 +1,216 @@
+// ---------- Declarative Response Schemas ----------
+// A small validator for backend payloads. Schemas are built from the combinators
+// below; `validate` checks a payload against one, drops malformed records from
+// arrays and records, and reports every field that failed.
+
+export type SchemaIssue = {
+  // Where the problem is, e.g. "receipts[3].total"
+  path: string;
+  message: string;
+};
+
+const INVALID: unique symbol = Symbol("invalid");
+type Checked<T> = T | typeof INVALID;
+
+export type Schema<T> = {
+  // Human-readable name used in diagnostics ("number", "array of Receipt", ...)
+  description: string;
+  check: (value: unknown, path: string, issues: SchemaIssue[]) => Checked<T>;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// ---------- Helpers ----------
+function describeValue(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string ${JSON.stringify(value.length > 30 ? `${value.slice(0, 30)}…` : value)}`;
+  if (typeof value === "number" || typeof value === "boolean") return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+function fail(issues: SchemaIssue[], path: string, expected: string, value: unknown): typeof INVALID {
+  issues.push({ path: path || "(root)", message: `expected ${expected}, got ${describeValue(value)}` });
+  return INVALID;
+}
+
+function join(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ---------- Primitives ----------
+export const string = (): Schema<string> => ({
+  description: "string",
+  check: (v, path, issues) => (typeof v === "string" ? v : fail(issues, path, "string", v)),
+});
+
+export const number = (): Schema<number> => ({
+  description: "number",
+  check: (v, path, issues) => (typeof v === "number" && isFinite(v) ? v : fail(issues, path, "number", v)),
+});
+
+export const boolean = (): Schema<boolean> => ({
+  description: "boolean",
+  check: (v, path, issues) => (typeof v === "boolean" ? v : fail(issues, path, "boolean", v)),
+});
+
+export const literal = <T extends string | number | boolean>(expected: T): Schema<T> => ({
+  description: JSON.stringify(expected),
+  check: (v, path, issues) => (v === expected ? expected : fail(issues, path, JSON.stringify(expected), v)),
+});
+
+// Ids and codes arrive as either strings or numbers; both are normalized to strings
+export const id = (): Schema<string> => ({
+  description: "id",
+  check: (v, path, issues) =>
+    typeof v === "string" || (typeof v === "number" && isFinite(v)) ? String(v) : fail(issues, path, "string or number", v),
+});
+
+export const unknownValue = (): Schema<unknown> => ({
+  description: "any",
+  check: v => v,
+});
+
+// ---------- Modifiers ----------
+// Missing (undefined or null) is allowed and becomes undefined
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  description: `optional ${schema.description}`,
+  check: (v, path, issues) => (v === undefined || v === null ? undefined : schema.check(v, path, issues)),
+});
+
+// Missing is allowed and kept as null
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  description: `${schema.description} or null`,
+  check: (v, path, issues) => (v === undefined || v === null ? null : schema.check(v, path, issues)),
+});
+
+// Missing values are replaced by `fallback`; present values must still be valid
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => ({
+  description: schema.description,
+  check: (v, path, issues) => (v === undefined || v === null ? fallback : schema.check(v, path, issues)),
+});
+
+// The first alternative that accepts the value wins, so list stricter ones first
+export const oneOf = <T extends Schema<any>[]>(...schemas: T): Schema<Infer<T[number]>> => {
+  const description = schemas.map(s => s.description).join(" or ");
+  return {
+    description,
+    check: (v, path, issues) => {
+      for (const schema of schemas) {
+        const attempt: SchemaIssue[] = [];
+        const result = schema.check(v, path, attempt);
+        if (result !== INVALID) {
+          issues.push(...attempt);
+          return result;
+        }
+      }
+      return fail(issues, path, description, v);
+    },
+  };
+};
+
+// ---------- Structures ----------
+// Validates the listed fields; fields not in the shape are kept as they are
+export const object = <S extends Record<string, Schema<any>>>(
+  shape: S,
+  name = "object"
+): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+  description: name,
+  check: (v, path, issues) => {
+    if (!isPlainObject(v)) return fail(issues, path, name, v);
+    const result: Record<string, unknown> = { ...v };
+    let valid = true;
+    for (const key of Object.keys(shape)) {
+      const checked = shape[key].check(v[key], join(path, key), issues);
+      if (checked === INVALID) valid = false;
+      else if (checked === undefined) delete result[key];
+      else result[key] = checked;
+    }
+    return valid ? (result as { [K in keyof S]: Infer<S[K]> }) : INVALID;
+  },
+});
+
+// Runs `check` on an element in isolation, so a bad record is reported and
+// dropped instead of invalidating the whole collection
+function checkRecord<T>(schema: Schema<T>, value: unknown, path: string, issues: SchemaIssue[]): Checked<T> {
+  const own: SchemaIssue[] = [];
+  const result = schema.check(value, path, own);
+  issues.push(...own);
+  if (result === INVALID) issues.push({ path, message: `dropped malformed ${schema.description}` });
+  return result;
+}
+
+export const arrayOf = <T>(schema: Schema<T>): Schema<T[]> => ({
+  description: `array of ${schema.description}`,
+  check: (v, path, issues) => {
+    if (!Array.isArray(v)) return fail(issues, path, `array of ${schema.description}`, v);
+    const result: T[] = [];
+    v.forEach((element, i) => {
+      const checked = checkRecord(schema, element, join(path, i), issues);
+      if (checked !== INVALID) result.push(checked);
+    });
+    return result;
+  },
+});
+
+export const recordOf = <T>(schema: Schema<T>): Schema<Record<string, T>> => ({
+  description: `record of ${schema.description}`,
+  check: (v, path, issues) => {
+    if (!isPlainObject(v)) return fail(issues, path, `record of ${schema.description}`, v);
+    const result: Record<string, T> = {};
+    for (const [key, element] of Object.entries(v)) {
+      const checked = checkRecord(schema, element, join(path, key), issues);
+      if (checked !== INVALID) result[key] = checked;
+    }
+    return result;
+  },
+});
+
+// An object with some named fields plus any number of other keys that all
+// follow `rest` (e.g. /api/list: items keyed by id next to `suggestions`)
+export const objectWithRest = <S extends Record<string, Schema<any>>, R>(
+  shape: S,
+  rest: Schema<R>,
+  name = "object"
+): Schema<{ [K in keyof S]: Infer<S[K]> } & { [key: string]: R | Infer<S[keyof S]> }> => {
+  const known = object(shape, name);
+  return {
+    description: name,
+    check: (v, path, issues) => {
+      const head = known.check(v, path, issues);
+      if (head === INVALID || !isPlainObject(v)) return INVALID;
+      const result: Record<string, unknown> = { ...head };
+      for (const [key, element] of Object.entries(v)) {
+        if (key in shape) continue;
+        const checked = checkRecord(rest, element, join(path, key), issues);
+        if (checked === INVALID) delete result[key];
+        else result[key] = checked;
+      }
+      return result as { [K in keyof S]: Infer<S[K]> } & { [key: string]: R | Infer<S[keyof S]> };
+    },
+  };
+};
+
+// Names a schema for diagnostics ("dropped malformed Receipt")
+export const named = <T>(name: string, schema: Schema<T>): Schema<T> => ({ ...schema, description: name });
+
+// ---------- Validation ----------
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues: SchemaIssue[] }
+  | { ok: false; issues: SchemaIssue[] };
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: SchemaIssue[] = [];
+  const result = schema.check(value, "", issues);
+  if (result === INVALID) return { ok: false, issues };
+  return { ok: true, value: result, issues };
+}
+
+export function formatIssues(issues: SchemaIssue[]) {
+  return issues.map(issue => `  ${issue.path}: ${issue.message}`).join("\n");
+}
@@ -0,0 +1,38 @@
+import type { ListMutation } from "./listSync";
+import type { ListItem } from "./types";
+
+// ---------- Types ----------
+// What can be done to several selected items at once
+export type BulkAction =
+  | { kind: "done"; done: boolean }
+  | { kind: "remove" }
+  | { kind: "category"; category: string }
+  | { kind: "quantity"; quantity: number };
+
+// ---------- Mutations ----------
+// The mutations that apply `action` to `items`, leaving out items it wouldn't change
+export function bulkMutations(items: ListItem[], action: BulkAction): ListMutation[] {
+  switch (action.kind) {
+    case "done":
+      return items
+        .filter(item => item.done !== action.done)
+        .map(item => ({ kind: "done", itemId: item.id, done: action.done }));
+    case "remove":
+      return items.map(item => ({ kind: "remove", itemId: item.id }));
+    case "category":
+      return items
+        .filter(item => (item.category || "כללי") !== action.category)
+        .map(item => ({ kind: "edit", itemId: item.id, changes: { category: action.category } }));
+    case "quantity":
+      return items
+        .filter(item => item.quantity !== action.quantity)
+        .map(item => ({ kind: "quantity", itemId: item.id, delta: action.quantity - item.quantity }));
+  }
+}
+
+// ---------- Keeping The Selection ----------
+// Offline-added items get their server id on sync; the selection follows them
+export function remapSelection(selected: Set<string>, idMap: Record<string, string>): Set<string> {
+  if (!Object.keys(idMap).some(id => selected.has(id))) return selected;
+  return new Set([...selected].map(id => idMap[id] ?? id));
+}
@@ -0,0 +1,160 @@
+import { api } from "./api";
+import { matchScore } from "./autocomplete";
+import { readJSON, writeJSON } from "./storage";
+import type { ListItem, ProductStats } from "./types";
+
+// ---------- Storage Keys ----------
+const THRESHOLDS_KEY = "staples.thresholds";
+const SNOOZES_KEY = "staples.snoozed";
+
+// ---------- Types ----------
+export type StapleThresholds = {
+  // Flag a staple once this share of its usual interval has passed
+  dueRatio: number;
+  // Purchases (on different days) needed before we trust an interval
+  minPurchases: number;
+  // Products bought less often than this aren't staples
+  maxIntervalDays: number;
+  // How long "not now" hides a staple
+  snoozeDays: number;
+};
+
+export const DEFAULT_STAPLE_THRESHOLDS: StapleThresholds = {
+  dueRatio: 0.85,
+  minPurchases: 3,
+  maxIntervalDays: 45,
+  snoozeDays: 7,
+};
+
+// Barcode -> epoch ms until which the staple stays hidden
+export type StapleSnoozes = Record<string, number>;
+
+// What the receipts say about one product
+export type StapleHistory = Pick<ProductStats, "barcode" | "name" | "history">;
+
+export type StapleCadence = {
+  barcode: string;
+  name: string;
+  // Distinct days the product was bought on
+  purchases: number;
+  // Usual days between purchases, scaled by how much was bought last time
+  intervalDays: number;
+  lastPurchased: number;
+  lastQuantity: number;
+};
+
+export type DueStaple = StapleCadence & {
+  // Share of the interval that has passed since the last purchase
+  progress: number;
+  daysLeft: number;
+};
+
+// ---------- Cadence ----------
+const DAY = 24 * 60 * 60 * 1000;
+// Long past its interval means the household stopped buying it
+const STALE_RATIO = 3;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Learns how often a product is bought from its receipt history. Purchases on
+// the same day count once; each gap is divided by the quantity bought before
+// it, so stocking up on six cartons doesn't look like a slow month.
+export function estimateCadence(
+  stats: StapleHistory,
+  thresholds: StapleThresholds = DEFAULT_STAPLE_THRESHOLDS
+): StapleCadence | null {
+  const byDay = new Map<number, number>();
+  for (const point of stats.history) {
+    const time = Date.parse(point.date);
+    if (Number.isNaN(time)) continue;
+    const day = Math.floor(time / DAY) * DAY;
+    byDay.set(day, (byDay.get(day) ?? 0) + Math.max(1, point.quantity || 1));
+  }
+  const days = [...byDay.keys()].sort((a, b) => a - b);
+  if (days.length < Math.max(2, thresholds.minPurchases)) return null;
+
+  const perUnit: number[] = [];
+  for (let i = 1; i < days.length; i++) {
+    perUnit.push((days[i] - days[i - 1]) / DAY / byDay.get(days[i - 1])!);
+  }
+  const lastPurchased = days[days.length - 1];
+  const lastQuantity = byDay.get(lastPurchased)!;
+  const intervalDays = Math.max(1, median(perUnit) * lastQuantity);
+  if (intervalDays > thresholds.maxIntervalDays) return null;
+
+  return { barcode: stats.barcode, name: stats.name, purchases: days.length, intervalDays, lastPurchased, lastQuantity };
+}
+
+// The staples that are probably running out, most overdue first. Anything
+// snoozed or already open on the list is left out: linked to the same product,
+// or named so the autocomplete would offer the staple for it ("חלב" covers
+// "חלב 3% תנובה").
+export function findRunningOut(
+  histories: StapleHistory[],
+  {
+    thresholds = DEFAULT_STAPLE_THRESHOLDS,
+    snoozes = {},
+    onList = [],
+    now = Date.now(),
+  }: {
+    thresholds?: StapleThresholds;
+    snoozes?: StapleSnoozes;
+    onList?: Pick<ListItem, "name" | "barcode">[];
+    now?: number;
+  } = {}
+): DueStaple[] {
+  const barcodes = new Set(onList.flatMap(item => (item.barcode ? [item.barcode] : [])));
+  const due: DueStaple[] = [];
+  for (const history of histories) {
+    const cadence = estimateCadence(history, thresholds);
+    if (!cadence) continue;
+    if ((snoozes[cadence.barcode] ?? 0) > now) continue;
+    if (barcodes.has(cadence.barcode) || onList.some(item => matchScore(item.name, cadence.name) === 1)) continue;
+    const elapsedDays = (now - cadence.lastPurchased) / DAY;
+    const progress = elapsedDays / cadence.intervalDays;
+    if (progress < thresholds.dueRatio || progress > STALE_RATIO) continue;
+    due.push({ ...cadence, progress, daysLeft: Math.round(cadence.intervalDays - elapsedDays) });
+  }
+  return due.sort((a, b) => b.progress - a.progress);
+}
+
+// ---------- Sources ----------
+// Purchase dates of the most bought products, the candidates for staples.
+// Products whose history fails to load are skipped.
+export async function loadStapleHistories(): Promise<StapleHistory[]> {
+  const stats = await api.stats.get();
+  const histories = await Promise.all(
+    stats.top_10_product_purchased.map(product => api.stats.product(product.barcode).catch(() => null))
+  );
+  return histories.flatMap((history, i) =>
+    history ? [{ barcode: history.barcode, name: stats.top_10_product_purchased[i].name, history: history.history }] : []
+  );
+}
+
+// ---------- Settings ----------
+export async function loadStapleThresholds(): Promise<StapleThresholds> {
+  return { ...DEFAULT_STAPLE_THRESHOLDS, ...(await readJSON<Partial<StapleThresholds>>(THRESHOLDS_KEY, {})) };
+}
+
+export function saveStapleThresholds(thresholds: StapleThresholds) {
+  return writeJSON(THRESHOLDS_KEY, thresholds);
+}
+
+export function loadStapleSnoozes() {
+  return readJSON<StapleSnoozes>(SNOOZES_KEY, {});
+}
+
+// Hides a staple for `days`; expired snoozes are dropped on the way
+export async function snoozeStaple(snoozes: StapleSnoozes, barcode: string, days: number, now = Date.now()): Promise<StapleSnoozes> {
+  const next: StapleSnoozes = {};
+  for (const [key, until] of Object.entries(snoozes)) {
+    if (until > now) next[key] = until;
+  }
+  next[barcode] = now + days * DAY;
+  await writeJSON(SNOOZES_KEY, next);
+  return next;
+}
@@ -0,0 +1,46 @@
+import * as FileSystem from "expo-file-system";
+
+// Small JSON key/value store kept in the app's document directory.
+// Each key is stored in its own file so writes stay cheap and independent.
+const storageDir = `${FileSystem.documentDirectory ?? ""}zenlist/`;
+
+function keyToUri(key: string) {
+  return `${storageDir}${encodeURIComponent(key)}.json`;
+}
+
+async function ensureDir() {
+  const info = await FileSystem.getInfoAsync(storageDir);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(storageDir, { intermediates: true });
+  }
+}
+
+export async function readJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const uri = keyToUri(key);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return fallback;
+    const raw = await FileSystem.readAsStringAsync(uri);
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    console.warn(`storage: failed to read "${key}"`, e);
+    return fallback;
+  }
+}
+
+export async function writeJSON(key: string, value: unknown): Promise<void> {
+  try {
+    await ensureDir();
+    await FileSystem.writeAsStringAsync(keyToUri(key), JSON.stringify(value));
+  } catch (e) {
+    console.warn(`storage: failed to write "${key}"`, e);
+  }
+}
+
+export async function removeKey(key: string): Promise<void> {
+  try {
+    await FileSystem.deleteAsync(keyToUri(key), { idempotent: true });
+  } catch (e) {
+    console.warn(`storage: failed to remove "${key}"`, e);
+  }
+}
@@ -0,0 +1,24 @@
+// Web build: the same JSON key/value API backed by localStorage.
+const prefix = "zenlist:";
+
+export async function readJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = globalThis.localStorage?.getItem(prefix + key);
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch (e) {
+    console.warn(`storage: failed to read "${key}"`, e);
+    return fallback;
+  }
+}
+
+export async function writeJSON(key: string, value: unknown): Promise<void> {
+  try {
+    globalThis.localStorage?.setItem(prefix + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`storage: failed to write "${key}"`, e);
+  }
+}
+
+export async function removeKey(key: string): Promise<void> {
+  globalThis.localStorage?.removeItem(prefix + key);
+}
@@ -0,0 +1,219 @@
+import { estimateBasket } from "./basket";
+import { normalizeText } from "./hebrew";
+import type { SharedEntry } from "./listText";
+import { translateSupermarket } from "./prices";
+import { readJSON, removeKey, writeJSON } from "./storage";
+import type { ListItem, Receipt, Store, SupermarketItem } from "./types";
+
+// ---------- Storage Keys ----------
+const ACTIVE_TRIP_KEY = "trip.active";
+const TRIP_HISTORY_KEY = "trip.history";
+const MAX_TRIPS = 50;
+
+const HOUR = 60 * 60 * 1000;
+// How long before a trip started and after it ended its receipt can be dated
+const RECEIPT_BEFORE_MS = 6 * HOUR;
+const RECEIPT_AFTER_MS = 12 * HOUR;
+
+// ---------- Types ----------
+// A shopping trip in progress. It survives restarts so a trip isn't lost when
+// the app is killed in the store.
+export type ShoppingTrip = {
+  id: string;
+  listId: string;
+  store: Store;
+  startedAt: number;
+  // Items bought before the trip aren't part of its cart
+  doneAtStart: string[];
+};
+
+// One item in the cart, priced at the trip's store
+export type TripLine = {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unit?: string;
+  category?: string;
+  barcode?: string;
+  // Missing when the store's price file has nothing matching
+  price?: number;
+};
+
+// What a finished trip leaves behind, newest first in the history
+export type TripSummary = {
+  id: string;
+  listId: string;
+  listName: string;
+  // Null when bought items were cleared off the list without a shopping trip
+  store: Store | null;
+  startedAt: number;
+  endedAt: number;
+  lines: TripLine[];
+  estimatedTotal: number;
+  // Still open on the list when the trip ended
+  leftBehind: string[];
+};
+
+// ---------- Active Trip ----------
+export async function startTrip(listId: string, store: Store, items: ListItem[], now = Date.now()): Promise<ShoppingTrip> {
+  const trip: ShoppingTrip = {
+    id: `trip-${now}`,
+    listId,
+    store,
+    startedAt: now,
+    doneAtStart: items.filter(item => item.done).map(item => item.id),
+  };
+  await writeJSON(ACTIVE_TRIP_KEY, trip);
+  return trip;
+}
+
+export function loadActiveTrip() {
+  return readJSON<ShoppingTrip | null>(ACTIVE_TRIP_KEY, null);
+}
+
+export function cancelTrip() {
+  return removeKey(ACTIVE_TRIP_KEY);
+}
+
+// Everything checked off since the trip started, wherever it was checked
+export function cartItems(trip: ShoppingTrip, items: ListItem[]): ListItem[] {
+  const before = new Set(trip.doneAtStart);
+  return items.filter(item => item.done && !before.has(item.id));
+}
+
+// Prices the cart at the trip's store the same way the basket estimate does.
+// Without prices every line is left unpriced.
+export function priceCart(cart: ListItem[], products: SupermarketItem[] | null, store: Store): TripLine[] {
+  const basket = products ? estimateBasket(cart, products, [store], { includeDone: true }).stores[0] : undefined;
+  const prices = new Map(basket?.lines.map(line => [line.listItem.id, line.total]));
+  return cart.map(item => toLine(item, prices.get(item.id)));
+}
+
+function toLine(item: ListItem, price?: number): TripLine {
+  return {
+    itemId: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    ...(item.unit ? { unit: item.unit } : {}),
+    ...(item.category ? { category: item.category } : {}),
+    ...(item.barcode ? { barcode: item.barcode } : {}),
+    ...(price !== undefined ? { price } : {}),
+  };
+}
+
+export function cartTotal(lines: TripLine[]) {
+  return lines.reduce((sum, line) => sum + (line.price ?? 0), 0);
+}
+
+// Ends the trip and files its summary in the history
+export async function finishTrip(
+  trip: ShoppingTrip,
+  { listName, lines, items, now = Date.now() }: { listName: string; lines: TripLine[]; items: ListItem[]; now?: number }
+): Promise<TripSummary> {
+  const summary: TripSummary = {
+    id: trip.id,
+    listId: trip.listId,
+    listName,
+    store: trip.store,
+    startedAt: trip.startedAt,
+    endedAt: now,
+    lines,
+    estimatedTotal: cartTotal(lines),
+    leftBehind: items.filter(item => !item.done).map(item => item.name),
+  };
+  await addToHistory(summary);
+  await removeKey(ACTIVE_TRIP_KEY);
+  return summary;
+}
+
+// ---------- History ----------
+export function loadTripHistory() {
+  return readJSON<TripSummary[]>(TRIP_HISTORY_KEY, []);
+}
+
+async function addToHistory(summary: TripSummary) {
+  const history = await loadTripHistory();
+  await writeJSON(TRIP_HISTORY_KEY, [summary, ...history].slice(0, MAX_TRIPS));
+}
+
+// Takes a trip back out of the history, e.g. when clearing the list is undone
+export async function forgetTrip(tripId: string) {
+  const history = await loadTripHistory();
+  await writeJSON(TRIP_HISTORY_KEY, history.filter(trip => trip.id !== tripId));
+}
+
+// Clearing bought items off the list files them as a trip of their own,
+// except those a shopping trip already archived. Returns null when nothing
+// was new.
+export async function archiveCleared({
+  listId,
+  listName,
+  items,
+  store,
+  now = Date.now(),
+}: {
+  listId: string;
+  listName: string;
+  items: ListItem[];
+  store: Store | null;
+  now?: number;
+}): Promise<TripSummary | null> {
+  const history = await loadTripHistory();
+  const archived = new Set(history.flatMap(trip => trip.lines.map(line => line.itemId)));
+  const fresh = items.filter(item => !archived.has(item.id));
+  if (fresh.length === 0) return null;
+  const summary: TripSummary = {
+    id: `trip-${now}`,
+    listId,
+    listName,
+    store,
+    startedAt: now,
+    endedAt: now,
+    lines: fresh.map(item => toLine(item)),
+    estimatedTotal: 0,
+    leftBehind: [],
+  };
+  await addToHistory(summary);
+  return summary;
+}
+
+// The receipt of a trip: from the same chain, dated around the trip, the one
+// closest to when it ended
+export function findTripReceipt(trip: TripSummary, receipts: Receipt[]): Receipt | undefined {
+  const chain = trip.store ? normalizeText(translateSupermarket(trip.store.brandName)).trim() : "";
+  let best: Receipt | undefined;
+  let bestDistance = Infinity;
+  for (const receipt of receipts) {
+    const time = Date.parse(receipt.createdDate);
+    if (Number.isNaN(time) || time < trip.startedAt - RECEIPT_BEFORE_MS || time > trip.endedAt + RECEIPT_AFTER_MS) continue;
+    if (chain && !normalizeText(receipt.company).includes(chain)) continue;
+    const distance = Math.abs(time - trip.endedAt);
+    if (distance < bestDistance) {
+      best = receipt;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Trip lines in the shape a pasted list imports with, so re-adding a trip
+// merges into items already on the list the same way
+export function tripEntries(lines: TripLine[]): SharedEntry[] {
+  return lines.map(line => ({
+    name: line.name,
+    quantity: line.quantity,
+    ...(line.unit ? { unit: line.unit } : {}),
+    ...(line.category ? { category: line.category } : {}),
+  }));
+}
+
+// ---------- Formatting ----------
+// "12:05", or "1:02:05" past the hour
+export function formatElapsed(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
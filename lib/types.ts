@@ -0,0 +1,188 @@
+// ---------- Shared API Types ----------
+
+// A single entry of the shopping list as returned by /api/list
+export type ListItem = {
+  id: string;
+  name: string;
+  quantity: number;
+  // e.g. "ק״ג" when the quantity isn't a count
+  unit?: string;
+  category: string;
+  done: boolean;
+  // Free text shown under the name, e.g. "הבקבוק של 1.5 ליטר"
+  note?: string;
+  // The catalogue product (/api/products) this item stands for
+  barcode?: string;
+  // Bumped by the server on every change to the item; missing on older backends
+  rev?: number;
+};
+
+// What the item editor can change besides the quantity. An empty unit, note
+// or barcode clears it.
+export type ItemChanges = Partial<Pick<ListItem, "name" | "category" | "unit" | "note" | "barcode">>;
+
+// A product row from one supermarket's price file (/api/prices)
+export type SupermarketItem = {
+  ItemCode?: string;
+  ItemName?: string;
+  ManufacturerName?: string;
+  ItemPrice?: string | number;
+  promo?: {
+    DiscountedPrice: string | number;
+    DiscountedPricePerMida?: string | number;
+    MinQty: string | number;
+    PromotionDescription?: string;
+    PromotionUpdateDate?: string;
+    PromotionEndDate?: string;
+  };
+  Promo?: {
+    Quantity: number;
+    Price: number;
+    Description?: string;
+  } | null;
+  Offers?: Offer[];
+  [key: string]: any;
+};
+
+// The same ItemCode as sold by one supermarket branch
+export type Offer = {
+  item: SupermarketItem;
+  supermarket: string;
+  branch: string;
+  promo?: any;
+};
+
+export type SupermarketPlace = {
+  Name?: string;
+  supermarket_name?: string;
+  yohananof?: { StoreName: string };
+  Root?: {
+    Items?: {
+      Item: SupermarketItem[] | SupermarketItem;
+    };
+  };
+};
+
+// A supermarket branch from /api/generalSettings
+export type Store = {
+  StoreId: string;
+  StoreName: string;
+  City: string;
+  Address: string;
+  brandName: string;
+  ZipCode?: string;
+  BikoretNo?: number;
+};
+
+export type SupermarketSettings = {
+  supermarkets: {
+    liked: { [key: string]: Store[] };
+    available: { [key: string]: Store[] };
+  };
+};
+
+// The order categories are walked in at one store (/api/aisleOrder)
+export type AisleOrder = {
+  categories: string[];
+  updatedAt: number;
+};
+
+// Keyed by storeKey(), e.g. "osherad:12"
+export type AisleOrders = Record<string, AisleOrder>;
+
+// /api/list: items keyed by id, plus autocomplete data
+export type ListResponse = {
+  suggestions?: string[];
+  categories?: Record<string, unknown>;
+  [itemId: string]: ListItem | unknown;
+};
+
+// Outcome of one operation of POST /api/list/batch, matched to it by `index`
+export type ListBatchResult = {
+  index: number;
+  ok: boolean;
+  error?: string;
+  // The created item, for add operations
+  item?: ListItem;
+  // The item changed since the revision the operation was made against
+  stale?: boolean;
+};
+
+export type ListBatchResponse = {
+  results: ListBatchResult[];
+};
+
+// One of the household's named lists (/api/lists)
+export type ShoppingList = {
+  id: string;
+  name: string;
+  archived: boolean;
+  createdAt: number;
+  // Items still to buy
+  itemCount: number;
+};
+
+// An entry of /api/receipts
+export type Receipt = {
+  city: string;
+  company: string;
+  createdDate: string; // ISO string
+  file: string;        // receipt id
+  total: number;
+};
+
+// One purchased product on a receipt
+export type ReceiptLine = {
+  barcode: string;
+  name: string;
+  quantity: number;
+  price: number;
+};
+
+// /api/receipts/:id - a receipt with what was bought
+export type ReceiptDetails = Receipt & {
+  items: ReceiptLine[];
+};
+
+// An entry of /api/products (the response is keyed by barcode)
+export type Product = {
+  id?: string | number;
+  name?: string;
+  barcode?: string;
+  brand?: string;
+  price?: number;
+  imageUrl?: string;
+  size?: string;
+  average_price?: number;
+  // Shelf category, when the catalogue has one
+  category?: string;
+};
+
+// /api/stats
+export type StatsData = {
+  average_spend_per_receipt: number;
+  receipts: Record<string, { date_and_time: string; total_price: number }>;
+  top_10_price_increase: Array<{ barcode: string; name: string; new_price: number; old_price: number; price_increase: number }>;
+  top_10_product_purchased: Array<{ barcode: string; name: string; average_price: number; total_quantity: number; total_price: number }>;
+  total_items: number;
+  total_receipts: number;
+  total_spent: number;
+};
+
+// /api/stats/:barcode
+export type ProductStats = {
+  barcode: string;
+  name: string;
+  cheapest_price: number;
+  highest_price: number;
+  last_price: number;
+  average_price: number;
+  price_increase?: number;
+  total_price?: number;
+  total_quantity?: number;
+  history: {
+    date: string;
+    price: number;
+    quantity: number;
+  }[];
+};
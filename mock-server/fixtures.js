@@ -0,0 +1,189 @@
+// Seeded fixture data for the mock server. Everything is generated from a fixed
+// seed so every run starts from the same state; dates are relative to today so
+// promotions and statistics always look current.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Small deterministic PRNG (mulberry32)
+function seeded(seed) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const round2 = n => Math.round(n * 100) / 100;
+const isoDay = date => date.toISOString().slice(0, 10);
+
+// ---------- Catalogue ----------
+const catalogue = [
+  { barcode: '7290000042435', name: 'חלב 3% תנובה 1 ליטר', brand: 'תנובה', size: '1 ליטר', price: 6.9, category: 'מוצרי חלב' },
+  { barcode: '7290004131074', name: 'גבינה לבנה 5% תנובה', brand: 'תנובה', size: '250 גרם', price: 5.5, category: 'מוצרי חלב' },
+  { barcode: '7290000176505', name: "קוטג' 5% תנובה", brand: 'תנובה', size: '250 גרם', price: 6.3, category: 'מוצרי חלב' },
+  { barcode: '7290110115275', name: 'ביצים L תבנית 12', brand: 'משק', size: '12 יח׳', price: 13.9, category: 'מוצרי חלב' },
+  { barcode: '7290000066318', name: 'לחם אחיד פרוס אנג׳ל', brand: 'אנג׳ל', size: '750 גרם', price: 7.5, category: 'מאפייה' },
+  { barcode: '7290000068015', name: 'במבה אסם', brand: 'אסם', size: '80 גרם', price: 4.9, category: 'חטיפים' },
+  { barcode: '7290006486011', name: 'פסטה ספגטי אסם', brand: 'אסם', size: '500 גרם', price: 5.9, category: 'יבשים' },
+  { barcode: '7290000120041', name: 'אורז פרסי סוגת', brand: 'סוגת', size: '1 ק״ג', price: 11.9, category: 'יבשים' },
+  { barcode: '7290000045535', name: 'קפה טורקי עלית', brand: 'עלית', size: '200 גרם', price: 14.9, category: 'יבשים' },
+  { barcode: '7290011194246', name: 'שמן זית כתית מעולה', brand: 'יד מרדכי', size: '750 מ״ל', price: 39.9, category: 'יבשים' },
+  { barcode: '7290000551104', name: 'עגבניות שרי', brand: '', size: '500 גרם', price: 8.9, category: 'ירקות' },
+  { barcode: '7290108350015', name: 'נייר טואלט לילי 32 גלילים', brand: 'לילי', size: '32 גלילים', price: 42.9, category: 'ניקיון' },
+];
+
+// ---------- Stores ----------
+const availableStores = {
+  osherad: [
+    { StoreId: '12', StoreName: 'אושר עד חיפה', City: 'חיפה', Address: 'דרך חיפה 59', ZipCode: '3303123', BikoretNo: 3 },
+    { StoreId: '7', StoreName: 'אושר עד תלפיות', City: 'ירושלים', Address: 'יד חרוצים 10', ZipCode: '9342148', BikoretNo: 5 },
+  ],
+  yohananof: [
+    { StoreId: '31', StoreName: 'יוחננוף קריית אתא', City: 'קריית אתא', Address: 'העצמאות 60', ZipCode: '2810201', BikoretNo: 1 },
+    { StoreId: '44', StoreName: 'יוחננוף רחובות', City: 'רחובות', Address: 'unknown', BikoretNo: 8 },
+  ],
+};
+
+function createSettings() {
+  return {
+    supermarkets: {
+      liked: { osherad: [availableStores.osherad[0]], yohananof: [availableStores.yohananof[0]] },
+      available: availableStores,
+    },
+  };
+}
+
+// ---------- Prices ----------
+// Price files for the liked stores, in the raw shape the price scraper produces.
+// `round` changes every time prices are "updated" so the numbers move a little.
+function createPrices(settings, round = 0) {
+  const random = seeded(1000 + round);
+  const now = Date.now();
+  const places = [];
+
+  for (const [brand, stores] of Object.entries(settings.supermarkets.liked)) {
+    // Yohananof publishes a price file per branch; other chains one for the whole chain
+    const files = brand === 'yohananof' ? stores : stores.slice(0, 1);
+    for (const store of files) {
+      const items = catalogue.map((product, i) => {
+        const factor = brand === 'osherad' ? 0.93 : 1;
+        const item = {
+          ItemCode: product.barcode,
+          ItemName: product.name,
+          ManufacturerName: product.brand,
+          ItemPrice: (product.price * factor * (0.95 + random() * 0.1)).toFixed(2),
+        };
+        // A few promotions per store: a multi-buy, a plain discount and an expired one
+        if (i % 4 === (brand === 'osherad' ? 1 : 2)) {
+          item.promo = {
+            DiscountedPrice: (product.price * 2 * 0.8).toFixed(2),
+            MinQty: '2',
+            PromotionDescription: `2 ב-${(product.price * 2 * 0.8).toFixed(0)}`,
+            PromotionUpdateDate: isoDay(new Date(now - 3 * DAY)),
+            PromotionEndDate: isoDay(new Date(now + 10 * DAY)),
+          };
+        } else if (i % 5 === 3) {
+          item.promo = {
+            DiscountedPrice: (product.price * 0.85).toFixed(2),
+            MinQty: '1',
+            PromotionDescription: 'מבצע שבועי',
+            PromotionEndDate: isoDay(new Date(now + (brand === 'osherad' ? 5 : -2) * DAY)),
+          };
+        }
+        return item;
+      });
+
+      const place = { supermarket_name: brand, Name: brand, Root: { Items: { Item: items } } };
+      if (brand === 'yohananof') place.yohananof = { StoreName: store.StoreName };
+      places.push(place);
+    }
+  }
+  return places;
+}
+
+// ---------- Aisle Order ----------
+// Category walk order per liked store, keyed like the app's storeKey()
+function createAisleOrders() {
+  return {
+    'osherad:12': { categories: ['ירקות', 'מאפייה', 'מוצרי חלב', 'יבשים', 'חטיפים', 'ניקיון'], updatedAt: 0 },
+  };
+}
+
+// ---------- Shopping Lists ----------
+function createList() {
+  return {
+    '1': { id: '1', name: 'חלב 3%', quantity: 2, category: 'מוצרי חלב', done: false },
+    '2': { id: '2', name: 'לחם אחיד', quantity: 1, category: 'מאפייה', done: false },
+    '3': { id: '3', name: 'עגבניות שרי', quantity: 1, category: 'ירקות', done: true },
+    '4': { id: '4', name: 'במבה', quantity: 3, category: 'חטיפים', done: false },
+    '5': { id: '5', name: 'ביצים', quantity: 1, category: 'מוצרי חלב', done: false },
+  };
+}
+
+// Every list the household keeps, keyed by id. "default" is the list older
+// clients that don't send a listId work with.
+function createLists() {
+  const now = Date.now();
+  return {
+    default: { id: 'default', name: 'קניות שבועיות', archived: false, createdAt: now - 60 * DAY, items: createList() },
+    pharmacy: {
+      id: 'pharmacy',
+      name: 'בית מרקחת',
+      archived: false,
+      createdAt: now - 10 * DAY,
+      items: {
+        '101': { id: '101', name: 'אקמול', quantity: 1, category: 'תרופות', done: false },
+        '102': { id: '102', name: 'משחת שיניים', quantity: 2, category: 'היגיינה', done: false },
+      },
+    },
+  };
+}
+
+// ---------- Receipts ----------
+const receiptCompanies = [
+  { company: 'אושר עד', city: 'חיפה' },
+  { company: 'יוחננוף', city: 'קריית אתא' },
+];
+
+// Prices creep up about 1% a month so the statistics show some increases
+function priceAt(product, date, random) {
+  const monthsAgo = (Date.now() - date.getTime()) / (30 * DAY);
+  return round2(product.price * (1 - monthsAgo * 0.01) * (0.97 + random() * 0.06));
+}
+
+function createReceipt(id, date, random, { company, city } = receiptCompanies[Math.floor(random() * receiptCompanies.length)]) {
+  const items = catalogue
+    .filter(() => random() < 0.55)
+    .map(product => {
+      const quantity = 1 + Math.floor(random() * 3);
+      return { barcode: product.barcode, name: product.name, quantity, price: priceAt(product, date, random) };
+    });
+  const total = round2(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  return { file: id, company, city, createdDate: date.toISOString(), total, items };
+}
+
+function createReceipts() {
+  const random = seeded(42);
+  const receipts = [];
+  for (let i = 0; i < 10; i++) {
+    const date = new Date(Date.now() - (i * 9 + 2) * DAY);
+    date.setHours(10 + Math.floor(random() * 9), Math.floor(random() * 60), 0, 0);
+    receipts.push(createReceipt(`r${1000 + i}`, date, random));
+  }
+  return receipts;
+}
+
+module.exports = {
+  catalogue,
+  seeded,
+  round2,
+  createSettings,
+  createPrices,
+  createList,
+  createLists,
+  createAisleOrders,
+  createReceipt,
+  createReceipts,
+};
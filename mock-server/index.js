@@ -0,0 +1,487 @@
+// Local stand-in for the ZenList backend, implementing every route the app uses.
+// Run with `npm run mock-server` (plain Node, no network or extra packages needed).
+// Point the app at it either by starting it with EXPO_PUBLIC_API_URL=http://<your-ip>:5000
+// or from Settings -> שרת in a development build ("שרת מקומי").
+// Data is seeded from ./fixtures.js and kept in memory; restart to reset it.
+const http = require('http');
+const fixtures = require('./fixtures');
+
+const PORT = Number(process.env.PORT) || 5000;
+
+// ---------- In-memory data ----------
+const lists = fixtures.createLists();
+// Every item carries a revision, bumped on each change, that changes can be made conditional on
+for (const list of Object.values(lists)) {
+  for (const item of Object.values(list.items)) item.rev = 1;
+}
+// Item ids are unique across lists so an item keeps its id wherever it goes
+let nextId = Math.max(...Object.values(lists).flatMap(l => Object.keys(l.items).map(Number))) + 1;
+const settings = fixtures.createSettings();
+const receipts = fixtures.createReceipts();
+// Receipt links already imported through /api/fetchReceipt
+const importedLinks = new Set();
+let priceRound = 0;
+let prices = fixtures.createPrices(settings, priceRound);
+const aisleOrders = fixtures.createAisleOrders();
+
+// ---------- Live events (Server-Sent Events) ----------
+// Response -> id of the list it is watching
+const subscribers = new Map();
+
+function broadcast(listId, event) {
+  const payload = `data: ${JSON.stringify(event)}\n\n`;
+  for (const [res, watching] of subscribers) {
+    if (watching === listId) res.write(payload);
+  }
+}
+
+setInterval(() => {
+  for (const res of subscribers.keys()) res.write(': ping\n\n');
+}, 15000).unref();
+
+// ---------- Helpers ----------
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendText(res, status, text) {
+  res.writeHead(status, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(text);
+}
+
+function readBody(req) {
+  return new Promise(resolve => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function listPayload(list) {
+  const categories = {};
+  for (const item of Object.values(list.items)) {
+    (categories[item.category] = categories[item.category] || []).push(item.name);
+  }
+  return { ...list.items, suggestions: Object.values(list.items).map(i => i.name), categories };
+}
+
+function listInfo(list) {
+  const { items, ...info } = list;
+  return { ...info, itemCount: Object.values(items).filter(i => !i.done).length };
+}
+
+// ---------- Statistics ----------
+// Purchase history of every product, oldest first
+function purchaseHistory() {
+  const history = new Map();
+  const sorted = [...receipts].sort((a, b) => a.createdDate.localeCompare(b.createdDate));
+  for (const receipt of sorted) {
+    for (const line of receipt.items) {
+      if (!history.has(line.barcode)) history.set(line.barcode, { name: line.name, history: [] });
+      history.get(line.barcode).history.push({ date: receipt.createdDate, price: line.price, quantity: line.quantity });
+    }
+  }
+  return history;
+}
+
+function productStats(barcode, entry) {
+  const priceList = entry.history.map(h => h.price);
+  const totalQuantity = entry.history.reduce((sum, h) => sum + h.quantity, 0);
+  const totalPrice = fixtures.round2(entry.history.reduce((sum, h) => sum + h.price * h.quantity, 0));
+  const first = priceList[0];
+  const last = priceList[priceList.length - 1];
+  return {
+    barcode,
+    name: entry.name,
+    cheapest_price: Math.min(...priceList),
+    highest_price: Math.max(...priceList),
+    last_price: last,
+    average_price: fixtures.round2(totalPrice / totalQuantity),
+    // Percent change between the first and the last purchase
+    price_increase: fixtures.round2(((last - first) / first) * 100),
+    total_price: totalPrice,
+    total_quantity: totalQuantity,
+    history: entry.history,
+  };
+}
+
+function statsPayload() {
+  const all = [...purchaseHistory()].map(([barcode, entry]) => productStats(barcode, entry));
+  const totalSpent = fixtures.round2(receipts.reduce((sum, r) => sum + r.total, 0));
+  return {
+    average_spend_per_receipt: receipts.length ? fixtures.round2(totalSpent / receipts.length) : 0,
+    receipts: Object.fromEntries(receipts.map(r => [r.file, { date_and_time: r.createdDate, total_price: r.total }])),
+    top_10_price_increase: all
+      .filter(p => p.history.length > 1 && p.price_increase > 0)
+      .sort((a, b) => b.price_increase - a.price_increase)
+      .slice(0, 10)
+      .map(p => ({
+        barcode: p.barcode,
+        name: p.name,
+        new_price: p.last_price,
+        old_price: p.history[0].price,
+        price_increase: p.price_increase,
+      })),
+    top_10_product_purchased: all
+      .sort((a, b) => b.total_quantity - a.total_quantity)
+      .slice(0, 10)
+      .map(p => ({
+        barcode: p.barcode,
+        name: p.name,
+        average_price: p.average_price,
+        total_quantity: p.total_quantity,
+        total_price: p.total_price,
+      })),
+    total_items: all.reduce((sum, p) => sum + p.total_quantity, 0),
+    total_receipts: receipts.length,
+    total_spent: totalSpent,
+  };
+}
+
+function productsPayload() {
+  const history = purchaseHistory();
+  return Object.fromEntries(
+    fixtures.catalogue.map(product => {
+      const entry = history.get(product.barcode);
+      const stats = entry ? productStats(product.barcode, entry) : null;
+      return [
+        product.barcode,
+        {
+          id: product.barcode,
+          name: product.name,
+          barcode: product.barcode,
+          brand: product.brand,
+          size: product.size,
+          category: product.category,
+          price: stats ? stats.last_price : product.price,
+          ...(stats ? { average_price: stats.average_price } : {}),
+        },
+      ];
+    })
+  );
+}
+
+// ---------- Receipt PDF ----------
+// A minimal one-page PDF. The built-in PDF fonts can't render Hebrew, so the
+// page only carries the receipt id, date and total.
+function receiptPdf(receipt) {
+  const lines = [
+    `ZenList receipt ${receipt.file}`,
+    `Date: ${receipt.createdDate.slice(0, 10)}`,
+    `Items: ${receipt.items.length}`,
+    `Total: ${receipt.total.toFixed(2)} ILS`,
+  ];
+  const text = lines.map((line, i) => `BT /F1 14 Tf 72 ${760 - i * 24} Td (${line}) Tj ET`).join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(text)} >>\nstream\n${text}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf);
+}
+
+// ---------- Routes ----------
+// Requests without a listId work on the default list
+async function handleList(req, res, path, query) {
+  if (req.method === 'GET') {
+    const list = lists[query.get('listId') || 'default'];
+    if (!list) return send(res, 404, { error: 'הרשימה לא נמצאה' });
+    if (path === '/api/list') return send(res, 200, listPayload(list));
+  }
+
+  if (req.method === 'GET' && path === '/api/list/events') {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.write(': connected\n\n');
+    subscribers.set(res, query.get('listId') || 'default');
+    req.on('close', () => subscribers.delete(res));
+    return;
+  }
+
+  if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+  const body = await readBody(req);
+  const list = lists[body.listId || 'default'];
+  if (!list) return send(res, 404, { error: 'הרשימה לא נמצאה' });
+
+  if (path === '/api/list/batch') {
+    const operations = Array.isArray(body.operations) ? body.operations : [];
+    const results = operations.map((operation, index) => {
+      const { status, body: result } = applyListOperation(list, String(operation.op), operation);
+      if (status === 200) return { index, ok: true, ...(operation.op === 'add' ? { item: result } : {}) };
+      return { index, ok: false, error: result.error, ...(result.stale ? { stale: true, item: result.item } : {}) };
+    });
+    return send(res, 200, { results });
+  }
+
+  const { status, body: result } = applyListOperation(list, path.slice('/api/list/'.length), body);
+  return send(res, status, result);
+}
+
+// Kilos and liters go in halves, everything else in whole units
+function quantityStep(unit) {
+  return unit === 'ק״ג' || unit === 'ליטר' ? 0.5 : 1;
+}
+
+// A change sent with the revision it was made against is refused once the item has moved on
+function isStale(item, body) {
+  return body.rev !== undefined && body.rev !== null && Number(body.rev) !== item.rev;
+}
+
+function staleResult(item) {
+  return { status: 409, body: { error: 'הפריט השתנה ממכשיר אחר', stale: true, item } };
+}
+
+// One list change, shared by the single routes and /api/list/batch
+function applyListOperation(list, op, body) {
+  const item = list.items[String(body.itemID)];
+  if (item && op !== 'quantity' && isStale(item, body)) return staleResult(item);
+
+  switch (op) {
+    case 'add': {
+      const name = String(body.item || '').trim();
+      if (!name) return { status: 400, body: { error: 'חסר שם פריט' } };
+      if (Object.values(list.items).some(i => !i.done && i.name === name)) {
+        return { status: 409, body: { error: 'הפריט כבר קיים ברשימה' } };
+      }
+      const created = { id: String(nextId++), name, quantity: Number(body.quantity) || 1, category: body.category || 'כללי', done: false, rev: 1 };
+      if (body.unit) created.unit = String(body.unit);
+      if (body.note) created.note = String(body.note);
+      if (body.barcode) created.barcode = String(body.barcode);
+      list.items[created.id] = created;
+      broadcast(list.id, { type: 'add', item: created });
+      return { status: 200, body: created };
+    }
+    case 'remove':
+      if (!item) return { status: 404, body: { error: 'הפריט לא נמצא' } };
+      delete list.items[item.id];
+      broadcast(list.id, { type: 'remove', itemId: item.id });
+      return { status: 200, body: { ok: true } };
+    case 'done':
+    case 'undone':
+      if (!item) return { status: 404, body: { error: 'הפריט לא נמצא' } };
+      item.done = op === 'done';
+      item.rev++;
+      broadcast(list.id, { type: op, itemId: item.id, rev: item.rev });
+      return { status: 200, body: item };
+    case 'quantity':
+      if (!item) return { status: 404, body: { error: 'הפריט לא נמצא' } };
+      // A delta adds to the current quantity; a plain quantity replaces it and can be conditional
+      if (body.delta !== undefined) {
+        const quantity = Math.round((item.quantity + (Number(body.delta) || 0)) * 1000) / 1000;
+        item.quantity = Math.max(quantityStep(item.unit), quantity);
+      } else {
+        if (isStale(item, body)) return staleResult(item);
+        item.quantity = Number(body.quantity) || 1;
+      }
+      item.rev++;
+      broadcast(list.id, { type: 'quantity', itemId: item.id, quantity: item.quantity, rev: item.rev });
+      return { status: 200, body: item };
+    case 'edit': {
+      if (!item) return { status: 404, body: { error: 'הפריט לא נמצא' } };
+      if (body.name !== undefined) {
+        const name = String(body.name).trim();
+        if (!name) return { status: 400, body: { error: 'חסר שם פריט' } };
+        if (Object.values(list.items).some(i => i.id !== item.id && !i.done && i.name === name)) {
+          return { status: 409, body: { error: 'פריט בשם הזה כבר קיים ברשימה' } };
+        }
+        item.name = name;
+      }
+      if (body.category !== undefined) item.category = String(body.category) || 'כללי';
+      // An empty unit, note or barcode clears it
+      for (const key of ['unit', 'note', 'barcode']) {
+        if (body[key] === undefined) continue;
+        if (body[key]) item[key] = String(body[key]);
+        else delete item[key];
+      }
+      item.rev++;
+      broadcast(list.id, { type: 'edit', item });
+      return { status: 200, body: item };
+    }
+    default:
+      return { status: 404, body: { error: 'Not found' } };
+  }
+}
+
+async function handleReceipts(req, res, path) {
+  if (req.method === 'GET' && path === '/api/receipts') {
+    // The list endpoint doesn't include the purchased items
+    return send(res, 200, receipts.map(({ items, ...receipt }) => receipt));
+  }
+
+  const download = path.match(/^\/api\/receipts\/([^/]+)\/download$/);
+  if (req.method === 'GET' && download) {
+    const receipt = receipts.find(r => r.file === decodeURIComponent(download[1]));
+    if (!receipt) return send(res, 404, { error: 'Receipt not found' });
+    const pdf = receiptPdf(receipt);
+    res.writeHead(200, {
+      'Content-Type': 'application/pdf',
+      'Content-Length': pdf.length,
+      'Content-Disposition': `attachment; filename="${receipt.file}.pdf"`,
+      'Access-Control-Allow-Origin': '*',
+    });
+    return res.end(pdf);
+  }
+
+  const details = path.match(/^\/api\/receipts\/([^/]+)$/);
+  if (req.method === 'GET' && details) {
+    const receipt = receipts.find(r => r.file === decodeURIComponent(details[1]));
+    if (!receipt) return send(res, 404, { error: 'Receipt not found' });
+    return send(res, 200, receipt);
+  }
+
+  if (req.method === 'POST' && path === '/api/fetchReceipt') {
+    const { url } = await readBody(req);
+    if (!url || !/^https?:\/\//.test(String(url))) return sendText(res, 400, 'Invalid receipt url');
+    // Like the real backend, answers in plain text
+    if (importedLinks.has(url)) return sendText(res, 409, 'Receipt already exists');
+    importedLinks.add(url);
+    const random = fixtures.seeded(importedLinks.size * 7919);
+    const receipt = fixtures.createReceipt(`r${2000 + importedLinks.size}`, new Date(), random);
+    receipts.unshift(receipt);
+    return sendText(res, 200, `Receipt ${receipt.file} saved`);
+  }
+
+  return send(res, 404, { error: 'Not found' });
+}
+
+async function handleSettings(req, res, path) {
+  if (req.method === 'GET' && path === '/api/generalsettings') return send(res, 200, settings);
+  if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+
+  if (path === '/api/generalsettings/updateprices') {
+    prices = fixtures.createPrices(settings, ++priceRound);
+    return send(res, 200, { ok: true, updated: new Date().toISOString() });
+  }
+
+  const body = await readBody(req);
+  const brand = String(body.brandName || '');
+  const store = (settings.supermarkets.available[brand] || []).find(s => s.StoreId === String(body.StoreId));
+  if (!store) return send(res, 404, { error: 'Store not found' });
+  const liked = (settings.supermarkets.liked[brand] = settings.supermarkets.liked[brand] || []);
+
+  if (path === '/api/generalsettings/add') {
+    if (!liked.some(s => s.StoreId === store.StoreId)) liked.push(store);
+  } else if (path === '/api/generalsettings/remove') {
+    settings.supermarkets.liked[brand] = liked.filter(s => s.StoreId !== store.StoreId);
+  } else {
+    return send(res, 404, { error: 'Not found' });
+  }
+  // The price files follow the liked stores
+  prices = fixtures.createPrices(settings, priceRound);
+  return send(res, 200, settings);
+}
+
+async function handleAisleOrder(req, res) {
+  if (req.method === 'GET') return send(res, 200, aisleOrders);
+  const { store, categories, updatedAt } = await readBody(req);
+  if (!store || !Array.isArray(categories)) return send(res, 400, { error: 'Invalid aisle order' });
+  // Keep the newer copy when two devices save at once
+  const current = aisleOrders[store];
+  if (!current || Number(updatedAt) >= current.updatedAt) {
+    aisleOrders[store] = { categories: categories.map(String), updatedAt: Number(updatedAt) || Date.now() };
+  }
+  return send(res, 200, aisleOrders[store]);
+}
+
+// Named lists: create, rename, archive and delete. The last list can't be deleted.
+async function handleLists(req, res, path) {
+  if (req.method === 'GET' && path === '/api/lists') return send(res, 200, Object.values(lists).map(listInfo));
+  if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+  const body = await readBody(req);
+
+  if (path === '/api/lists/create') {
+    const name = String(body.name || '').trim();
+    if (!name) return send(res, 400, { error: 'חסר שם רשימה' });
+    const id = `list-${nextId++}`;
+    lists[id] = { id, name, archived: false, createdAt: Date.now(), items: {} };
+    return send(res, 200, listInfo(lists[id]));
+  }
+
+  const list = lists[String(body.listId)];
+  if (!list) return send(res, 404, { error: 'הרשימה לא נמצאה' });
+  switch (path) {
+    case '/api/lists/rename': {
+      const name = String(body.name || '').trim();
+      if (!name) return send(res, 400, { error: 'חסר שם רשימה' });
+      list.name = name;
+      return send(res, 200, listInfo(list));
+    }
+    case '/api/lists/archive':
+      list.archived = Boolean(body.archived);
+      return send(res, 200, listInfo(list));
+    case '/api/lists/delete':
+      if (Object.keys(lists).length === 1) return send(res, 409, { error: 'אי אפשר למחוק את הרשימה האחרונה' });
+      delete lists[list.id];
+      return send(res, 200, { ok: true });
+    default:
+      return send(res, 404, { error: 'Not found' });
+  }
+}
+
+function handleStats(req, res, path) {
+  if (req.method !== 'GET') return send(res, 405, { error: 'Method not allowed' });
+  if (path === '/api/stats') return send(res, 200, statsPayload());
+  const barcode = decodeURIComponent(path.slice('/api/stats/'.length));
+  const entry = purchaseHistory().get(barcode);
+  if (!entry) return send(res, 404, { error: 'Product not found' });
+  return send(res, 200, productStats(barcode, entry));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname.replace(/\/$/, '');
+  console.log(`${req.method} ${path}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type, Accept, Cache-Control',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    return res.end();
+  }
+
+  if (path.startsWith('/api/lists')) return handleLists(req, res, path);
+  if (path.startsWith('/api/list')) return handleList(req, res, path, url.searchParams);
+  if (path.startsWith('/api/receipts') || path === '/api/fetchReceipt') return handleReceipts(req, res, path);
+  // The app uses both generalSettings and generalsettings
+  if (path.toLowerCase().startsWith('/api/generalsettings')) return handleSettings(req, res, path.toLowerCase());
+  if (path === '/api/stats' || path.startsWith('/api/stats/')) return handleStats(req, res, path);
+  if (path === '/api/aisleOrder') return handleAisleOrder(req, res);
+  if (req.method === 'GET' && path === '/api/prices') return send(res, 200, prices);
+  if (req.method === 'GET' && path === '/api/products') return send(res, 200, productsPayload());
+  return send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`ZenList mock server listening on http://localhost:${PORT}`);
+});